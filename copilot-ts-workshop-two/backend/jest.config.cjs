@@ -8,6 +8,8 @@ module.exports = {
     },
   },
   moduleNameMapper: {
+    // Test against the shared sources directly so a stale shared/build never masks changes
+    '^@superheroes/shared$': '<rootDir>/../shared/src/index.ts',
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
 };
\ No newline at end of file
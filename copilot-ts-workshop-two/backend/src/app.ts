@@ -0,0 +1,194 @@
+import express, { Express } from 'express';
+import path from 'path';
+import swaggerUi from 'swagger-ui-express';
+import { SuperheroRepository } from './superheroRepository.js';
+import { JsonSuperheroStore, SuperheroStore } from './superheroStore.js';
+import { notFoundHandler, problemHandler, requestId } from './errors.js';
+import { authenticate, AuthOptions, AuthService } from './auth.js';
+import { deprecated } from './deprecation.js';
+import { cors } from './cors.js';
+import { CachePolicies, DEFAULT_CACHE_POLICIES } from './httpCache.js';
+import { JsonRecordStore } from './jsonFile.js';
+import { closeWhenDraining, Lifecycle } from './lifecycle.js';
+import { logger } from './logger.js';
+import { createMetrics } from './metrics.js';
+import { observeRequests, routeLabeler } from './observability.js';
+import { DEFAULT_RATE_LIMITS, MemoryRateLimitStore, RateLimiter, RateLimitPolicies } from './rateLimit.js';
+import { IMPORT_PATH } from './rosterTransfer.js';
+import { Team } from './team.js';
+import { Tournament } from './tournament.js';
+import { ApiKey, User } from './users.js';
+import { validateRequest } from './validation.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { ApiContext } from './routes/context.js';
+import { createHealthRouter } from './routes/health.js';
+import { createV1Router } from './routes/v1.js';
+import { createV2Router } from './routes/v2.js';
+
+export interface AppOptions {
+  /** The roster's JSON file. Tournaments, teams, users and API keys are kept in JSON files next to it. */
+  dataFile: string;
+  /** Where the roster is read from and written to instead of `dataFile`, e.g. an SQLite database. */
+  store?: SuperheroStore;
+  auth: Omit<AuthOptions, 'users' | 'apiKeys'>;
+  cache?: CachePolicies;
+  rateLimits?: RateLimitPolicies;
+  /** Origins browsers may call the API from ('*' for any); none by default. */
+  corsOrigins?: string[];
+  features?: Partial<AppFeatures>;
+}
+
+/**
+ * Optional parts of the app, all on by default.
+ */
+export interface AppFeatures {
+  /** GET /api/openapi.json and the Swagger UI at /api/docs. */
+  docs: boolean;
+  /** GET /metrics. Metrics are collected either way. */
+  metrics: boolean;
+  /** The deprecated unversioned /api alias of v1. */
+  legacyApi: boolean;
+}
+
+const DEFAULT_FEATURES: AppFeatures = { docs: true, metrics: true, legacyApi: true };
+
+/**
+ * An application instance: the Express app and the state it serves. It does not listen
+ * by itself; pass it to {@link startServer} or mount `app` in another server.
+ */
+export interface SuperheroesApp {
+  app: Express;
+  context: ApiContext;
+  lifecycle: Lifecycle;
+  /** Stops watching and closes the roster store. Call once the app no longer serves requests. */
+  close(): void;
+}
+
+// The unversioned /api paths stay available until then; clients should move to /api/v1
+const LEGACY_API_DEPRECATION = {
+  deprecatedAt: new Date('2026-10-19T00:00:00Z'),
+  sunsetAt: new Date('2027-04-30T00:00:00Z')
+};
+
+// Paths under /api that belong to an API version, known or not, e.g. /v3/superheroes
+const VERSIONED_PATH = /^\/v\d+(\/|$)/;
+
+export function createApp(options: AppOptions): SuperheroesApp {
+  const dataDir = path.dirname(options.dataFile);
+  const features = { ...DEFAULT_FEATURES, ...options.features };
+  const repository = new SuperheroRepository(options.store ?? new JsonSuperheroStore(options.dataFile));
+  const context: ApiContext = {
+    repository,
+    // Tournaments and teams live next to the roster, so a custom data file brings its own history
+    tournaments: new JsonRecordStore<Tournament>(path.join(dataDir, 'tournaments.json')),
+    teams: new JsonRecordStore<Team>(path.join(dataDir, 'teams.json')),
+    cache: options.cache ?? DEFAULT_CACHE_POLICIES,
+    auth: new AuthService({
+      users: new JsonRecordStore<User>(path.join(dataDir, 'users.json')),
+      apiKeys: new JsonRecordStore<ApiKey>(path.join(dataDir, 'api-keys.json')),
+      ...options.auth
+    }),
+    rateLimiter: new RateLimiter(new MemoryRateLimitStore(), options.rateLimits ?? DEFAULT_RATE_LIMITS),
+    metrics: createMetrics(repository)
+  };
+  const lifecycle: Lifecycle = { draining: false };
+
+  const app = express();
+  app.use(requestId);
+  app.use(observeRequests(logger, context.metrics, routeLabeler(app)));
+  app.use(closeWhenDraining(lifecycle));
+  app.use(cors(options.corsOrigins ?? []));
+  // Roster imports parse their own bodies, with a larger limit (see POST /superheroes/import)
+  const parseJson = express.json();
+  app.use((req, res, next) => (IMPORT_PATH.test(req.path) ? next() : parseJson(req, res, next)));
+  app.use(authenticate(context.auth));
+  app.use('/api', context.rateLimiter.middleware('default'));
+
+  // Root route
+  /**
+   * GET /
+   * Welcome message. Probes should use /healthz and /readyz instead.
+   *
+   * Response: 200 OK - Returns a welcome string.
+   */
+  app.get('/', (req, res) => {
+    res.send('Save the World!');
+  });
+
+  app.use(createHealthRouter({ repository, lifecycle }));
+
+  if (features.metrics) {
+    /**
+     * GET /metrics
+     * Prometheus metrics: requests and latency by route and status, comparisons run, data
+     * reloads and the roster size, plus Node process metrics.
+     *
+     * Response: 200 OK - Prometheus text exposition format
+     */
+    app.get('/metrics', validateRequest({}), async (req, res, next) => {
+      try {
+        res.type(context.metrics.registry.contentType).send(await context.metrics.registry.metrics());
+      } catch (err) {
+        next(err);
+      }
+    });
+  }
+
+  if (features.docs) {
+    let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+    /**
+     * GET /api/openapi.json
+     * Returns the OpenAPI 3.1 description of this API, generated from the registered
+     * routes and their validation schemas.
+     *
+     * Response: 200 OK - OpenAPI document
+     */
+    app.get('/api/openapi.json', validateRequest({}), (req, res) => {
+      // Built on first use, once every route has been registered
+      openApiDocument ??= buildOpenApiDocument(app, { title: 'Superheroes API', version: '1.0.0' });
+      res.json(openApiDocument);
+    });
+
+    /**
+     * GET /api/docs
+     * Interactive API documentation (Swagger UI) for /api/openapi.json.
+     *
+     * Response: 200 OK - HTML page
+     *           301 Moved Permanently - To /api/docs/, so the page's relative asset URLs resolve
+     */
+    app.use('/api/docs', swaggerUi.serve);
+    const docsPage = swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/openapi.json' } });
+    app.get('/api/docs', validateRequest({}), (req, res, next) => {
+      if (!req.originalUrl.endsWith('/')) {
+        res.redirect(301, '/api/docs/');
+        return;
+      }
+      docsPage(req, res, next);
+    });
+  }
+
+  const v1 = createV1Router(context);
+  app.use('/api/v1', v1);
+  app.use('/api/v2', createV2Router(context));
+  if (features.legacyApi) {
+    // Mounted last under /api, so only requests no versioned route took are marked deprecated.
+    // Versioned paths are never aliased: an unknown /api/v3/... or /api/v2/... is a plain 404
+    const legacy = express.Router();
+    legacy.use((req, res, next) => (VERSIONED_PATH.test(req.path) ? next('router') : next()));
+    legacy.use(deprecated(LEGACY_API_DEPRECATION));
+    legacy.use(v1);
+    app.use('/api', legacy);
+  }
+
+  // Every failure, including unknown routes, is answered with application/problem+json
+  app.use(notFoundHandler);
+  app.use(problemHandler);
+
+  return {
+    app,
+    context,
+    lifecycle,
+    close: () => repository.close()
+  };
+}
@@ -0,0 +1,220 @@
+import { RequestHandler } from 'express';
+import { HttpError } from './errors.js';
+import { JsonRecordStore } from './jsonFile.js';
+import { InvalidTokenError, signJwt, verifyJwt } from './jwt.js';
+import {
+  API_KEY_PREFIX,
+  ApiKey,
+  hashApiKey,
+  hashPassword,
+  hasRole,
+  publicUser,
+  PublicUser,
+  Role,
+  ROLES,
+  User,
+  verifyPassword
+} from './users.js';
+
+/**
+ * Who a request was made by, set as res.locals.principal by {@link authenticate}.
+ */
+export interface Principal {
+  id: number;
+  username: string;
+  role: Role;
+  via: 'token' | 'api-key';
+  /** The key used, when via is 'api-key'. */
+  apiKeyId?: number;
+}
+
+export interface AuthOptions {
+  users: JsonRecordStore<User>;
+  apiKeys: JsonRecordStore<ApiKey>;
+  /** HMAC key for signing tokens. Tokens don't outlive it. */
+  secret: Buffer;
+  /** Lifetime of login tokens in seconds (default one hour). */
+  tokenTtl?: number;
+  /** Role of requests without credentials; null makes every route require them. */
+  anonymousRole: Role | null;
+  /** Created as an admin on first use if there are no users yet. */
+  bootstrapAdmin?: { username: string; password: string };
+}
+
+export interface LoginResult {
+  token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  user: PublicUser;
+}
+
+const DEFAULT_TOKEN_TTL = 60 * 60;
+
+/**
+ * Local user authentication: passwords are exchanged for signed, short-lived tokens
+ * (JWT), and API keys identify scripts and services.
+ *
+ * Tokens are stateless: a changed role applies from the next login, and a deleted user's
+ * tokens stay valid until they expire. API keys are looked up on every request, so
+ * revoking one takes effect immediately.
+ */
+export class AuthService {
+  readonly users: JsonRecordStore<User>;
+  readonly apiKeys: JsonRecordStore<ApiKey>;
+  readonly anonymousRole: Role | null;
+  private readonly secret: Buffer;
+  private readonly tokenTtl: number;
+  private readonly bootstrapAdmin?: { username: string; password: string };
+  private bootstrapping: Promise<void> | null = null;
+  // Compared against when the user is unknown, so a login takes as long either way
+  private dummyHash: Promise<string> | null = null;
+
+  constructor(options: AuthOptions) {
+    this.users = options.users;
+    this.apiKeys = options.apiKeys;
+    this.anonymousRole = options.anonymousRole;
+    this.secret = options.secret;
+    this.tokenTtl = options.tokenTtl ?? DEFAULT_TOKEN_TTL;
+    this.bootstrapAdmin = options.bootstrapAdmin;
+  }
+
+  /**
+   * Creates the bootstrap admin (if configured and there are no users yet) on first use.
+   */
+  ready(): Promise<void> {
+    if (!this.bootstrapping) {
+      this.bootstrapping = this.createBootstrapAdmin().catch((err) => {
+        this.bootstrapping = null;
+        throw err;
+      });
+    }
+    return this.bootstrapping;
+  }
+
+  /**
+   * @returns A token for the user, or null if the username or password is wrong.
+   */
+  async login(username: string, password: string): Promise<LoginResult | null> {
+    await this.ready();
+    const user = (await this.users.list()).find((candidate) => candidate.username === username);
+    this.dummyHash ??= hashPassword('not a password');
+    const valid = await verifyPassword(password, user?.password_hash ?? (await this.dummyHash));
+    if (!user || !valid) return null;
+    return {
+      token: this.issueToken(user),
+      token_type: 'Bearer',
+      expires_in: this.tokenTtl,
+      user: publicUser(user)
+    };
+  }
+
+  issueToken(user: Pick<User, 'id' | 'username' | 'role'>): string {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt(
+      { sub: String(user.id), name: user.username, role: user.role, iat: now, exp: now + this.tokenTtl },
+      this.secret
+    );
+  }
+
+  /**
+   * @throws {InvalidTokenError} If the token is malformed, forged or expired.
+   */
+  verifyToken(token: string): Principal {
+    const claims = verifyJwt(token, this.secret);
+    const role = claims.role as Role;
+    if (!ROLES.includes(role) || typeof claims.name !== 'string') {
+      throw new InvalidTokenError('Malformed token');
+    }
+    return { id: Number(claims.sub), username: claims.name, role, via: 'token' };
+  }
+
+  /**
+   * @returns The key's owner, or null if the key is unknown or its owner was deleted.
+   */
+  async verifyApiKey(key: string): Promise<Principal | null> {
+    const hash = hashApiKey(key);
+    const apiKey = (await this.apiKeys.list()).find((candidate) => candidate.key_hash === hash);
+    const user = apiKey && (await this.users.get(apiKey.user_id));
+    if (!apiKey || !user) return null;
+    return { id: user.id, username: user.username, role: user.role, via: 'api-key', apiKeyId: apiKey.id };
+  }
+
+  private async createBootstrapAdmin(): Promise<void> {
+    if (!this.bootstrapAdmin || (await this.users.list()).length > 0) return;
+    const { username, password } = this.bootstrapAdmin;
+    const password_hash = await hashPassword(password);
+    await this.users.create((id, existing) => {
+      if (existing.length > 0) throw new Error('Users were created while bootstrapping the admin');
+      return { id, username, role: 'admin', password_hash, created_at: new Date().toISOString() };
+    });
+  }
+}
+
+const WWW_AUTHENTICATE = 'Bearer realm="superheroes"';
+
+/**
+ * Identifies the caller from an `Authorization: Bearer <token or API key>` or
+ * `X-API-Key: <key>` header and stores them as res.locals.principal, with their
+ * effective role (the anonymous role without credentials) as res.locals.role.
+ * Invalid credentials are answered with 401 rather than treated as anonymous.
+ */
+export function authenticate(auth: AuthService): RequestHandler {
+  return async (req, res, next) => {
+    const authorization = req.get('Authorization');
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const apiKey = req.get('X-API-Key') ?? (bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined);
+    try {
+      let principal: Principal | null = null;
+      if (apiKey) {
+        principal = await auth.verifyApiKey(apiKey);
+        if (!principal) throw new InvalidTokenError('Unknown API key');
+      } else if (bearer) {
+        principal = auth.verifyToken(bearer);
+      } else if (authorization) {
+        throw new InvalidTokenError('Unsupported authorization scheme');
+      }
+      res.locals.principal = principal;
+      res.locals.role = principal?.role ?? auth.anonymousRole;
+      next();
+    } catch (err) {
+      if (err instanceof InvalidTokenError) {
+        res.set('WWW-Authenticate', `${WWW_AUTHENTICATE}, error="invalid_token"`);
+        next(new HttpError(401, err.message));
+      } else {
+        next(err);
+      }
+    }
+  };
+}
+
+/**
+ * Middleware created by {@link requireRole}. The role stays attached so the routes can
+ * be introspected (e.g. to generate API documentation).
+ */
+export type RoleMiddleware = RequestHandler & { role: Role };
+
+export function isRoleMiddleware(handler: unknown): handler is RoleMiddleware {
+  return typeof handler === 'function' && 'role' in handler;
+}
+
+/**
+ * Lets a request through if its effective role (see {@link authenticate}) includes
+ * `role`. Anonymous callers are answered with 401, authenticated ones with 403.
+ * Generic over params and query, like the cache middleware, so it fits any route.
+ */
+export function requireRole<P = unknown, Q = unknown>(
+  role: Role
+): RequestHandler<P, unknown, unknown, Q> & { role: Role } {
+  const middleware: RequestHandler<P, unknown, unknown, Q> = (req, res, next) => {
+    const current: Role | null | undefined = res.locals.role;
+    if (current && hasRole(current, role)) {
+      next();
+    } else if (!res.locals.principal) {
+      res.set('WWW-Authenticate', WWW_AUTHENTICATE);
+      next(new HttpError(401, 'Authentication required'));
+    } else {
+      next(new HttpError(403, `Requires the ${role} role`));
+    }
+  };
+  return Object.assign(middleware, { role });
+}
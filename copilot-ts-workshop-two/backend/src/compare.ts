@@ -0,0 +1,239 @@
+import {
+  compareTwo,
+  DEFAULT_SCORING_STRATEGY,
+  POWERSTAT_NAMES,
+  PowerstatName,
+  resolveWeights,
+  SCORING_STRATEGY_NAMES,
+  ScoringOptions,
+  StatWeightsSchema,
+  StrategyReport,
+  Superhero,
+  Winner
+} from '@superheroes/shared';
+import { z } from 'zod';
+import { idParam } from './validation.js';
+
+/**
+ * Response body of GET /api/v2/superheroes/compare: the same comparison as
+ * {@link TwoHeroComparison}, but naming winners by hero object (null for a tie)
+ * instead of by position.
+ */
+export interface HeroComparison {
+  hero1: Superhero;
+  hero2: Superhero;
+  categories: Array<{
+    name: PowerstatName;
+    hero1_value: number;
+    hero2_value: number;
+    winner: Superhero | null;
+  }>;
+  overall_winner: Superhero | null;
+  strategy: StrategyReport;
+  scores: { hero1: number; hero2: number };
+}
+
+export function compareHeroes(hero1: Superhero, hero2: Superhero, scoring: ScoringOptions = {}): HeroComparison {
+  const comparison = compareTwo(hero1, hero2, scoring);
+  const pick = (winner: Winner) => (winner === 1 ? hero1 : winner === 2 ? hero2 : null);
+  return {
+    hero1,
+    hero2,
+    categories: comparison.categories.map((category) => ({
+      name: category.name,
+      hero1_value: category.id1_value,
+      hero2_value: category.id2_value,
+      winner: pick(category.winner)
+    })),
+    overall_winner: pick(comparison.overall_winner),
+    strategy: comparison.strategy,
+    scores: { hero1: comparison.scores.id1, hero2: comparison.scores.id2 }
+  };
+}
+
+/**
+ * Query of GET /api/superheroes/compare: ?id1=..&id2=..&strategy=...&weights[stat]=...
+ * Weights arrive as (qs) strings and are converted to numbers before validation.
+ */
+export const CompareQuerySchema = z
+  .object({
+    id1: idParam(),
+    id2: idParam(),
+    strategy: z.enum(SCORING_STRATEGY_NAMES).optional(),
+    weights: z.preprocess(weightsFromQuery, StatWeightsSchema).optional()
+  })
+  .strict();
+
+function weightsFromQuery(weights: unknown): unknown {
+  return typeof weights === 'object' && weights !== null && !Array.isArray(weights)
+    ? Object.fromEntries(Object.entries(weights).map(([stat, raw]) => [stat, toNumber(raw)]))
+    : weights;
+}
+
+function toNumber(raw: unknown): unknown {
+  return typeof raw === 'string' && raw.trim() !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+}
+
+export const MAX_COMPARE_HEROES = 50;
+
+/**
+ * Body of POST /api/superheroes/compare.
+ */
+export const CompareManyRequestSchema = z
+  .object({
+    strategy: z.enum(SCORING_STRATEGY_NAMES).optional(),
+    weights: StatWeightsSchema.optional(),
+    ids: z
+      .array(z.number().int().positive(), { required_error: 'ids is required' })
+      .min(2, 'at least two ids are required')
+      .max(MAX_COMPARE_HEROES, `at most ${MAX_COMPARE_HEROES} ids can be compared at once`)
+      .refine((ids) => new Set(ids).size === ids.length, 'ids must be unique')
+  })
+  .strict();
+
+export interface CategoryRanking {
+  name: PowerstatName;
+  /** Heroes ordered by value; equal values share a rank (1, 2, 2, 4). */
+  ranking: Array<{ id: number; value: number; rank: number }>;
+}
+
+export interface Standing {
+  rank: number;
+  id: number;
+  name: string;
+  /** 1 point per head-to-head win, 0.5 per tie. */
+  points: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Categories won across all head-to-head matchups. */
+  category_wins: number;
+  /** Sum of all six powerstats. */
+  total_stats: number;
+}
+
+export interface MultiHeroComparison {
+  ids: number[];
+  categories: CategoryRanking[];
+  /**
+   * matrix[i][j] is the number of categories ids[i] wins against ids[j]
+   * (null on the diagonal).
+   */
+  matrix: Array<Array<number | null>>;
+  standings: Standing[];
+  tiebreakers: string[];
+  strategy: StrategyReport;
+}
+
+/**
+ * Order in which ties in the standings are broken.
+ */
+export const TIEBREAKERS = [
+  'points',
+  'head_to_head_points',
+  'category_wins',
+  'total_stats',
+  'lowest_id'
+];
+
+/**
+ * Compares every hero against every other one (round robin of two-hero comparisons)
+ * and ranks them. Heroes are listed in the order given; each head-to-head winner is
+ * decided by the scoring strategy.
+ */
+export function compareMany(heroes: Superhero[], scoring: ScoringOptions = {}): MultiHeroComparison {
+  const ids = heroes.map((hero) => hero.id);
+
+  const categories = POWERSTAT_NAMES.map((name): CategoryRanking => {
+    const sorted = heroes
+      .map((hero) => ({ id: hero.id, value: hero.powerstats[name] }))
+      .sort((a, b) => b.value - a.value || a.id - b.id);
+    const ranking = sorted.map((entry) => ({
+      ...entry,
+      rank: sorted.findIndex((other) => other.value === entry.value) + 1
+    }));
+    return { name, ranking };
+  });
+
+  const matrix: Array<Array<number | null>> = heroes.map(() => heroes.map(() => null));
+  // headToHead[i][j]: points hero i earned against hero j (1, 0.5 or 0)
+  const headToHead: number[][] = heroes.map(() => heroes.map(() => 0));
+  const standings: Standing[] = heroes.map((hero) => ({
+    rank: 0,
+    id: hero.id,
+    name: hero.name,
+    points: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    category_wins: 0,
+    total_stats: POWERSTAT_NAMES.reduce((sum, stat) => sum + hero.powerstats[stat], 0)
+  }));
+
+  for (let i = 0; i < heroes.length; i++) {
+    for (let j = i + 1; j < heroes.length; j++) {
+      const result = compareTwo(heroes[i], heroes[j], scoring);
+      const iWins = result.categories.filter((cat) => cat.winner === 1).length;
+      const jWins = result.categories.filter((cat) => cat.winner === 2).length;
+      matrix[i][j] = iWins;
+      matrix[j][i] = jWins;
+      standings[i].category_wins += iWins;
+      standings[j].category_wins += jWins;
+
+      if (result.overall_winner === 1) {
+        record(i, j, 1);
+      } else if (result.overall_winner === 2) {
+        record(j, i, 1);
+      } else {
+        record(i, j, 0.5);
+      }
+    }
+  }
+
+  function record(winner: number, loser: number, points: number): void {
+    headToHead[winner][loser] = points;
+    headToHead[loser][winner] = 1 - points;
+    standings[winner].points += points;
+    standings[loser].points += 1 - points;
+    if (points === 1) {
+      standings[winner].wins++;
+      standings[loser].losses++;
+    } else {
+      standings[winner].ties++;
+      standings[loser].ties++;
+    }
+  }
+
+  const order = heroes.map((_, index) => index);
+  order.sort((a, b) => standings[b].points - standings[a].points);
+
+  // Within each group level on points, rank by points earned against the rest of the group
+  const ranked: number[] = [];
+  for (let start = 0; start < order.length; ) {
+    let end = start + 1;
+    while (end < order.length && standings[order[end]].points === standings[order[start]].points) end++;
+    const group = order.slice(start, end);
+    const groupPoints = (i: number) => group.reduce((sum, j) => sum + headToHead[i][j], 0);
+    group.sort(
+      (a, b) =>
+        groupPoints(b) - groupPoints(a) ||
+        standings[b].category_wins - standings[a].category_wins ||
+        standings[b].total_stats - standings[a].total_stats ||
+        standings[a].id - standings[b].id
+    );
+    ranked.push(...group);
+    start = end;
+  }
+
+  return {
+    ids,
+    categories,
+    matrix,
+    standings: ranked.map((index, position) => ({ ...standings[index], rank: position + 1 })),
+    tiebreakers: TIEBREAKERS,
+    strategy: {
+      name: scoring.strategy ?? DEFAULT_SCORING_STRATEGY,
+      weights: resolveWeights(scoring.weights)
+    }
+  };
+}
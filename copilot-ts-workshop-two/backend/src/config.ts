@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { CachePolicy, DEFAULT_CACHE_POLICIES } from './httpCache.js';
+import { LOG_LEVELS } from './logger.js';
+import { STORAGE_DRIVERS } from './storage.js';
+import { ROLES } from './users.js';
+
+/**
+ * One configurable value: where it lives in {@link Config} and the environment variable
+ * and command-line flag that set it. Secrets have no flag (command lines are visible to
+ * other users) and their values are never echoed in reports.
+ */
+interface Setting {
+  key: string;
+  env: string;
+  flag?: string;
+  description: string;
+  secret?: true;
+  boolean?: true;
+}
+
+const SETTINGS: Setting[] = [
+  { key: 'port', env: 'PORT', flag: 'port', description: 'Port to listen on (default 3000)' },
+  { key: 'host', env: 'HOST', flag: 'host', description: 'Interface to listen on (default: all)' },
+  { key: 'dataFile', env: 'SUPERHEROES_DATA_FILE', flag: 'data-file', description: 'Roster JSON file' },
+  {
+    key: 'storage',
+    env: 'STORAGE',
+    flag: 'storage',
+    description: `Roster store: ${STORAGE_DRIVERS.join(', ')} (default json)`
+  },
+  {
+    key: 'sqliteFile',
+    env: 'SUPERHEROES_SQLITE_FILE',
+    flag: 'sqlite-file',
+    description: 'SQLite database for the sqlite store (default: the data file with a .db extension)'
+  },
+  {
+    key: 'corsOrigins',
+    env: 'CORS_ORIGINS',
+    flag: 'cors-origins',
+    description: 'Comma-separated origins allowed to call the API from browsers, or * (default: none)'
+  },
+  { key: 'logLevel', env: 'LOG_LEVEL', flag: 'log-level', description: `One of ${LOG_LEVELS.join(', ')}` },
+  {
+    key: 'shutdownTimeout',
+    env: 'SHUTDOWN_TIMEOUT_MS',
+    flag: 'shutdown-timeout',
+    description: 'Milliseconds to drain requests on shutdown (default 10000)'
+  },
+  ...(['list', 'item', 'records'] as const).flatMap((policy): Setting[] => [
+    {
+      key: `cache.${policy}.maxAge`,
+      env: `CACHE_${policy.toUpperCase()}_MAX_AGE`,
+      flag: `cache-${policy}-max-age`,
+      description: `Cache-Control max-age of ${policy} responses, in seconds`
+    },
+    {
+      key: `cache.${policy}.scope`,
+      env: `CACHE_${policy.toUpperCase()}_SCOPE`,
+      flag: `cache-${policy}-scope`,
+      description: `Cache-Control scope of ${policy} responses: public or private`
+    }
+  ]),
+  { key: 'auth.secret', env: 'AUTH_SECRET', description: 'Key signing login tokens', secret: true },
+  { key: 'auth.tokenTtl', env: 'AUTH_TOKEN_TTL', flag: 'token-ttl', description: 'Token lifetime in seconds' },
+  {
+    key: 'auth.anonymousRole',
+    env: 'AUTH_ANONYMOUS_ROLE',
+    flag: 'anonymous-role',
+    description: `Role of callers without credentials: none or one of ${ROLES.join(', ')}`
+  },
+  { key: 'auth.adminUsername', env: 'SUPERHEROES_ADMIN_USERNAME', description: 'Bootstrap admin username' },
+  {
+    key: 'auth.adminPassword',
+    env: 'SUPERHEROES_ADMIN_PASSWORD',
+    description: 'Creates the bootstrap admin while there are no users',
+    secret: true
+  },
+  {
+    key: 'features.docs',
+    env: 'FEATURE_DOCS',
+    flag: 'docs',
+    description: 'Serve /api/openapi.json and /api/docs',
+    boolean: true
+  },
+  { key: 'features.metrics', env: 'FEATURE_METRICS', flag: 'metrics', description: 'Serve /metrics', boolean: true },
+  {
+    key: 'features.legacyApi',
+    env: 'FEATURE_LEGACY_API',
+    flag: 'legacy-api',
+    description: 'Serve the deprecated unversioned /api alias of v1',
+    boolean: true
+  }
+];
+
+const integer = () => z.coerce.number({ invalid_type_error: 'Expected a number' }).int();
+
+const BOOLEANS: Record<string, boolean> = { true: true, false: false, '1': true, '0': false, yes: true, no: false };
+
+const flag = z.preprocess(
+  (value) => (typeof value === 'string' ? BOOLEANS[value.toLowerCase()] ?? value : value),
+  z.boolean({ invalid_type_error: 'Expected true or false' })
+);
+
+const list = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : value),
+  z.array(z.union([z.literal('*'), z.string().url().transform((origin) => new URL(origin).origin)]))
+);
+
+function cachePolicy(defaults: CachePolicy) {
+  return z
+    .object({
+      maxAge: integer().min(0).default(defaults.maxAge),
+      scope: z.enum(['public', 'private']).default(defaults.scope)
+    })
+    .strict()
+    .default({});
+}
+
+export const ConfigSchema = z
+  .object({
+    port: integer().min(0).max(65535).default(3000),
+    host: z.string().min(1).optional(),
+    dataFile: z.string().min(1),
+    storage: z.enum(STORAGE_DRIVERS).default('json'),
+    sqliteFile: z.string().min(1).optional(),
+    corsOrigins: list.default([]),
+    logLevel: z.enum(LOG_LEVELS).default('info'),
+    shutdownTimeout: integer().min(0).default(10_000),
+    cache: z
+      .object({
+        list: cachePolicy(DEFAULT_CACHE_POLICIES.list),
+        item: cachePolicy(DEFAULT_CACHE_POLICIES.item),
+        records: cachePolicy(DEFAULT_CACHE_POLICIES.records)
+      })
+      .strict()
+      .default({}),
+    auth: z
+      .object({
+        secret: z.string().min(16, 'must be at least 16 characters').optional(),
+        tokenTtl: integer().positive().default(3600),
+        anonymousRole: z.enum(['none', ...ROLES]).default('viewer'),
+        adminUsername: z.string().min(1).default('admin'),
+        adminPassword: z.string().min(8, 'must be at least 8 characters').optional()
+      })
+      .strict()
+      .default({}),
+    features: z
+      .object({
+        docs: flag.default(true),
+        metrics: flag.default(true),
+        legacyApi: flag.default(true)
+      })
+      .strict()
+      .default({})
+  })
+  .strict()
+  .transform((config) => ({
+    ...config,
+    sqliteFile: config.sqliteFile ?? path.join(path.dirname(config.dataFile), `${path.parse(config.dataFile).name}.db`)
+  }));
+
+export type Config = z.output<typeof ConfigSchema>;
+
+export interface ConfigProblem {
+  key: string;
+  message: string;
+  /** Where the invalid value came from, e.g. "PORT=abc" or "--log-level". */
+  source?: string;
+}
+
+/**
+ * Thrown when the configuration is invalid. The message lists every problem, one per line.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: ConfigProblem[]) {
+    const lines = problems.map(
+      ({ key, message, source }) => `  - ${key}: ${message}${source ? ` (from ${source})` : ''}`
+    );
+    super(['Invalid configuration:', ...lines].join('\n'));
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigSources {
+  /** Command-line arguments, without the node and script paths. */
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  /** Values used when no source sets them, e.g. the bundled data file. */
+  defaults?: { dataFile?: string };
+}
+
+/**
+ * Builds the configuration from, in increasing precedence: defaults, a JSON config file
+ * (--config or SUPERHEROES_CONFIG), environment variables and command-line flags.
+ * Relative paths in the config file are resolved against the file's directory.
+ *
+ * @throws {ConfigError} Listing every invalid, unknown or malformed value.
+ */
+export function loadConfig({ argv = [], env = {}, defaults = {} }: ConfigSources): Config {
+  const problems: ConfigProblem[] = [];
+  const raw: Record<string, unknown> = {};
+  const origins = new Map<string, string>();
+
+  const { values: flags, configFile: configFlag } = parseArgs(argv, problems);
+  const configFile = configFlag ?? (env.SUPERHEROES_CONFIG || undefined);
+  if (defaults.dataFile) raw.dataFile = defaults.dataFile;
+  if (configFile) {
+    const fromFile = readConfigFile(configFile, problems);
+    if (fromFile) {
+      for (const key of ['dataFile', 'sqliteFile']) {
+        if (typeof fromFile[key] === 'string') fromFile[key] = path.resolve(path.dirname(configFile), fromFile[key]);
+      }
+      mergeInto(raw, fromFile);
+      for (const key of leafKeys(fromFile)) origins.set(key, `config file ${configFile}`);
+    }
+  }
+  for (const setting of SETTINGS) {
+    const value = env[setting.env];
+    if (value === undefined || value === '') continue;
+    setPath(raw, setting.key, value);
+    origins.set(setting.key, setting.secret ? setting.env : `${setting.env}=${value}`);
+  }
+  for (const [setting, value] of flags) {
+    setPath(raw, setting.key, value);
+    origins.set(setting.key, `--${setting.flag}=${value}`);
+  }
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    for (const issue of result.error.issues) problems.push(...describeIssue(issue, origins, configFile));
+  }
+  if (problems.length > 0 || !result.success) throw new ConfigError(problems);
+  return result.data;
+}
+
+function describeIssue(issue: z.ZodIssue, origins: Map<string, string>, configFile?: string): ConfigProblem[] {
+  if (issue.code === 'unrecognized_keys') {
+    // Only the config file can introduce keys the schema doesn't know
+    return issue.keys.map((key) => ({
+      key: [...issue.path, key].join('.'),
+      message: 'Unknown setting',
+      source: configFile && `config file ${configFile}`
+    }));
+  }
+  const key = issue.path.join('.');
+  return [{ key, message: issue.message, source: origins.get(key) }];
+}
+
+/**
+ * Describes every setting, for --help.
+ */
+export function configUsage(): string {
+  const lines = ['Options (each can also be set in the environment or in a JSON file passed with --config):'];
+  for (const setting of SETTINGS) {
+    const option = setting.flag ? (setting.boolean ? `--[no-]${setting.flag}` : `--${setting.flag} <value>`) : '';
+    lines.push(`  ${option.padEnd(30)} ${setting.env.padEnd(28)} ${setting.description}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Reads `--flag value`, `--flag=value` and, for booleans, `--flag` and `--no-flag`.
+ */
+function parseArgs(argv: string[], problems: ConfigProblem[]) {
+  const values = new Map<Setting, string>();
+  let configFile: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const match = /^--(no-)?([\w-]+)(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      problems.push({ key: arg, message: 'Unexpected argument' });
+      continue;
+    }
+    const [, negated, name, inline] = match;
+    const setting = SETTINGS.find((candidate) => candidate.flag === name);
+    if (name === 'config' && !negated) {
+      configFile = inline ?? argv[++i];
+      if (configFile === undefined) {
+        problems.push({ key: '(config file)', message: 'Missing value', source: '--config' });
+      }
+    } else if (setting?.boolean && inline === undefined) {
+      values.set(setting, negated ? 'false' : 'true');
+    } else if (setting && !negated) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) {
+        problems.push({ key: setting.key, message: 'Missing value', source: `--${name}` });
+      } else {
+        values.set(setting, value);
+      }
+    } else {
+      problems.push({ key: arg, message: 'Unknown option' });
+    }
+  }
+  return { values, configFile };
+}
+
+function readConfigFile(file: string, problems: ConfigProblem[]): Record<string, unknown> | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    problems.push({ key: '(config file)', message: (err as Error).message, source: file });
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    problems.push({ key: '(config file)', message: 'Expected a JSON object', source: file });
+    return undefined;
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key] as Record<string, unknown>, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function leafKeys(object: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(object).flatMap(([key, value]) =>
+    isPlainObject(value) ? leafKeys(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+function setPath(target: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(node[part])) node[part] = {};
+    node = node[part] as Record<string, unknown>;
+  }
+  node[parts[parts.length - 1]] = value;
+}
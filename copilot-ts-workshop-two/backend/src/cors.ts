@@ -0,0 +1,63 @@
+import { RequestHandler } from 'express';
+
+const ALLOWED_HEADERS = [
+  'Authorization',
+  'Content-Type',
+  'If-Modified-Since',
+  'If-None-Match',
+  'X-API-Key',
+  'X-Request-Id'
+];
+
+// Headers browsers hide from scripts on cross-origin responses unless listed
+const EXPOSED_HEADERS = [
+  'Content-Disposition',
+  'Deprecation',
+  'ETag',
+  'Link',
+  'Location',
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'Retry-After',
+  'Sunset',
+  'X-Next-Cursor',
+  'X-Request-Id',
+  'X-Total-Count'
+];
+
+/**
+ * Lets browsers on the given origins call the API. '*' allows any origin. Preflight
+ * requests from allowed origins are answered with 204; requests from other origins are
+ * served without CORS headers, so browsers withhold the response from the page.
+ */
+export function cors(origins: string[]): RequestHandler {
+  const anyOrigin = origins.includes('*');
+  return (req, res, next) => {
+    const origin = req.get('Origin');
+    if (!origin || origins.length === 0) {
+      next();
+      return;
+    }
+    res.vary('Origin');
+    if (!anyOrigin && !origins.includes(origin)) {
+      next();
+      return;
+    }
+    res.set({
+      'Access-Control-Allow-Origin': anyOrigin ? '*' : origin,
+      'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', ')
+    });
+    if (req.method === 'OPTIONS' && req.get('Access-Control-Request-Method')) {
+      res
+        .set({
+          'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE',
+          'Access-Control-Allow-Headers': ALLOWED_HEADERS.join(', '),
+          'Access-Control-Max-Age': '600'
+        })
+        .sendStatus(204);
+      return;
+    }
+    next();
+  };
+}
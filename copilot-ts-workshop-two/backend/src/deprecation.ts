@@ -0,0 +1,29 @@
+import { RequestHandler } from 'express';
+
+export interface DeprecationPolicy {
+  /** When the routes were deprecated. */
+  deprecatedAt: Date;
+  /** When the routes are expected to stop responding. */
+  sunsetAt: Date;
+}
+
+export type DeprecationMiddleware = RequestHandler & { deprecation: DeprecationPolicy };
+
+/**
+ * Marks every response passing through as deprecated, with a Deprecation header
+ * (RFC 9745, e.g. "@1792368000") and a Sunset header (RFC 8594, an HTTP date).
+ */
+export function deprecated(policy: DeprecationPolicy): DeprecationMiddleware {
+  const deprecation = `@${Math.floor(policy.deprecatedAt.getTime() / 1000)}`;
+  const sunset = policy.sunsetAt.toUTCString();
+  const middleware: RequestHandler = (req, res, next) => {
+    res.set('Deprecation', deprecation);
+    res.set('Sunset', sunset);
+    next();
+  };
+  return Object.assign(middleware, { deprecation: policy });
+}
+
+export function isDeprecationMiddleware(handler: unknown): handler is DeprecationMiddleware {
+  return typeof handler === 'function' && 'deprecation' in handler;
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { STATUS_CODES } from 'http';
+import { ErrorRequestHandler, RequestHandler } from 'express';
+import { logger } from './logger.js';
+
+/**
+ * An error that maps to an HTTP response. Route handlers pass these to `next()` and
+ * {@link problemHandler} turns them into problem+json bodies.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    /** Extra members added to the problem body, e.g. { errors: ValidationIssue[] }. */
+    readonly extensions: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * RFC 7807 problem details, plus the id of the request that failed.
+ */
+export interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  request_id: string;
+  [extension: string]: unknown;
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming ids are echoed back, so only accept short, header-safe ones
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Tags every request with an id (the caller's X-Request-Id if usable, a new UUID
+ * otherwise), exposed as res.locals.requestId and echoed in the response header.
+ */
+export const requestId: RequestHandler = (req, res, next) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = id;
+  res.set(REQUEST_ID_HEADER, id);
+  next();
+};
+
+/**
+ * Fallback for requests no route matched. Mount after all routes.
+ */
+export const notFoundHandler: RequestHandler = (req, res, next) => {
+  next(new HttpError(404, `No route for ${req.method} ${req.path}`));
+};
+
+/**
+ * Renders every error as application/problem+json. HttpErrors keep their status and
+ * message; client errors raised by Express middleware (e.g. malformed JSON bodies)
+ * keep theirs; anything else is logged and reported as a bare 500. Problems are never
+ * cached.
+ */
+export const problemHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  let status = 500;
+  let detail = 'An unexpected error occurred';
+  let extensions: Record<string, unknown> = {};
+  if (err instanceof HttpError) {
+    ({ status, extensions } = err);
+    detail = err.message;
+  } else if (isClientError(err)) {
+    status = err.status;
+    detail = err.message;
+  }
+  if (status >= 500) {
+    logger.error('Error handling request', {
+      request_id: res.locals.requestId,
+      method: req.method,
+      path: req.originalUrl,
+      err
+    });
+  }
+  // Validators and cache policies set for the resource don't apply to the error
+  res.removeHeader('ETag');
+  res.removeHeader('Last-Modified');
+  res.set('Cache-Control', 'no-store');
+  const problem: Problem = {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail,
+    instance: req.originalUrl,
+    request_id: res.locals.requestId,
+    ...extensions
+  };
+  res.status(status).type('application/problem+json').json(problem);
+};
+
+/**
+ * Errors from http-errors (used by body-parser) carry a status and say whether their
+ * message is safe to show.
+ */
+function isClientError(err: unknown): err is { status: number; message: string } {
+  const candidate = err as { status?: unknown; expose?: unknown };
+  return (
+    typeof candidate?.status === 'number' &&
+    candidate.status >= 400 &&
+    candidate.status < 500 &&
+    candidate.expose === true
+  );
+}
@@ -0,0 +1,88 @@
+import { createHash } from 'crypto';
+import { RequestHandler } from 'express';
+import { SuperheroRepository } from './superheroRepository.js';
+
+export interface CachePolicy {
+  /** Seconds a response may be reused without asking the server again; 0 means always revalidate. */
+  maxAge: number;
+  /** 'public' lets shared caches (proxies, CDNs) store the response, 'private' only the client. */
+  scope: 'public' | 'private';
+}
+
+/**
+ * Cache-Control policies of the API's read routes.
+ */
+export interface CachePolicies {
+  /** Roster listings and searches, which change with any edit. */
+  list: CachePolicy;
+  /** Single superheroes, their powerstats and comparisons. */
+  item: CachePolicy;
+  /** Tournaments and teams, which are not versioned with the roster. */
+  records: CachePolicy;
+}
+
+export const DEFAULT_CACHE_POLICIES: CachePolicies = {
+  list: { maxAge: 0, scope: 'public' },
+  item: { maxAge: 60, scope: 'public' },
+  records: { maxAge: 0, scope: 'private' }
+};
+
+export function cacheControlHeader(policy: CachePolicy): string {
+  return policy.maxAge > 0 ? `${policy.scope}, max-age=${policy.maxAge}` : `${policy.scope}, no-cache`;
+}
+
+/**
+ * Sets Cache-Control on successful responses. Errors are never cached, see problemHandler.
+ * Like {@link rosterCache} it is generic over params and query, so it fits any route
+ * whatever its validation produced.
+ */
+export function cacheControl<P = unknown, Q = unknown>(policy: CachePolicy): RequestHandler<P, unknown, unknown, Q> {
+  const header = cacheControlHeader(policy);
+  return (req, res, next) => {
+    res.set('Cache-Control', header);
+    next();
+  };
+}
+
+/**
+ * A strong ETag for a response computed from stored records (e.g. teams) and the heroes
+ * they refer to: it covers the records and the roster digest, so it changes when either
+ * does and a client is never told that results the roster has outdated are current.
+ */
+export function recordsEtag(repository: SuperheroRepository, ...records: unknown[]): string {
+  const hash = createHash('sha256').update(repository.digest).update(JSON.stringify(records));
+  return `"${hash.digest('base64url').slice(0, 22)}"`;
+}
+
+/**
+ * For routes whose response depends only on the URL and the roster: sets a strong ETag
+ * from the roster digest, Last-Modified from the data file and Cache-Control, then
+ * answers 304 Not Modified without running the route if the client's copy (per
+ * If-None-Match, or else If-Modified-Since) is current.
+ *
+ * Add it after the route's validation, so invalid requests are rejected rather than
+ * reported as unchanged.
+ */
+export function rosterCache<P = unknown, Q = unknown>(
+  repository: SuperheroRepository,
+  policy: CachePolicy
+): RequestHandler<P, unknown, unknown, Q> {
+  const header = cacheControlHeader(policy);
+  return async (req, res, next) => {
+    try {
+      await repository.ready();
+      res.set({
+        ETag: `"${repository.digest}"`,
+        'Last-Modified': repository.modifiedAt.toUTCString(),
+        'Cache-Control': header
+      });
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Replaces a JSON file atomically: the data is written to a temp file in the same
+ * directory and then renamed over the target, so readers never see a partial file.
+ */
+export async function writeJsonFileAtomically(filePath: string, data: unknown): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+  try {
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Serializes asynchronous read-modify-write cycles so they never interleave.
+ */
+export class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    // Keep the queue alive even if this task fails
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * A list of records with server-assigned integer ids, persisted as a JSON array.
+ * A missing file is treated as an empty list and created on the first write.
+ */
+export class JsonRecordStore<T extends { id: number }> {
+  private readonly queue = new WriteQueue();
+
+  constructor(readonly filePath: string) {}
+
+  async list(): Promise<T[]> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async get(id: number): Promise<T | undefined> {
+    return (await this.list()).find((record) => record.id === id);
+  }
+
+  /**
+   * Stores a new record under the next free id. `build` also sees the existing records
+   * and may throw to reject the new one (e.g. on a duplicate name).
+   */
+  create(build: (id: number, existing: T[]) => T): Promise<T> {
+    return this.queue.run(async () => {
+      const records = await this.list();
+      const record = build(records.reduce((max, existing) => Math.max(max, existing.id), 0) + 1, records);
+      await writeJsonFileAtomically(this.filePath, [...records, record]);
+      return record;
+    });
+  }
+
+  /**
+   * Replaces an existing record. `change` also sees all records and may throw to reject
+   * the change (e.g. when it would remove the last admin).
+   *
+   * @returns The new record, or null if no record has the given id.
+   */
+  update(id: number, change: (current: T, existing: T[]) => T): Promise<T | null> {
+    return this.queue.run(async () => {
+      const records = await this.list();
+      const index = records.findIndex((record) => record.id === id);
+      if (index === -1) return null;
+      const record = change(records[index], records);
+      await writeJsonFileAtomically(this.filePath, records.map((existing, i) => (i === index ? record : existing)));
+      return record;
+    });
+  }
+
+  /**
+   * Removes a record. `check`, if given, sees the record and all records and may throw to
+   * keep it.
+   *
+   * @returns true if a record was removed, false if the id was unknown.
+   */
+  remove(id: number, check?: (current: T, existing: T[]) => void): Promise<boolean> {
+    return this.queue.run(async () => {
+      const records = await this.list();
+      const current = records.find((record) => record.id === id);
+      if (!current) return false;
+      check?.(current, records);
+      const remaining = records.filter((record) => record !== current);
+      await writeJsonFileAtomically(this.filePath, remaining);
+      return true;
+    });
+  }
+}
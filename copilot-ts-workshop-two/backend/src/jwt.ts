@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Raised when a token is malformed, has a bad signature or has expired.
+ */
+export class InvalidTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+export interface JwtClaims {
+  sub: string;
+  /** Issued at, in seconds since the epoch. */
+  iat: number;
+  /** Expires at, in seconds since the epoch. */
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Signs claims as a compact HS256 JSON Web Token (RFC 7519).
+ */
+export function signJwt(claims: JwtClaims, secret: Buffer): string {
+  const unsigned = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${unsigned}.${signature(unsigned, secret)}`;
+}
+
+/**
+ * Checks a token's signature and expiry and returns its claims. Only HS256 tokens are
+ * accepted, whatever their header says.
+ *
+ * @throws {InvalidTokenError} If the token is malformed, forged or expired.
+ */
+export function verifyJwt(token: string, secret: Buffer, now = Date.now()): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new InvalidTokenError('Malformed token');
+  const [header, payload, sig] = parts;
+  const expected = Buffer.from(signature(`${header}.${payload}`, secret));
+  const actual = Buffer.from(sig);
+  if (header !== HEADER || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new InvalidTokenError('Invalid token signature');
+  }
+  let claims: JwtClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError('Malformed token');
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new InvalidTokenError('Malformed token');
+  }
+  if (claims.exp * 1000 <= now) throw new InvalidTokenError('Token has expired');
+  return claims;
+}
+
+function signature(unsigned: string, secret: Buffer): string {
+  return createHmac('sha256', secret).update(unsigned).digest('base64url');
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64url');
+}
@@ -0,0 +1,123 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RequestHandler } from 'express';
+import type { SuperheroesApp } from './app.js';
+import { logger } from './logger.js';
+
+/**
+ * Shared between an app and the server running it.
+ */
+export interface Lifecycle {
+  /** Set once shutdown has begun: /readyz fails and connections are not kept alive. */
+  draining: boolean;
+}
+
+/**
+ * Asks clients to close their connection after each response while draining, so
+ * keep-alive connections don't pin the server open.
+ */
+export function closeWhenDraining(lifecycle: Lifecycle): RequestHandler {
+  return (req, res, next) => {
+    if (lifecycle.draining) res.set('Connection', 'close');
+    next();
+  };
+}
+
+export interface ListenOptions {
+  port: number;
+  host?: string;
+  /** Milliseconds to let in-flight requests finish on shutdown before cutting them off. */
+  shutdownTimeout: number;
+}
+
+export interface RunningServer {
+  server: http.Server;
+  url: string;
+  /**
+   * Stops accepting connections, waits for in-flight requests to finish (closing the
+   * connections still open after the shutdown timeout) and then closes the app.
+   * Repeated calls return the same promise.
+   *
+   * @returns true if every request finished in time, false if some were cut off.
+   */
+  shutdown(): Promise<boolean>;
+}
+
+/**
+ * Listens for HTTP requests to the app.
+ *
+ * @throws If the port cannot be bound, e.g. EADDRINUSE.
+ */
+export async function startServer(instance: SuperheroesApp, options: ListenOptions): Promise<RunningServer> {
+  const server = http.createServer(instance.app);
+  let stopping: Promise<boolean> | null = null;
+
+  // Connections only count as idle between requests, so close each one as its last
+  // response finishes rather than letting keep-alive hold the server open
+  const inFlight = new Set<http.ServerResponse>();
+  server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    inFlight.add(res);
+    res.on('close', () => {
+      inFlight.delete(res);
+      if (stopping) setImmediate(() => server.closeIdleConnections());
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { address, port } = server.address() as AddressInfo;
+  const url = `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+
+  const shutdown = () => {
+    stopping ??= new Promise<boolean>((resolve) => {
+      instance.lifecycle.draining = true;
+      for (const res of inFlight) {
+        if (!res.headersSent) res.setHeader('Connection', 'close');
+      }
+      let drained = true;
+      const timer = setTimeout(() => {
+        drained = false;
+        server.closeAllConnections();
+      }, options.shutdownTimeout);
+      server.close(() => {
+        clearTimeout(timer);
+        instance.close();
+        resolve(drained);
+      });
+      server.closeIdleConnections();
+    });
+    return stopping;
+  };
+
+  return { server, url, shutdown };
+}
+
+/**
+ * Shuts the server down on SIGTERM or SIGINT and exits once it has drained. A second
+ * signal exits at once.
+ */
+export function exitOnSignals(running: RunningServer): void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (running.server.listening) {
+      logger.info(`${signal} received, draining requests`, { signal });
+      void running.shutdown().then((drained) => {
+        if (drained) {
+          logger.info('Server stopped');
+        } else {
+          logger.warn('Server stopped; requests still running after the shutdown timeout were cut off');
+        }
+        process.exit(0);
+      });
+    } else {
+      logger.warn(`${signal} received again, exiting immediately`, { signal });
+      process.exit(1);
+    }
+  };
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
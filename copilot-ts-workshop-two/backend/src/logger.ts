@@ -0,0 +1,73 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+type Sink = (line: string) => void;
+
+/**
+ * Writes one JSON object per line: { time, level, msg, ...fields }. Errors in fields are
+ * expanded to { name, message, stack } so they survive serialization.
+ *
+ * Children add fields to every entry and share their parent's level and sink.
+ */
+export class Logger {
+  private constructor(
+    private readonly shared: { level: LogLevel; sink: Sink },
+    private readonly fields: LogFields
+  ) {}
+
+  static create(level: LogLevel, sink: Sink = (line) => process.stdout.write(line + '\n')): Logger {
+    return new Logger({ level, sink }, {});
+  }
+
+  get level(): LogLevel {
+    return this.shared.level;
+  }
+
+  set level(level: LogLevel) {
+    this.shared.level = level;
+  }
+
+  child(fields: LogFields): Logger {
+    return new Logger(this.shared, { ...this.fields, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, msg: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.shared.level)) return;
+    const entry = { time: new Date().toISOString(), level, msg, ...this.fields, ...fields };
+    this.shared.sink(JSON.stringify(entry, (key, value) => (value instanceof Error ? serializeError(value) : value)));
+  }
+}
+
+function serializeError(err: Error): LogFields {
+  return { ...err, name: err.name, message: err.message, stack: err.stack };
+}
+
+function defaultLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL;
+  if (level && (LOG_LEVELS as readonly string[]).includes(level)) return level as LogLevel;
+  // Tests would otherwise print a line per request
+  return process.env.NODE_ENV === 'test' ? 'silent' : 'info';
+}
+
+/**
+ * The server's logger. Set LOG_LEVEL to debug, info (default), warn, error or silent.
+ */
+export const logger = Logger.create(defaultLevel());
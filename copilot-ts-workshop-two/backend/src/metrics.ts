@@ -0,0 +1,64 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { SuperheroRepository } from './superheroRepository.js';
+
+export type ComparisonKind = 'pair' | 'many' | 'teams' | 'tournament';
+
+/**
+ * The server's Prometheus metrics, exposed at GET /metrics.
+ */
+export interface Metrics {
+  registry: Registry;
+  httpRequests: Counter<'method' | 'route' | 'status'>;
+  httpDuration: Histogram<'method' | 'route' | 'status'>;
+  comparisons: Counter<'kind'>;
+}
+
+/**
+ * Creates a registry with the HTTP, comparison and dataset metrics plus Node's default
+ * process metrics. Data reloads and the roster size are read from the repository.
+ */
+export function createMetrics(repository: SuperheroRepository): Metrics {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry });
+
+  const httpRequests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by method, route pattern and status code',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [registry]
+  });
+  const httpDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency by method, route pattern and status code',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [registry]
+  });
+  const comparisons = new Counter({
+    name: 'superhero_comparisons_total',
+    help: 'Comparisons run, by kind: pair, many (round robin), teams or tournament',
+    labelNames: ['kind'] as const,
+    registers: [registry]
+  });
+
+  const reloads = new Counter({
+    name: 'superheroes_data_reloads_total',
+    help: 'Reloads of the superheroes data file, by result (success or failure)',
+    labelNames: ['result'] as const,
+    registers: [registry]
+  });
+  repository.on('reload', () => reloads.inc({ result: 'success' }));
+  repository.on('reloadError', () => reloads.inc({ result: 'failure' }));
+
+  new Gauge({
+    name: 'superheroes_dataset_size',
+    help: 'Superheroes in the loaded roster',
+    registers: [registry],
+    collect() {
+      // Left unset until the roster has been loaded
+      if (repository.loaded) this.set(repository.all().length);
+    }
+  });
+
+  return { registry, httpRequests, httpDuration, comparisons };
+}
@@ -0,0 +1,63 @@
+import path from 'path';
+import { SqliteSuperheroStore } from './sqliteSuperheroStore.js';
+import { copyRoster, openSuperheroStore, StorageDriver, TargetNotEmptyError } from './storage.js';
+import { SuperheroStore } from './superheroStore.js';
+
+/**
+Copies the roster between stores, and brings SQLite databases up to the current schema.
+
+  npm run migrate -- json:data/superheroes.json sqlite:data/superheroes.db
+  npm run migrate -- sqlite:data/superheroes.db json:backup.json --force
+  npm run migrate -- sqlite:data/superheroes.db          (schema migrations only)
+
+A store is <driver>:<file>, with driver json or sqlite. The target must be empty unless
+--force is given. SQLite schema migrations run whenever a database is opened.
+*/
+
+const USAGE = 'Usage: npm run migrate -- [<json|sqlite>:<source file>] <json|sqlite>:<target file> [--force]';
+
+function parseStore(spec: string): { driver: StorageDriver; file: string } {
+  const match = /^(json|sqlite):(.+)$/.exec(spec);
+  if (!match) throw new Error(`Expected json:<file> or sqlite:<file>, got "${spec}"\n${USAGE}`);
+  return { driver: match[1] as StorageDriver, file: path.resolve(match[2]) };
+}
+
+function open(spec: string): SuperheroStore {
+  const { driver, file } = parseStore(spec);
+  const store = openSuperheroStore(driver, file);
+  if (store instanceof SqliteSuperheroStore) {
+    for (const name of store.appliedMigrations) console.log(`${store.location}: applied migration "${name}"`);
+  }
+  return store;
+}
+
+async function main(args: string[]): Promise<void> {
+  const force = args.includes('--force');
+  const specs = args.filter((arg) => arg !== '--force');
+  if (specs.length < 1 || specs.length > 2 || specs.some((spec) => spec.startsWith('--'))) {
+    throw new Error(USAGE);
+  }
+
+  const stores = specs.map(open);
+  try {
+    if (stores.length === 2) {
+      const [from, to] = stores;
+      try {
+        const count = await copyRoster(from, to, { force });
+        console.log(`Copied ${count} superheroes from ${from.location} to ${to.location}`);
+      } catch (err) {
+        if (err instanceof TargetNotEmptyError) throw new Error(`${err.message}; pass --force to replace them`);
+        throw err;
+      }
+    } else {
+      console.log(`${stores[0].location} is up to date`);
+    }
+  } finally {
+    for (const store of stores) store.close();
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error((err as Error).message);
+  process.exit(1);
+});
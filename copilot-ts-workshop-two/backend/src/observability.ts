@@ -0,0 +1,75 @@
+import { Express, RequestHandler } from 'express';
+import { Principal } from './auth.js';
+import { Logger } from './logger.js';
+import { Metrics } from './metrics.js';
+import { listRoutes } from './openapi.js';
+
+/** Route label for requests no route matched, so unknown paths can't grow the label set. */
+export const UNMATCHED_ROUTE = '<unmatched>';
+
+/**
+ * Maps a method and path to the pattern of the route Express serves it with, e.g.
+ * GET /api/v1/superheroes/7 to /api/v1/superheroes/:id.
+ */
+export type RouteLabeler = (method: string, path: string) => string;
+
+/**
+ * Builds a {@link RouteLabeler} from the app's registered routes, on first use so that
+ * every route has been registered by then. Like Express, it takes the first matching
+ * registration, ignores case and a trailing slash, and serves HEAD with GET routes.
+ */
+export function routeLabeler(app: Express): RouteLabeler {
+  let matchers: Array<{ method: string; pattern: RegExp; path: string }> | undefined;
+  return (method, path) => {
+    matchers ??= listRoutes(app).map((route) => ({
+      method: route.method,
+      pattern: toPattern(route.path),
+      path: route.path
+    }));
+    const wanted = method.toLowerCase() === 'head' ? ['head', 'get'] : [method.toLowerCase()];
+    const match = matchers.find((matcher) => wanted.includes(matcher.method) && matcher.pattern.test(path));
+    return match?.path ?? UNMATCHED_ROUTE;
+  };
+}
+
+function toPattern(path: string): RegExp {
+  const source = path
+    .split(/(:\w+)/)
+    .map((part) => (part.startsWith(':') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}/?$`, 'i');
+}
+
+/**
+ * Logs one line per request once its response has been sent, and records it in the
+ * HTTP request metrics. The entry carries the request id, route pattern, status,
+ * latency and caller; 4xx responses are logged as warnings and 5xx as errors.
+ * Mount right after the requestId middleware, so the latency covers the whole request.
+ */
+export function observeRequests(logger: Logger, metrics: Metrics, labelRoute: RouteLabeler): RequestHandler {
+  return (req, res, next) => {
+    const started = process.hrtime.bigint();
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      const path = req.originalUrl.split('?')[0];
+      const route = labelRoute(req.method, path);
+      const labels = { method: req.method, route, status: String(res.statusCode) };
+      metrics.httpRequests.inc(labels);
+      metrics.httpDuration.observe(labels, seconds);
+
+      const principal: Principal | null | undefined = res.locals.principal;
+      const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+      logger[level]('request', {
+        request_id: res.locals.requestId,
+        method: req.method,
+        route,
+        path,
+        status: res.statusCode,
+        duration_ms: Math.round(seconds * 1e6) / 1e3,
+        user: principal?.username ?? null,
+        ip: req.ip
+      });
+    });
+    next();
+  };
+}
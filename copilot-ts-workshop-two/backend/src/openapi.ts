@@ -0,0 +1,244 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { isRoleMiddleware } from './auth.js';
+import { isDeprecationMiddleware } from './deprecation.js';
+import { hasRole, Role } from './users.js';
+import { isValidationMiddleware, RequestSchemas, ValidationOptions } from './validation.js';
+
+/**
+ * A route registered on the app, with the schemas of its validation middleware (if any).
+ */
+export interface RouteInfo {
+  method: string;
+  /** Express path, e.g. /api/superheroes/:id */
+  path: string;
+  schemas: RequestSchemas;
+  options: ValidationOptions;
+  /** Whether a deprecation middleware runs before the route. */
+  deprecated: boolean;
+  /** The most privileged role required before or by the route, if any. */
+  role?: Role;
+}
+
+interface Layer {
+  handle: unknown;
+  regexp?: RegExp & { fast_slash?: boolean };
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: unknown }>;
+  };
+}
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Lists the app's routes in registration order, straight from the Express router stack.
+ * Mounted routers are walked with their mount path prepended.
+ */
+export function listRoutes(app: Express): RouteInfo[] {
+  const stack: Layer[] = (app as unknown as { _router?: { stack: Layer[] } })._router?.stack ?? [];
+  return listStackRoutes(stack, '', { deprecated: false });
+}
+
+/** What the middleware before a route applies to it. */
+interface Inherited {
+  deprecated: boolean;
+  role?: Role;
+}
+
+function listStackRoutes(stack: Layer[], prefix: string, inherited: Inherited): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+  let current = inherited;
+  for (const layer of stack) {
+    if (isDeprecationMiddleware(layer.handle)) {
+      current = { ...current, deprecated: true };
+    } else if (isRoleMiddleware(layer.handle)) {
+      current = { ...current, role: strictest(current.role, layer.handle.role) };
+    } else if (layer.route) {
+      const { path, methods, stack: handlers } = layer.route;
+      const handles = handlers.map((handler) => handler.handle);
+      const validation = handles.find(isValidationMiddleware);
+      const role = handles.filter(isRoleMiddleware).reduce((strict, { role }) => strictest(strict, role), current.role);
+      for (const method of Object.keys(methods)) {
+        routes.push({
+          method,
+          path: prefix + path,
+          schemas: validation?.schemas ?? {},
+          options: validation?.options ?? {},
+          deprecated: current.deprecated,
+          ...(role && { role })
+        });
+      }
+    } else if (isRouter(layer.handle)) {
+      const mountPath = layer.regexp ? routerMountPath(layer.regexp) : undefined;
+      // Routers mounted on patterns (or with params) can't be described by a plain path
+      if (mountPath !== undefined) routes.push(...listStackRoutes(layer.handle.stack, prefix + mountPath, current));
+    }
+  }
+  return routes;
+}
+
+function strictest(a: Role | undefined, b: Role): Role {
+  return a && hasRole(a, b) ? a : b;
+}
+
+function isRouter(handle: unknown): handle is { stack: Layer[] } {
+  return typeof handle === 'function' && Array.isArray((handle as { stack?: unknown }).stack);
+}
+
+/**
+ * Recovers the path a router was mounted on from the regexp Express compiled for it,
+ * e.g. /^\/api\/v1\/?(?=\/|$)/i -> /api/v1
+ */
+function routerMountPath(regexp: RegExp & { fast_slash?: boolean }): string | undefined {
+  if (regexp.fast_slash) return '';
+  const match = /^\^(.*)\\\/\?\(\?=\\\/\|\$\)$/.exec(regexp.source);
+  if (!match || /[()[\]*+?]/.test(match[1].replace(/\\./g, ''))) return undefined;
+  return match[1].replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Converts an Express path to an OpenAPI path template: /heroes/:id -> /heroes/{id}
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the registered routes. Parameters and request
+ * bodies come from the routes' validation schemas; every error is a problem+json body.
+ */
+export function buildOpenApiDocument(app: Express, info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of listRoutes(app)) {
+    const path = toOpenApiPath(route.path);
+    paths[path] ??= {};
+    // Express serves the first matching route, so later registrations are shadowed
+    paths[path][route.method] ??= operation(route);
+  }
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas: { Problem: PROBLEM_SCHEMA },
+      securitySchemes: SECURITY_SCHEMES
+    }
+  };
+}
+
+const PROBLEM_SCHEMA = {
+  type: 'object',
+  description: 'RFC 7807 problem details',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    request_id: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { path: { type: 'string' }, message: { type: 'string' } }
+      }
+    }
+  },
+  required: ['type', 'title', 'status', 'detail', 'instance', 'request_id']
+};
+
+const SECURITY_SCHEMES = {
+  bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token from POST /api/v1/auth/login, or an API key' },
+  apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+};
+
+function problemResponse(description: string) {
+  return {
+    description,
+    content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } }
+  };
+}
+
+function operation(route: RouteInfo) {
+  const { params, query, body } = route.schemas;
+  const parameters = [
+    ...pathParameters(route.path, params),
+    ...(query ? queryParameters(query) : [])
+  ];
+  const responses: Record<string, unknown> = { '2XX': { description: 'Success' } };
+  if (params || query || body) responses['400'] = problemResponse('Invalid parameters or body');
+  if (body && route.options.bodyStatus && route.options.bodyStatus !== 400) {
+    responses[String(route.options.bodyStatus)] = problemResponse('Invalid body');
+  }
+  if (route.role) {
+    responses['401'] = problemResponse('Missing or invalid credentials');
+    responses['403'] = problemResponse(`The caller lacks the ${route.role} role`);
+  }
+  responses.default = problemResponse('Error');
+
+  return {
+    operationId: operationId(route),
+    ...(route.role && {
+      description: `Requires the ${route.role} role.`,
+      // Viewers may be anonymous, depending on the server's configuration
+      security: [...(route.role === 'viewer' ? [{}] : []), { bearerAuth: [] }, { apiKey: [] }]
+    }),
+    ...(route.deprecated && { deprecated: true }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && {
+      requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(body) } } }
+    }),
+    responses
+  };
+}
+
+function pathParameters(path: string, schema?: z.ZodTypeAny) {
+  const properties = (schema ? toJsonSchema(schema).properties : {}) as Record<string, JsonSchema> | undefined;
+  return [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: properties?.[name] ?? { type: 'string' }
+  }));
+}
+
+function queryParameters(schema: z.ZodTypeAny) {
+  const json = toJsonSchema(schema);
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (json.required ?? []) as string[];
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    // Nested values (weights[speed]=2, strength[gte]=80) use qs bracket syntax
+    const nested = propertySchema.type === 'object' || Array.isArray(propertySchema.anyOf);
+    return {
+      name,
+      in: 'query',
+      required: required.includes(name),
+      ...(description !== undefined && { description }),
+      ...(nested && { style: 'deepObject', explode: true }),
+      schema: propertySchema
+    };
+  });
+}
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema, ...json } = zodToJsonSchema(schema, {
+    target: 'jsonSchema2019-09',
+    $refStrategy: 'none',
+    effectStrategy: 'input'
+  }) as JsonSchema;
+  return json;
+}
+
+function operationId(route: RouteInfo): string {
+  const words = route.path
+    .split('/')
+    .filter((part) => part && part !== 'api')
+    .map((part) => (part.startsWith(':') ? `by-${part.slice(1)}` : part));
+  return [route.method, ...words]
+    .join('-')
+    .replace(/[^a-zA-Z0-9]+(.)/g, (_, char: string) => char.toUpperCase());
+}
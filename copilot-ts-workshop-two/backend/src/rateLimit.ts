@@ -0,0 +1,210 @@
+import { Request, RequestHandler, Response } from 'express';
+import { Principal } from './auth.js';
+import { HttpError } from './errors.js';
+
+/**
+ * A token bucket: it holds up to `limit` requests and refills completely over `window`
+ * seconds, so clients can burst up to the limit and then continue at limit/window
+ * requests per second.
+ */
+export interface RateLimitPolicy {
+  limit: number;
+  /** Seconds to refill an empty bucket. */
+  window: number;
+}
+
+/**
+ * Request budgets. Every API request is charged to `default`; some routes also draw
+ * from a tighter budget of their own.
+ */
+export interface RateLimitPolicies {
+  default: RateLimitPolicy;
+  /** Comparisons, tournaments and team matchups, which score heroes against each other. */
+  compare: RateLimitPolicy;
+  /** Creating, changing and deleting resources. */
+  write: RateLimitPolicy;
+  /** Login attempts, to slow down password guessing. */
+  login: RateLimitPolicy;
+}
+
+export type RateLimitBudget = keyof RateLimitPolicies;
+
+export const DEFAULT_RATE_LIMITS: RateLimitPolicies = {
+  default: { limit: 600, window: 60 },
+  compare: { limit: 120, window: 60 },
+  write: { limit: 60, window: 60 },
+  login: { limit: 20, window: 60 }
+};
+
+/**
+ * A bucket's state as stored between requests.
+ */
+export interface BucketState {
+  tokens: number;
+  /** When `tokens` was computed, in milliseconds since the epoch. */
+  updatedAt: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole requests left in the bucket. */
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  reset: number;
+  /** Seconds until the next request would be allowed (0 if this one was). */
+  retryAfter: number;
+}
+
+/**
+ * Refills a bucket for the time passed since it was last used and takes one token from
+ * it if there is one. Pure, so every store applies the same arithmetic.
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { state: BucketState; result: TakeResult } {
+  const rate = policy.limit / policy.window / 1000; // tokens per millisecond
+  const available = state
+    ? Math.min(policy.limit, state.tokens + Math.max(0, now - state.updatedAt) * rate)
+    : policy.limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((policy.limit - tokens) / rate / 1000),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / rate / 1000)
+    }
+  };
+}
+
+/**
+ * Where buckets are kept. Implementations must apply {@link takeToken} to the bucket's
+ * stored state and store the new state, keeping it at least until the bucket would be
+ * full again (`policy.window` seconds); a missing bucket counts as full.
+ */
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<TakeResult>;
+}
+
+const SWEEP_EVERY = 1000;
+
+/**
+ * Keeps buckets in process memory. Limits are per process, so several instances behind
+ * a load balancer each allow the full budget.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, BucketState & { expiresAt: number }>();
+  private takes = 0;
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<TakeResult> {
+    if (++this.takes % SWEEP_EVERY === 0) this.sweep(now);
+    const { state, result } = takeToken(this.buckets.get(key), policy, now);
+    this.buckets.set(key, { ...state, expiresAt: now + policy.window * 1000 });
+    return result;
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Forgets buckets that have refilled completely; they are the same as missing ones.
+   */
+  private sweep(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * The subset of a Redis-style client that {@link KeyValueRateLimitStore} needs; node-redis
+ * clients satisfy it as they are, and so can any local stand-in.
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  /** Stores a value that expires after PX milliseconds. */
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+}
+
+/**
+ * Keeps buckets in a shared key-value store, so every instance draws from the same
+ * budget. Reading and writing a bucket are separate calls, so concurrent requests may
+ * occasionally both spend the same token.
+ */
+export class KeyValueRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: KeyValueClient,
+    private readonly prefix = 'ratelimit:'
+  ) {}
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<TakeResult> {
+    const stored = await this.client.get(this.prefix + key);
+    const { state, result } = takeToken(stored ? (JSON.parse(stored) as BucketState) : undefined, policy, now);
+    await this.client.set(this.prefix + key, JSON.stringify(state), { PX: policy.window * 1000 });
+    return result;
+  }
+}
+
+/**
+ * Who a request is charged to: its API key or user when authenticated, else its IP.
+ */
+export function clientKey(req: Request, res: Response): string {
+  const principal: Principal | null | undefined = res.locals.principal;
+  if (principal?.apiKeyId !== undefined) return `key:${principal.apiKeyId}`;
+  if (principal) return `user:${principal.id}`;
+  return `ip:${req.ip}`;
+}
+
+/**
+ * Applies the budgets in {@link RateLimitPolicies}. Mount after authentication, so
+ * authenticated clients get their own buckets rather than sharing their IP's.
+ */
+export class RateLimiter {
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly policies: RateLimitPolicies
+  ) {}
+
+  /**
+   * Charges each request to `budget`, answering 429 with Retry-After once it is spent.
+   * Sets RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset (IETF draft) for the
+   * budget closest to running out among those the request passed through.
+   * Generic over params and query, like the cache middleware, so it fits any route.
+   */
+  middleware<P = unknown, Q = unknown>(budget: RateLimitBudget): RequestHandler<P, unknown, unknown, Q> {
+    const policy = this.policies[budget];
+    return async (req, res, next) => {
+      try {
+        const result = await this.store.take(`${budget}:${clientKey(req as Request, res)}`, policy, Date.now());
+        const tightest: TakeResult | undefined = res.locals.rateLimit;
+        if (!tightest || result.remaining < tightest.remaining || !result.allowed) {
+          res.locals.rateLimit = result;
+          res.set({
+            'RateLimit-Limit': String(result.limit),
+            'RateLimit-Remaining': String(result.remaining),
+            'RateLimit-Reset': String(result.reset)
+          });
+        }
+        if (result.allowed) {
+          next();
+        } else {
+          res.set('Retry-After', String(result.retryAfter));
+          next(
+            new HttpError(429, `Rate limit exceeded: ${policy.limit} ${budget} requests per ${policy.window}s`, {
+              retry_after: result.retryAfter
+            })
+          );
+        }
+      } catch (err) {
+        next(err);
+      }
+    };
+  }
+}
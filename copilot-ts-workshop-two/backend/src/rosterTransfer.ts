@@ -0,0 +1,349 @@
+import {
+  POWERSTAT_NAMES,
+  Superhero,
+  SuperheroIdSchema,
+  SuperheroInputSchema,
+  validate,
+  ValidationIssue
+} from '@superheroes/shared';
+import { z } from 'zod';
+
+/*
+Bulk export and import of the roster, so it can be edited elsewhere (e.g. in a
+spreadsheet) and brought back. Every format carries the same records:
+- json: an array of superheroes, as in superheroes.json
+- ndjson: one superhero object per line
+- csv: a header row naming the columns in CSV_COLUMNS (any order), then one row per
+  superhero with the powerstats flattened into columns
+*/
+
+export const ROSTER_FORMATS = ['json', 'ndjson', 'csv'] as const;
+export type RosterFormat = typeof ROSTER_FORMATS[number];
+
+export const MEDIA_TYPES: Record<RosterFormat, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+export const CSV_COLUMNS = ['id', 'name', 'image', ...POWERSTAT_NAMES] as const;
+
+/** Imports send the whole roster, which outgrows the default body size limit. */
+export const IMPORT_BODY_LIMIT = '5mb';
+/** Matches the import route under every API mount point. */
+export const IMPORT_PATH = /\/superheroes\/import\/?$/;
+
+export const IMPORT_MODES = ['upsert', 'replace'] as const;
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export const ExportQuerySchema = z
+  .object({
+    format: z.enum(ROSTER_FORMATS).default('json').describe('json (default), ndjson or csv')
+  })
+  .strict();
+
+export const ImportQuerySchema = z
+  .object({
+    mode: z
+      .enum(IMPORT_MODES)
+      .default('upsert')
+      .describe('upsert (default) adds and updates heroes; replace also deletes heroes missing from the import'),
+    dry_run: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true')
+      .describe('true to validate and report the changes without saving them')
+  })
+  .strict();
+
+/**
+ * A superhero as imported: an existing id updates that hero, a missing id matches by
+ * name (case-insensitively) or creates a new hero.
+ */
+const ImportRecordSchema = SuperheroInputSchema.extend({ id: SuperheroIdSchema.optional() });
+
+/**
+ * One record of an import, in the order it was sent. `row` counts records from 1;
+ * for the line-based formats `line` is where the record starts in the body.
+ */
+export interface ImportRow {
+  row: number;
+  line?: number;
+  value: unknown;
+  /** Set instead of a value when the record itself could not be parsed. */
+  error?: string;
+}
+
+/** A validation problem in one row; `path` is relative to the record, e.g. "powerstats.speed". */
+export interface ImportIssue extends ValidationIssue {
+  row: number;
+  line?: number;
+}
+
+/**
+ * Raised when an import body cannot be split into records at all, e.g. a JSON body that
+ * is not an array or a CSV header with unknown columns.
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+/**
+ * The roster an import would produce, with what changed, or the problems that stop it.
+ */
+export interface ImportPlan {
+  roster: Superhero[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  errors: ImportIssue[];
+}
+
+/**
+ * Serializes the roster in the given format, a chunk per superhero, so large rosters
+ * can be streamed.
+ */
+export function* exportRoster(heroes: Iterable<Superhero>, format: RosterFormat): Generator<string> {
+  switch (format) {
+    case 'json': {
+      let first = true;
+      yield '[';
+      for (const hero of heroes) {
+        yield `${first ? '' : ','}\n  ${JSON.stringify(hero)}`;
+        first = false;
+      }
+      yield first ? ']\n' : '\n]\n';
+      break;
+    }
+    case 'ndjson':
+      for (const hero of heroes) yield `${JSON.stringify(hero)}\n`;
+      break;
+    case 'csv':
+      yield `${CSV_COLUMNS.join(',')}\r\n`;
+      for (const hero of heroes) {
+        const cells = [hero.id, hero.name, hero.image, ...POWERSTAT_NAMES.map((stat) => hero.powerstats[stat])];
+        yield `${cells.map((cell) => csvCell(String(cell))).join(',')}\r\n`;
+      }
+      break;
+  }
+}
+
+/**
+ * Splits an import body into records. JSON bodies arrive parsed; NDJSON and CSV as text.
+ *
+ * @throws {ImportFormatError} If the body as a whole is malformed.
+ */
+export function readImportRows(body: unknown, format: RosterFormat): ImportRow[] {
+  switch (format) {
+    case 'json':
+      if (!Array.isArray(body)) throw new ImportFormatError('Expected a JSON array of superheroes');
+      return body.map((value, index) => ({ row: index + 1, value }));
+    case 'ndjson':
+      return readNdjson(textBody(body));
+    case 'csv':
+      return readCsv(textBody(body));
+  }
+}
+
+/**
+ * Works out the roster an import produces from the current one.
+ *
+ * - upsert: imported heroes are added or replace the hero with the same id (or, without
+ *   an id, the same name); other heroes are kept
+ * - replace: the roster becomes exactly the imported heroes; those matched by name keep
+ *   their id, and heroes not in the import are deleted
+ *
+ * New heroes get ids from `nextId` (the store's id counter) on, after the highest one in
+ * use. Nothing is applied when any row is invalid, repeats an id or name, or takes the
+ * name of a hero the import leaves alone.
+ */
+export function planImport(current: Superhero[], rows: ImportRow[], mode: ImportMode, nextId = 1): ImportPlan {
+  const errors: ImportIssue[] = [];
+  const report = (row: ImportRow, issue: ValidationIssue) =>
+    errors.push({ row: row.row, ...(row.line !== undefined && { line: row.line }), ...issue });
+
+  const currentById = new Map(current.map((hero) => [hero.id, hero]));
+  const currentByName = new Map(current.map((hero) => [hero.name.toLowerCase(), hero]));
+  const rowById = new Map<number, ImportRow>();
+  const rowByName = new Map<string, ImportRow>();
+  const imported: Array<{ row: ImportRow; id?: number; record: z.output<typeof ImportRecordSchema> }> = [];
+
+  for (const row of rows) {
+    if (row.error !== undefined) {
+      report(row, { path: '', message: row.error });
+      continue;
+    }
+    const result = validate(ImportRecordSchema, row.value);
+    if (!result.ok) {
+      result.issues.forEach((issue) => report(row, issue));
+      continue;
+    }
+    const record = result.value;
+    const id = record.id ?? currentByName.get(record.name.toLowerCase())?.id;
+    const sameId = id !== undefined ? rowById.get(id) : undefined;
+    const sameName = rowByName.get(record.name.toLowerCase());
+    if (sameId) {
+      report(row, { path: 'id', message: `duplicate id ${id} (already used in row ${sameId.row})` });
+    } else if (sameName) {
+      report(row, { path: 'name', message: `duplicate name "${record.name}" (already used in row ${sameName.row})` });
+    } else {
+      if (id !== undefined) rowById.set(id, row);
+      rowByName.set(record.name.toLowerCase(), row);
+      imported.push({ row, id, record });
+    }
+  }
+
+  nextId = Math.max(nextId, Math.max(0, ...currentById.keys(), ...rowById.keys()) + 1);
+  const roster = new Map(mode === 'upsert' ? currentById : []);
+  const plan: ImportPlan = { roster: [], created: 0, updated: 0, unchanged: 0, deleted: 0, errors };
+  for (const { id = nextId++, record } of imported) {
+    const hero: Superhero = { id, name: record.name, image: record.image, powerstats: record.powerstats };
+    const previous = currentById.get(id);
+    if (!previous) plan.created++;
+    else if (JSON.stringify(previous) === JSON.stringify(hero)) plan.unchanged++;
+    else plan.updated++;
+    roster.set(id, hero);
+  }
+
+  // Heroes the import leaves alone keep their names
+  if (mode === 'upsert') {
+    for (const { row, id, record } of imported) {
+      const holder = currentByName.get(record.name.toLowerCase());
+      if (holder && holder.id !== id && !rowById.has(holder.id)) {
+        report(row, { path: 'name', message: `A superhero named "${record.name}" already exists` });
+      }
+    }
+  }
+
+  plan.deleted = mode === 'replace' ? current.filter((hero) => !roster.has(hero.id)).length : 0;
+  plan.roster = [...roster.values()].sort((a, b) => a.id - b.id);
+  errors.sort((a, b) => a.row - b.row);
+  return plan;
+}
+
+function textBody(body: unknown): string {
+  // Spreadsheet applications often start UTF-8 CSV files with a byte order mark
+  return typeof body === 'string' ? body.replace(/^\uFEFF/, '') : '';
+}
+
+function readNdjson(text: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (content.trim() === '') return;
+    const row: ImportRow = { row: rows.length + 1, line: index + 1, value: undefined };
+    try {
+      row.value = JSON.parse(content);
+    } catch (err) {
+      row.error = `Invalid JSON: ${(err as Error).message}`;
+    }
+    rows.push(row);
+  });
+  return rows;
+}
+
+function readCsv(text: string): ImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase());
+  const unknown = columns.filter((column) => !(CSV_COLUMNS as readonly string[]).includes(column));
+  const missing = CSV_COLUMNS.filter((column) => column !== 'id' && !columns.includes(column));
+  if (unknown.length > 0 || missing.length > 0) {
+    const problems = [
+      ...(unknown.length > 0 ? [`unknown ${unknown.map((column) => `"${column}"`).join(', ')}`] : []),
+      ...(missing.length > 0 ? [`missing ${missing.join(', ')}`] : [])
+    ];
+    throw new ImportFormatError(`Invalid CSV header (${problems.join('; ')}); expected ${CSV_COLUMNS.join(',')}`);
+  }
+
+  return records.map(({ line, cells }, index) => {
+    const row: ImportRow = { row: index + 1, line, value: undefined };
+    if (cells.length !== columns.length) {
+      row.error = `Expected ${columns.length} fields, got ${cells.length}`;
+      return row;
+    }
+    const fields = new Map(columns.map((column, i) => [column, cells[i]]));
+    const id = fields.get('id')?.trim();
+    row.value = {
+      ...(id && { id: csvNumber(id) }),
+      name: csvText(fields.get('name')),
+      image: csvText(fields.get('image')),
+      powerstats: Object.fromEntries(POWERSTAT_NAMES.map((stat) => [stat, csvNumber(fields.get(stat) ?? '')]))
+    };
+    return row;
+  });
+}
+
+// Cells that aren't numbers stay strings, so validation reports "must be a number"
+function csvNumber(cell: string): number | string {
+  const trimmed = cell.trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : cell;
+}
+
+// Spreadsheet applications run cells starting with one of these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A leading ' makes spreadsheets show the cell as text instead of running it as a formula
+function csvCell(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Drops the ' that csvCell put before formula-like text, so exports import unchanged
+function csvText(cell: string | undefined): string | undefined {
+  return cell?.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * RFC 4180 CSV: fields separated by commas, optionally quoted (with "" for a quote),
+ * records separated by CRLF or LF. Blank lines are skipped.
+ */
+function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && cell === '') {
+      const start = line;
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new ImportFormatError(`Unterminated quoted field starting on line ${start}`);
+        if (text[i] === '"') {
+          if (text[i + 1] !== '"') break;
+          i++;
+        } else if (text[i] === '\n') {
+          line++;
+        }
+        cell += text[i++];
+      }
+      i++;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      recordLine = ++line;
+    } else {
+      cell += char;
+      i++;
+    }
+  }
+  if (cells.length > 0 || cell !== '') endRecord();
+  return records;
+}
@@ -0,0 +1,310 @@
+import express, { Router } from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth.js';
+import { HttpError } from '../errors.js';
+import { ConflictError } from '../superheroStore.js';
+import {
+  ApiKeyInputSchema,
+  generateApiKey,
+  hashPassword,
+  LoginSchema,
+  publicApiKey,
+  publicUser,
+  User,
+  UserInputSchema,
+  UserPatchSchema
+} from '../users.js';
+import { idParam, IdParamsSchema, validateRequest } from '../validation.js';
+import { ApiContext } from './context.js';
+
+const ApiKeyParamsSchema = z.object({ id: idParam(), keyId: idParam() });
+
+/**
+ * Login and user administration, part of every API version. Paths below are relative
+ * to the version's mount point.
+ */
+export function createAuthRouter({ auth, rateLimiter }: ApiContext): Router {
+  const router = express.Router();
+
+  /**
+   * Rejects a change that would leave no admin to manage users.
+   */
+  function assertAdminRemains(users: User[], changedId: number, newRole: string | null): void {
+    const admins = users.filter((user) => user.role === 'admin');
+    if (admins.length === 1 && admins[0].id === changedId && newRole !== 'admin') {
+      throw new ConflictError('The last admin cannot be removed or demoted');
+    }
+  }
+
+  /**
+   * POST /auth/login
+   * Exchanges a username and password for a bearer token.
+   *
+   * Body: { username, password }
+   * Response: 200 OK - { token, token_type: "Bearer", expires_in (seconds), user }
+   *           400 Bad Request - If the body is invalid
+   *           401 Unauthorized - If the username or password is wrong
+   *           500 Internal Server Error - If the users cannot be read
+   */
+  router.post(
+    '/auth/login',
+    rateLimiter.middleware('login'),
+    validateRequest({ body: LoginSchema }),
+    async (req, res, next) => {
+      try {
+        const result = await auth.login(req.body.username, req.body.password);
+        if (result) {
+          res.set('Cache-Control', 'no-store').json(result);
+        } else {
+          next(new HttpError(401, 'Invalid username or password'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /auth/me
+   * Returns the caller's identity.
+   *
+   * Response: 200 OK - { id, username, role, via: "token" | "api-key" }
+   *           401 Unauthorized - If the request carries no (valid) credentials
+   */
+  router.get('/auth/me', validateRequest({}), (req, res, next) => {
+    if (res.locals.principal) {
+      res.json(res.locals.principal);
+    } else {
+      res.set('WWW-Authenticate', 'Bearer realm="superheroes"');
+      next(new HttpError(401, 'Authentication required'));
+    }
+  });
+
+  /**
+   * GET /users
+   * Returns all users, without their password hashes. Admins only.
+   *
+   * Response: 200 OK - Array of { id, username, role, created_at }
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           500 Internal Server Error - If the users cannot be read
+   */
+  router.get('/users', requireRole('admin'), validateRequest({}), async (req, res, next) => {
+    try {
+      res.json((await auth.users.list()).map(publicUser));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /users
+   * Creates a user. Admins only.
+   *
+   * Body: { username, password (at least 8 characters), role: "viewer" | "editor" | "admin" }
+   * Response: 201 Created - The user, with a Location header
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           409 Conflict - If the username is taken
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If the users cannot be read or written
+   */
+  router.post(
+    '/users',
+    rateLimiter.middleware('write'),
+    requireRole('admin'),
+    validateRequest({ body: UserInputSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        const { username, password, role } = req.body;
+        const password_hash = await hashPassword(password);
+        const user = await auth.users.create((id, existing) => {
+          if (existing.some((other) => other.username.toLowerCase() === username.toLowerCase())) {
+            throw new ConflictError(`A user named "${username}" already exists`);
+          }
+          return { id, username, role, password_hash, created_at: new Date().toISOString() };
+        });
+        res.status(201).location(`${req.baseUrl}/users/${user.id}`).json(publicUser(user));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * PATCH /users/:id
+   * Changes a user's password and/or role. Admins only. Role changes apply to tokens
+   * issued from then on.
+   *
+   * Params: id (positive integer)
+   * Body: { password?, role? }
+   * Response: 200 OK - The updated user
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           404 Not Found - If the user does not exist
+   *           409 Conflict - If this would demote the last admin
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If the users cannot be read or written
+   */
+  router.patch(
+    '/users/:id',
+    rateLimiter.middleware('write'),
+    requireRole('admin'),
+    validateRequest({ params: IdParamsSchema, body: UserPatchSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        const { password, role } = req.body;
+        const password_hash = password === undefined ? undefined : await hashPassword(password);
+        // Checked inside the update so concurrent demotions cannot remove every admin
+        const user = await auth.users.update(req.params.id, (current, users) => {
+          if (role) assertAdminRemains(users, current.id, role);
+          return { ...current, ...(role && { role }), ...(password_hash && { password_hash }) };
+        });
+        if (user) {
+          res.json(publicUser(user));
+        } else {
+          next(new HttpError(404, 'User not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * DELETE /users/:id
+   * Deletes a user and revokes their API keys. Admins only.
+   *
+   * Params: id (positive integer)
+   * Response: 204 No Content - The user was deleted
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           404 Not Found - If the user does not exist
+   *           409 Conflict - If this is the last admin
+   *           500 Internal Server Error - If the users cannot be read or written
+   */
+  router.delete(
+    '/users/:id',
+    rateLimiter.middleware('write'),
+    requireRole('admin'),
+    validateRequest({ params: IdParamsSchema }),
+    async (req, res, next) => {
+      try {
+        const removed = await auth.users.remove(req.params.id, (current, users) =>
+          assertAdminRemains(users, current.id, null)
+        );
+        if (!removed) {
+          next(new HttpError(404, 'User not found'));
+          return;
+        }
+        for (const key of await auth.apiKeys.list()) {
+          if (key.user_id === req.params.id) await auth.apiKeys.remove(key.id);
+        }
+        res.status(204).end();
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /users/:id/api-keys
+   * Lists a user's API keys (never the keys themselves). Admins only.
+   *
+   * Params: id (positive integer)
+   * Response: 200 OK - Array of { id, user_id, name, prefix, created_at }
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           404 Not Found - If the user does not exist
+   *           500 Internal Server Error - If the keys cannot be read
+   */
+  router.get(
+    '/users/:id/api-keys',
+    requireRole('admin'),
+    validateRequest({ params: IdParamsSchema }),
+    async (req, res, next) => {
+      try {
+        if (!(await auth.users.get(req.params.id))) {
+          next(new HttpError(404, 'User not found'));
+          return;
+        }
+        const keys = await auth.apiKeys.list();
+        res.json(keys.filter((key) => key.user_id === req.params.id).map(publicApiKey));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /users/:id/api-keys
+   * Creates an API key acting as the user, with the user's role. Admins only.
+   * Send it as `X-API-Key: <key>` or `Authorization: Bearer <key>`.
+   *
+   * Params: id (positive integer)
+   * Body: { name } - what the key is for
+   * Response: 201 Created - { id, user_id, name, prefix, created_at, key }; the key is
+   *                         only ever shown in this response
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           404 Not Found - If the user does not exist
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If the keys cannot be read or written
+   */
+  router.post(
+    '/users/:id/api-keys',
+    rateLimiter.middleware('write'),
+    requireRole('admin'),
+    validateRequest({ params: IdParamsSchema, body: ApiKeyInputSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        if (!(await auth.users.get(req.params.id))) {
+          next(new HttpError(404, 'User not found'));
+          return;
+        }
+        const { key, prefix, hash } = generateApiKey();
+        const apiKey = await auth.apiKeys.create((id) => ({
+          id,
+          user_id: req.params.id,
+          name: req.body.name,
+          prefix,
+          key_hash: hash,
+          created_at: new Date().toISOString()
+        }));
+        res
+          .status(201)
+          .location(`${req.baseUrl}/users/${req.params.id}/api-keys/${apiKey.id}`)
+          .set('Cache-Control', 'no-store')
+          .json({ ...publicApiKey(apiKey), key });
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * DELETE /users/:id/api-keys/:keyId
+   * Revokes an API key. Admins only.
+   *
+   * Params: id, keyId (positive integers)
+   * Response: 204 No Content - The key was revoked
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an admin
+   *           404 Not Found - If the user has no such key
+   *           500 Internal Server Error - If the keys cannot be read or written
+   */
+  router.delete(
+    '/users/:id/api-keys/:keyId',
+    rateLimiter.middleware('write'),
+    requireRole('admin'),
+    validateRequest({ params: ApiKeyParamsSchema }),
+    async (req, res, next) => {
+      try {
+        const key = await auth.apiKeys.get(req.params.keyId);
+        if (!key || key.user_id !== req.params.id) {
+          next(new HttpError(404, 'API key not found'));
+          return;
+        }
+        await auth.apiKeys.remove(key.id);
+        res.status(204).end();
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  return router;
+}
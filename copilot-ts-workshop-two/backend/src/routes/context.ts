@@ -0,0 +1,21 @@
+import { AuthService } from '../auth.js';
+import { CachePolicies } from '../httpCache.js';
+import { JsonRecordStore } from '../jsonFile.js';
+import { Metrics } from '../metrics.js';
+import { RateLimiter } from '../rateLimit.js';
+import { SuperheroRepository } from '../superheroRepository.js';
+import { Team } from '../team.js';
+import { Tournament } from '../tournament.js';
+
+/**
+ * What the API routers work on.
+ */
+export interface ApiContext {
+  repository: SuperheroRepository;
+  tournaments: JsonRecordStore<Tournament>;
+  teams: JsonRecordStore<Team>;
+  cache: CachePolicies;
+  auth: AuthService;
+  rateLimiter: RateLimiter;
+  metrics: Metrics;
+}
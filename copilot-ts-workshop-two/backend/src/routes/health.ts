@@ -0,0 +1,60 @@
+import express, { Router } from 'express';
+import { HttpError } from '../errors.js';
+import { Lifecycle } from '../lifecycle.js';
+import { logger } from '../logger.js';
+import { validateRequest } from '../validation.js';
+import { ApiContext } from './context.js';
+
+/**
+ * Probes for orchestrators and load balancers. They need no credentials, aren't rate
+ * limited and are never cached.
+ */
+export function createHealthRouter({
+  repository,
+  lifecycle
+}: Pick<ApiContext, 'repository'> & { lifecycle: Lifecycle }): Router {
+  const router = express.Router();
+
+  /**
+   * GET /healthz
+   * Liveness: the process is up and serving requests.
+   *
+   * Response: 200 OK - { status: 'ok', uptime } (seconds since the process started)
+   */
+  router.get('/healthz', validateRequest({}), (req, res) => {
+    res.set('Cache-Control', 'no-store').json({ status: 'ok', uptime: Math.round(process.uptime()) });
+  });
+
+  /**
+   * GET /readyz
+   * Readiness: the roster is loaded and valid, and the server is not shutting down.
+   * Loads the roster if no request has needed it yet.
+   *
+   * Response: 200 OK - { status: 'ready', dataset: { heroes, version, digest, modified_at } }
+   *           503 Service Unavailable - If the data cannot be loaded or the server is draining
+   */
+  router.get('/readyz', validateRequest({}), async (req, res, next) => {
+    if (lifecycle.draining) {
+      next(new HttpError(503, 'Server is shutting down'));
+      return;
+    }
+    try {
+      await repository.ready();
+    } catch (err) {
+      logger.warn('Readiness check failed: superheroes data cannot be loaded', { err });
+      next(new HttpError(503, 'Superheroes data cannot be loaded'));
+      return;
+    }
+    res.set('Cache-Control', 'no-store').json({
+      status: 'ready',
+      dataset: {
+        heroes: repository.all().length,
+        version: repository.version,
+        digest: repository.digest,
+        modified_at: repository.modifiedAt.toISOString()
+      }
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,693 @@
+import express, { Router } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { compareTwo, Superhero, SuperheroInputSchema, SuperheroPatchSchema } from '@superheroes/shared';
+import { compareMany, CompareManyRequestSchema, CompareQuerySchema } from '../compare.js';
+import { requireRole } from '../auth.js';
+import { HttpError } from '../errors.js';
+import { cacheControl, recordsEtag, rosterCache } from '../httpCache.js';
+import {
+  ExportQuerySchema,
+  exportRoster,
+  IMPORT_BODY_LIMIT,
+  ImportFormatError,
+  ImportQuerySchema,
+  MEDIA_TYPES,
+  planImport,
+  readImportRows,
+  RosterFormat
+} from '../rosterTransfer.js';
+import { InvalidCursorError, paginationLinks, SuperheroQuerySchema } from '../superheroQuery.js';
+import { ConflictError } from '../superheroStore.js';
+import { compareTeams, TeamCompareQuerySchema, TeamInputSchema } from '../team.js';
+import { MAX_TOURNAMENT_HEROES, runTournament, TournamentRequestSchema } from '../tournament.js';
+import { IdParamsSchema, validateRequest } from '../validation.js';
+import { createAuthRouter } from './auth.js';
+import { ApiContext } from './context.js';
+
+/**
+ * Version 1 of the API, mounted at /api/v1 (and, deprecated, at /api). Paths below are
+ * relative to the mount point.
+ */
+export function createV1Router(context: ApiContext): Router {
+  const { repository, tournaments, teams, cache, rateLimiter, metrics } = context;
+  const router = express.Router();
+
+  // Login stays reachable when anonymous callers have no role; everything after it
+  // needs at least viewer, and writes need editor
+  router.use(createAuthRouter(context));
+  router.use(requireRole('viewer'));
+
+  /**
+   * Looks up heroes by id, keeping the given order. Call after repository.ready().
+   */
+  function lookupHeroes(ids: number[]): { heroes: Superhero[]; missing: number[] } {
+    const heroes: Superhero[] = [];
+    const missing: number[] = [];
+    for (const id of ids) {
+      const hero = repository.findById(id);
+      if (hero) heroes.push(hero);
+      else missing.push(id);
+    }
+    return { heroes, missing };
+  }
+
+  /**
+   * GET /superheroes
+   * Returns superheroes, optionally searched, filtered, sorted and paginated.
+   * Without query parameters the full roster is returned.
+   *
+   * Query params: name (substring), q (fuzzy search), <stat>[eq|gt|gte|lt|lte] (range filters),
+   *               sort (e.g. -power,name), limit, offset, cursor
+   * Headers: X-Total-Count - number of matching superheroes before pagination
+   *          Link - first/prev/next/last page links when limit is given
+   *          X-Next-Cursor - cursor for the following page, when there is one
+   * Response: 200 OK - Array of superhero objects
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If a query parameter or cursor is invalid, or a parameter is unknown
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes',
+    validateRequest({ query: SuperheroQuerySchema }),
+    rosterCache(repository, cache.list),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const page = await repository.query(req.query);
+        res.set('X-Total-Count', String(page.total));
+        const links = paginationLinks(req.originalUrl, req.query, page);
+        if (links) res.set('Link', links);
+        if (page.nextCursor) res.set('X-Next-Cursor', page.nextCursor);
+        res.json(page.items);
+      } catch (err) {
+        next(err instanceof InvalidCursorError ? new HttpError(400, err.message) : err);
+      }
+    }
+  );
+
+  /**
+   * GET /superheroes/export
+   * Streams the whole roster for editing elsewhere, e.g. in a spreadsheet. The output can
+   * be sent back unchanged to POST /superheroes/import.
+   *
+   * Query params: format - json (default), ndjson or csv (one column per powerstat; text
+   *                        that spreadsheets would run as a formula gets a leading ')
+   * Headers: Content-Disposition - attachment; filename="superheroes.<format>"
+   * Response: 200 OK - The roster in the requested format
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If the format is unknown
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes/export',
+    validateRequest({ query: ExportQuerySchema }),
+    rosterCache(repository, cache.list),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const { format } = req.query;
+        res.type(`${MEDIA_TYPES[format]}; charset=utf-8`).attachment(`superheroes.${format}`);
+        await pipeline(Readable.from(exportRoster(repository.all(), format)), res);
+      } catch (err) {
+        // Once streaming has started the status is sent; cutting the response short is all that is left
+        if (res.headersSent) res.destroy(err as Error);
+        else next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /superheroes/compare
+   * Compares two superheroes by their IDs and returns category winners and overall winner.
+   *
+   * Query params: id1, id2 (positive integers)
+   *               strategy (optional) - category-count (default), weighted-sum, total-margin or elo
+   *               weights[<stat>] (optional) - per-stat weight, 1 by default
+   * Response: 200 OK - Comparison result JSON, including the strategy used and both scores
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If ids, strategy or weights are missing or invalid, or a parameter is unknown
+   *           404 Not Found - If either superhero does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes/compare',
+    rateLimiter.middleware('compare'),
+    validateRequest({ query: CompareQuerySchema }),
+    rosterCache(repository, cache.item),
+    async (req, res, next) => {
+      const { id1, id2, ...scoring } = req.query;
+      try {
+        await repository.ready();
+        const hero1 = repository.findById(id1);
+        const hero2 = repository.findById(id2);
+        if (!hero1 || !hero2) {
+          next(new HttpError(404, 'Superhero not found'));
+          return;
+        }
+        metrics.comparisons.inc({ kind: 'pair' });
+        res.json(compareTwo(hero1, hero2, scoring));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /superheroes/compare
+   * Compares any number of superheroes: every hero is compared with every other one
+   * using the same rules as GET /superheroes/compare.
+   *
+   * Body: { ids: number[], strategy?, weights? } - 2 to 50 unique superhero ids, plus the
+   *       same optional scoring options as GET /superheroes/compare
+   * Response: 200 OK - { ids, categories (per-category ranking), matrix (categories won
+   *                      by row hero against column hero), standings, tiebreakers, strategy }
+   *           400 Bad Request - If the body is invalid
+   *           404 Not Found - If any superhero does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.post(
+    '/superheroes/compare',
+    rateLimiter.middleware('compare'),
+    validateRequest({ body: CompareManyRequestSchema }),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const { heroes, missing } = lookupHeroes(req.body.ids);
+        if (missing.length > 0) {
+          next(new HttpError(404, `Superhero not found: ${missing.join(', ')}`));
+          return;
+        }
+        const { strategy, weights } = req.body;
+        metrics.comparisons.inc({ kind: 'many' });
+        res.json(compareMany(heroes, { strategy, weights }));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /superheroes/:id
+   * Returns a single superhero by their unique ID.
+   *
+   * Params: id (positive integer) - The unique identifier of the superhero
+   * Response: 200 OK - Superhero object
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If the id is not a positive integer
+   *           404 Not Found - If the superhero does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes/:id',
+    validateRequest({ params: IdParamsSchema }),
+    rosterCache(repository, cache.item),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const superhero = repository.findById(req.params.id);
+        if (superhero) {
+          res.json(superhero);
+        } else {
+          next(new HttpError(404, 'Superhero not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /superheroes/:id/powerstats
+   * Returns the powerstats for a superhero by their unique ID.
+   *
+   * Params: id (positive integer) - The unique identifier of the superhero
+   * Response: 200 OK - Powerstats object
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If the id is not a positive integer
+   *           404 Not Found - If the superhero does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes/:id/powerstats',
+    validateRequest({ params: IdParamsSchema }),
+    rosterCache(repository, cache.item),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const superhero = repository.findById(req.params.id);
+        if (superhero) {
+          res.json(superhero.powerstats);
+        } else {
+          next(new HttpError(404, 'Superhero not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /superheroes
+   * Creates a new superhero. The id is assigned by the server.
+   *
+   * Body: { name, image, powerstats } - all six powerstats are required integers 0-100
+   * Response: 201 Created - The created superhero, with a Location header
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           409 Conflict - If a superhero with the same name already exists
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.post(
+    '/superheroes',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ body: SuperheroInputSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        const superhero = await repository.create(req.body);
+        res.status(201).location(`${req.baseUrl}/superheroes/${superhero.id}`).json(superhero);
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /superheroes/import
+   * Imports superheroes in bulk. Every row is validated and the import is applied as a
+   * single write, or not at all. Rows with an id update that superhero; rows without one
+   * update the superhero with the same name, or create a new one.
+   *
+   * Query params: mode - upsert (default) keeps superheroes missing from the import,
+   *                      replace deletes them
+   *               dry_run - true to report what would change without saving
+   * Body: the roster as application/json (array), application/x-ndjson or text/csv, in the
+   *       formats of GET /superheroes/export
+   * Response: 200 OK - { mode, dry_run, total, created, updated, unchanged, deleted }
+   *           400 Bad Request - If a query parameter is invalid, the body cannot be split
+   *                             into rows (e.g. an unknown CSV column) or has no rows
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           413 Payload Too Large - If the body exceeds 5 MB
+   *           415 Unsupported Media Type - If the body is not JSON, NDJSON or CSV
+   *           422 Unprocessable Entity - If any row is invalid: errors lists every problem
+   *                                      as { row, line (CSV/NDJSON), path, message }
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.post(
+    '/superheroes/import',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ query: ImportQuerySchema }),
+    express.json({ limit: IMPORT_BODY_LIMIT }),
+    express.text({ type: [MEDIA_TYPES.csv, MEDIA_TYPES.ndjson, 'application/ndjson'], limit: IMPORT_BODY_LIMIT }),
+    async (req, res, next) => {
+      const { mode, dry_run } = req.query;
+      const format: RosterFormat | undefined = req.is('json')
+        ? 'json'
+        : req.is(MEDIA_TYPES.csv)
+          ? 'csv'
+          : req.is([MEDIA_TYPES.ndjson, 'application/ndjson'])
+            ? 'ndjson'
+            : undefined;
+      if (!format) {
+        next(new HttpError(415, 'Send the roster as application/json, application/x-ndjson or text/csv'));
+        return;
+      }
+      try {
+        const rows = readImportRows(req.body, format);
+        if (rows.length === 0) {
+          next(new HttpError(400, 'The import contains no superheroes'));
+          return;
+        }
+        await repository.ready();
+        // Planned inside the store's write, so edits made while the import runs are not lost
+        const plan = dry_run
+          ? planImport(repository.all(), rows, mode)
+          : await repository.mutateAll((heroes, nextId) => {
+              const plan = planImport(heroes, rows, mode, nextId);
+              return { heroes: plan.errors.length > 0 ? heroes : plan.roster, result: plan };
+            });
+        if (plan.errors.length > 0) {
+          const invalid = new Set(plan.errors.map((error) => error.row)).size;
+          next(new HttpError(422, `${invalid} of ${rows.length} rows are invalid`, { errors: plan.errors }));
+          return;
+        }
+        const { created, updated, unchanged, deleted } = plan;
+        res.json({ mode, dry_run, total: plan.roster.length, created, updated, unchanged, deleted });
+      } catch (err) {
+        next(err instanceof ImportFormatError ? new HttpError(400, err.message) : err);
+      }
+    }
+  );
+
+  /**
+   * PUT /superheroes/:id
+   * Replaces an existing superhero.
+   *
+   * Params: id (positive integer) - The unique identifier of the superhero
+   * Body: { name, image, powerstats } - all six powerstats are required integers 0-100
+   * Response: 200 OK - The updated superhero
+   *           400 Bad Request - If the id is not a positive integer
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           404 Not Found - If the superhero does not exist
+   *           409 Conflict - If another superhero already has the new name
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.put(
+    '/superheroes/:id',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ params: IdParamsSchema, body: SuperheroInputSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        const superhero = await repository.replace(req.params.id, req.body);
+        if (superhero) {
+          res.json(superhero);
+        } else {
+          next(new HttpError(404, 'Superhero not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * PATCH /superheroes/:id
+   * Partially updates an existing superhero. Powerstats are merged stat by stat.
+   *
+   * Params: id (positive integer) - The unique identifier of the superhero
+   * Body: any subset of { name, image, powerstats }
+   * Response: 200 OK - The updated superhero
+   *           400 Bad Request - If the id is not a positive integer
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           404 Not Found - If the superhero does not exist
+   *           409 Conflict - If another superhero already has the new name
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.patch(
+    '/superheroes/:id',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ params: IdParamsSchema, body: SuperheroPatchSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        const superhero = await repository.patch(req.params.id, req.body);
+        if (superhero) {
+          res.json(superhero);
+        } else {
+          next(new HttpError(404, 'Superhero not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * DELETE /superheroes/:id
+   * Deletes a superhero.
+   *
+   * Params: id (positive integer) - The unique identifier of the superhero
+   * Response: 204 No Content - The superhero was deleted
+   *           400 Bad Request - If the id is not a positive integer
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           404 Not Found - If the superhero does not exist
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.delete(
+    '/superheroes/:id',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ params: IdParamsSchema }),
+    async (req, res, next) => {
+      try {
+        const removed = await repository.remove(req.params.id);
+        if (removed) {
+          res.status(204).end();
+        } else {
+          next(new HttpError(404, 'Superhero not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /tournaments
+   * Runs a tournament between the given heroes and stores the result. Matches are
+   * decided deterministically by the scoring strategy, so the same request always
+   * produces the same bracket.
+   *
+   * Body: {
+   *   heroes: number[] | "all",
+   *   format: "single-elimination" | "double-elimination" | "round-robin",
+   *   seeding?: "total-stats" | "id" | "as-given" | "random" (default total-stats),
+   *   seed?: integer - drives random seeding (default 0),
+   *   name?, strategy?, weights? - as for POST /superheroes/compare
+   * }
+   * Response: 201 Created - The tournament with every round, match and category breakdown,
+   *                         with a Location header
+   *           400 Bad Request - If the body is invalid
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           404 Not Found - If any hero id does not exist
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.post(
+    '/tournaments',
+    rateLimiter.middleware('compare'),
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ body: TournamentRequestSchema }),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const { heroes: ids, name, ...rules } = req.body;
+        let heroes: Superhero[];
+        if (ids === 'all') {
+          heroes = repository.all();
+          if (heroes.length < 2 || heroes.length > MAX_TOURNAMENT_HEROES) {
+            next(
+              new HttpError(
+                400,
+                `A tournament needs between 2 and ${MAX_TOURNAMENT_HEROES} heroes, the roster has ${heroes.length}`
+              )
+            );
+            return;
+          }
+        } else {
+          const lookup = lookupHeroes(ids);
+          if (lookup.missing.length > 0) {
+            next(new HttpError(404, `Superhero not found: ${lookup.missing.join(', ')}`));
+            return;
+          }
+          heroes = lookup.heroes;
+        }
+        const result = runTournament(heroes, { heroes: ids, ...rules });
+        metrics.comparisons.inc({ kind: 'tournament' });
+        const tournament = await tournaments.create((id) => ({
+          id,
+          name: name ?? `Tournament ${id}`,
+          created_at: new Date().toISOString(),
+          ...result
+        }));
+        res.status(201).location(`${req.baseUrl}/tournaments/${tournament.id}`).json(tournament);
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /tournaments
+   * Lists stored tournaments, oldest first, without their brackets.
+   *
+   * Response: 200 OK - Array of { id, name, format, seeding, created_at, entrants, champion }
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get('/tournaments', validateRequest({}), cacheControl(cache.records), async (req, res, next) => {
+    try {
+      const all = await tournaments.list();
+      res.json(
+        all.map(({ id, name, format, seeding, created_at, entrants, champion }) => ({
+          id,
+          name,
+          format,
+          seeding,
+          created_at,
+          entrants: entrants.length,
+          champion
+        }))
+      );
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /tournaments/:id
+   * Returns a stored tournament with its full bracket.
+   *
+   * Params: id (positive integer) - The tournament id returned on creation
+   * Response: 200 OK - Tournament object
+   *           400 Bad Request - If the id is not a positive integer
+   *           404 Not Found - If the tournament does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/tournaments/:id',
+    validateRequest({ params: IdParamsSchema }),
+    cacheControl(cache.records),
+    async (req, res, next) => {
+      try {
+        const tournament = await tournaments.get(req.params.id);
+        if (tournament) {
+          res.json(tournament);
+        } else {
+          next(new HttpError(404, 'Tournament not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * POST /teams
+   * Creates a named squad of heroes. The id is assigned by the server.
+   *
+   * Body: { name, members } - members is a list of 1 to 5 distinct superhero ids
+   * Response: 201 Created - The created team, with a Location header
+   *           401 Unauthorized / 403 Forbidden - If the caller is not an editor
+   *           404 Not Found - If any member id does not exist
+   *           409 Conflict - If a team with the same name already exists
+   *           422 Unprocessable Entity - If the body fails validation
+   *           500 Internal Server Error - If data cannot be read or written
+   */
+  router.post(
+    '/teams',
+    rateLimiter.middleware('write'),
+    requireRole('editor'),
+    validateRequest({ body: TeamInputSchema }, { bodyStatus: 422 }),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const { missing } = lookupHeroes(req.body.members);
+        if (missing.length > 0) {
+          next(new HttpError(404, `Superhero not found: ${missing.join(', ')}`));
+          return;
+        }
+        const { name, members } = req.body;
+        const team = await teams.create((id, existing) => {
+          if (existing.some((other) => other.name.toLowerCase() === name.toLowerCase())) {
+            throw new ConflictError(`A team named "${name}" already exists`);
+          }
+          return { id, name, members, created_at: new Date().toISOString() };
+        });
+        res.status(201).location(`${req.baseUrl}/teams/${team.id}`).json(team);
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /teams
+   * Returns all teams.
+   *
+   * Response: 200 OK - Array of teams
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get('/teams', validateRequest({}), cacheControl(cache.records), async (req, res, next) => {
+    try {
+      res.json(await teams.list());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /teams/compare
+   * Compares two teams category by category on their aggregated powerstats.
+   *
+   * Query params: id1, id2 - team ids
+   *               aggregate - sum | average | best (default average)
+   * Response: 200 OK - { id1, id2, aggregate, teams, categories, overall_winner } where
+   *                    every team carries its sum, average and best stats and winners
+   *                    are 1, 2 or "tie"
+   *           304 Not Modified - If neither the teams nor the roster changed since the
+   *                              client's ETag
+   *           400 Bad Request - If the query is invalid
+   *           404 Not Found - If a team, or one of its members, does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/teams/compare',
+    rateLimiter.middleware('compare'),
+    validateRequest({ query: TeamCompareQuerySchema }),
+    cacheControl(cache.records),
+    async (req, res, next) => {
+      try {
+        await repository.ready();
+        const { id1, id2, aggregate } = req.query;
+        const [team1, team2] = await Promise.all([teams.get(id1), teams.get(id2)]);
+        if (!team1 || !team2) {
+          const unknown = [team1 ? null : id1, team2 ? null : id2].filter((id) => id !== null);
+          next(new HttpError(404, `Team not found: ${unknown.join(', ')}`));
+          return;
+        }
+        // Members can be deleted after the team was formed
+        const squads = [team1, team2].map((team) => ({ team, ...lookupHeroes(team.members) }));
+        const missing = squads.flatMap((squad) => squad.missing);
+        if (missing.length > 0) {
+          next(new HttpError(404, `Superhero not found: ${missing.join(', ')}`));
+          return;
+        }
+        res.set('ETag', recordsEtag(repository, team1, team2, aggregate));
+        if (req.fresh) {
+          res.status(304).end();
+          return;
+        }
+        const [squad1, squad2] = squads.map(({ team, heroes }) => ({ team, members: heroes }));
+        metrics.comparisons.inc({ kind: 'teams' });
+        res.json(compareTeams(squad1, squad2, aggregate));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  /**
+   * GET /teams/:id
+   * Returns a single team by its id.
+   *
+   * Params: id (positive integer) - The unique identifier of the team
+   * Response: 200 OK - Team object
+   *           400 Bad Request - If the id is not a positive integer
+   *           404 Not Found - If the team does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/teams/:id',
+    validateRequest({ params: IdParamsSchema }),
+    cacheControl(cache.records),
+    async (req, res, next) => {
+      try {
+        const team = await teams.get(req.params.id);
+        if (team) {
+          res.json(team);
+        } else {
+          next(new HttpError(404, 'Team not found'));
+        }
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  return router;
+}
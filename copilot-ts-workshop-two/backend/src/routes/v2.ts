@@ -0,0 +1,58 @@
+import express, { Router } from 'express';
+import { compareHeroes, CompareQuerySchema } from '../compare.js';
+import { requireRole } from '../auth.js';
+import { HttpError } from '../errors.js';
+import { rosterCache } from '../httpCache.js';
+import { validateRequest } from '../validation.js';
+import { ApiContext } from './context.js';
+import { createV1Router } from './v1.js';
+
+/**
+ * Version 2 of the API, mounted at /api/v2. Routes defined here replace their v1
+ * counterparts; everything else is served unchanged by v1.
+ */
+export function createV2Router(context: ApiContext): Router {
+  const { repository, cache, rateLimiter, metrics } = context;
+  const router = express.Router();
+
+  /**
+   * GET /superheroes/compare
+   * Compares two superheroes. Unlike v1, winners are hero objects (null for a tie)
+   * rather than 1 or 2.
+   *
+   * Query params: as for v1
+   * Response: 200 OK - { hero1, hero2, categories: [{ name, hero1_value, hero2_value, winner }],
+   *                    overall_winner, strategy, scores: { hero1, hero2 } }
+   *           304 Not Modified - If the client's copy is current (If-None-Match / If-Modified-Since)
+   *           400 Bad Request - If ids, strategy or weights are missing or invalid, or a parameter is unknown
+   *           404 Not Found - If either superhero does not exist
+   *           500 Internal Server Error - If data cannot be read
+   */
+  router.get(
+    '/superheroes/compare',
+    rateLimiter.middleware('compare'),
+    requireRole('viewer'),
+    validateRequest({ query: CompareQuerySchema }),
+    rosterCache(repository, cache.item),
+    async (req, res, next) => {
+      const { id1, id2, ...scoring } = req.query;
+      try {
+        await repository.ready();
+        const hero1 = repository.findById(id1);
+        const hero2 = repository.findById(id2);
+        if (!hero1 || !hero2) {
+          next(new HttpError(404, 'Superhero not found'));
+          return;
+        }
+        metrics.comparisons.inc({ kind: 'pair' });
+        res.json(compareHeroes(hero1, hero2, scoring));
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+
+  router.use(createV1Router(context));
+
+  return router;
+}
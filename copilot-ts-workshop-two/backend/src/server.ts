@@ -1,217 +1,145 @@
-import express from 'express';
+import { randomBytes } from 'crypto';
 import path from 'path';
-import fs from 'fs';
 import { fileURLToPath } from 'url';
+import { createApp } from './app.js';
+import { openSuperheroStore } from './storage.js';
+import { Config, ConfigError, configUsage, loadConfig } from './config.js';
+import { exitOnSignals, RunningServer, startServer } from './lifecycle.js';
+import { logger } from './logger.js';
 
 /**
-This is a superheroes API server that supports 3 GET endpoints
-The data is stored in a JSON file in the project folder called superheroes.json
-1. /superheroes/all - returns a list of all superheroes, as a JSON array
-2. /superheroes/:id - returns a specific superhero by id, as a JSON object
-3. /superheroes/:id/powerstats - returns a the powers statistics for superhero by id, as a JSON object
+This is the superheroes API server. The roster is stored in data/superheroes.json
+(or SUPERHEROES_DATA_FILE), with tournaments and teams in JSON files next to it.
+STORAGE=sqlite keeps the roster in an SQLite database instead (SUPERHEROES_SQLITE_FILE,
+data/superheroes.db by default), and STORAGE=memory in memory only; see storage.ts.
+Fill a new database with `npm run migrate -- json:data/superheroes.json sqlite:data/superheroes.db`.
+
+Settings come from a JSON config file (--config or SUPERHEROES_CONFIG), environment
+variables and command-line flags, in increasing precedence; see config.ts or run with
+--help. Invalid settings stop the server at startup with a list of what is wrong.
+
+The API is versioned:
+- /api/v1/... - superheroes (search, CRUD, compare), tournaments and teams; see routes/v1.ts
+- /api/v2/... - v1 plus breaking changes, e.g. compare naming winners by hero object; see routes/v2.ts
+- /api/...    - the original unversioned paths, a deprecated alias of v1 (Deprecation/Sunset headers)
+
+Reads need the viewer role, writes the editor role and user administration the admin
+role. Callers send a token from POST /api/v1/auth/login, or an API key. Auth is
+configured with:
+- AUTH_SECRET - signs tokens; without it they don't survive a restart
+- AUTH_TOKEN_TTL - token lifetime in seconds (default 3600)
+- AUTH_ANONYMOUS_ROLE - role of callers without credentials: viewer (default) or none
+- SUPERHEROES_ADMIN_USERNAME / SUPERHEROES_ADMIN_PASSWORD - admin created while there are no users
+
+Every /api request is charged to a token bucket per API key, user or IP (see
+rateLimit.ts for the budgets); compare, write and login routes also have tighter
+budgets of their own. Responses carry RateLimit-* headers, and a spent budget is
+answered with 429 and Retry-After.
+
+Every request is logged as one JSON line on stdout (request id, route, status, latency,
+caller); LOG_LEVEL sets the threshold (debug, info, warn, error or silent). Prometheus
+metrics are served at /metrics. Browsers may call the API from the CORS_ORIGINS.
+
+/api/openapi.json describes every route, and /api/docs renders it. /healthz and
+/readyz are liveness and readiness probes.
+
+On SIGTERM or SIGINT the server stops accepting connections and lets in-flight
+requests finish for up to SHUTDOWN_TIMEOUT_MS (default 10000) before exiting.
+
+The app itself is built by createApp (app.ts); this module configures it and, outside
+tests, starts listening.
 */
 
 // Get proper __dirname equivalent in ESM
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const app = express();
-const PORT = process.env.TEST_PORT || process.env.PORT || 3000;
-
-// Root route
-/**
- * GET /
- * Root endpoint for health check or welcome message.
- *
- * Response: 200 OK - Returns a welcome string.
- */
-app.get('/', (req, res) => {
-  res.send('Save the World!');
-});
+const isMain = process.env.NODE_ENV !== 'test';
+// Jest's own arguments are not meant for the server
+const argv = isMain ? process.argv.slice(2) : [];
+if (argv.includes('--help')) {
+  console.log(configUsage());
+  process.exit(0);
+}
 
-// API route to fetch superheroes data
-/**
- * Loads the list of superheroes from a JSON file asynchronously.
- *
- * @returns {Promise<any>} A promise that resolves with the parsed JSON data containing superheroes,
- * or rejects if there is an error reading or parsing the file.
- * @throws Will reject the promise if the file cannot be read or if the JSON is invalid.
- */
-function loadSuperheroes(): Promise<any> {
-  const dataPath = path.join(__dirname, '../data/superheroes.json');
-  return new Promise((resolve, reject) => {
-    fs.readFile(dataPath, 'utf8', (err, data) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      try {
-        resolve(JSON.parse(data));
-      } catch (parseErr) {
-        reject(parseErr);
-      }
-    });
+let config: Config;
+try {
+  config = loadConfig({
+    argv,
+    env: process.env,
+    defaults: { dataFile: path.join(__dirname, '../data/superheroes.json') }
   });
+} catch (err) {
+  if (!(err instanceof ConfigError) || !isMain) throw err;
+  console.error(err.message);
+  process.exit(1);
 }
 
-/**
- * GET /api/superheroes
- * Returns a list of all superheroes.
- *
- * Response: 200 OK - Array of superhero objects
- *           500 Internal Server Error - If data cannot be read
- */
-app.get('/api/superheroes', async (req, res) => {
-  try {
-    const superheroes = await loadSuperheroes();
-    res.json(superheroes);
-  } catch (err) {
-    console.error('Error loading superheroes data:', err);
-    res.status(500).send('Internal Server Error');
+const instance = createApp({
+  dataFile: config.dataFile,
+  store: openSuperheroStore(config.storage, config.storage === 'sqlite' ? config.sqliteFile : config.dataFile),
+  cache: config.cache,
+  corsOrigins: config.corsOrigins,
+  features: config.features,
+  auth: {
+    secret: config.auth.secret ? Buffer.from(config.auth.secret, 'utf8') : randomBytes(32),
+    tokenTtl: config.auth.tokenTtl,
+    anonymousRole: config.auth.anonymousRole === 'none' ? null : config.auth.anonymousRole,
+    bootstrapAdmin: config.auth.adminPassword
+      ? { username: config.auth.adminUsername, password: config.auth.adminPassword }
+      : undefined
   }
 });
+const { app, context } = instance;
+const { repository, auth } = context;
 
-/**
- * GET /api/superheroes/compare
- * Compares two superheroes by their IDs and returns category winners and overall winner.
- *
- * Query params: id1, id2 (numbers)
- * Response: 200 OK - Comparison result JSON
- *           400 Bad Request - If ids are missing or invalid
- *           404 Not Found - If either superhero does not exist
- *           500 Internal Server Error - If data cannot be read
- */
-app.get('/api/superheroes/compare', async (req, res) => {
-  const id1 = Number(req.query.id1);
-  const id2 = Number(req.query.id2);
-  if (isNaN(id1) || isNaN(id2)) {
-    return res.status(400).json({ error: 'Both id1 and id2 query parameters must be valid numbers.' });
-  }
-  try {
-    const superheroes = await loadSuperheroes();
-    const hero1 = superheroes.find((h: any) => h.id === id1);
-    const hero2 = superheroes.find((h: any) => h.id === id2);
-    if (!hero1 || !hero2) {
-      res.status(404).json({ error: 'Superhero not found' });
-      return;
-    }
-    const categoriesOrder = [
-      'intelligence',
-      'strength',
-      'speed',
-      'durability',
-      'power',
-      'combat'
-    ];
-    let id1Wins = 0;
-    let id2Wins = 0;
-    const categories = categoriesOrder.map((cat) => {
-      const id1_value = hero1.powerstats[cat];
-      const id2_value = hero2.powerstats[cat];
-      let winner;
-      if (id1_value > id2_value) {
-        winner = 1;
-        id1Wins++;
-      } else if (id2_value > id1_value) {
-        winner = 2;
-        id2Wins++;
-      } else {
-        winner = 'tie';
-      }
-      return { name: cat, winner, id1_value, id2_value };
-    });
-    let overall_winner;
-    if (id1Wins > id2Wins) overall_winner = 1;
-    else if (id2Wins > id1Wins) overall_winner = 2;
-    else overall_winner = 'tie';
-    res.json({ id1: Number(id1), id2: Number(id2), categories, overall_winner });
-  } catch (err) {
-    console.error('Error comparing superheroes:', err);
-    res.status(500).send('Internal Server Error');
-  }
-});
+// Start the server only if not in test environment
+if (isMain) {
+  logger.level = config.logLevel;
+  let running: RunningServer | undefined;
 
-/**
- * GET /api/superheroes/:id
- * Returns a single superhero by their unique ID.
- *
- * Params: id (string) - The unique identifier of the superhero
- * Response: 200 OK - Superhero object
- *           404 Not Found - If the superhero does not exist
- *           500 Internal Server Error - If data cannot be read
- */
-app.get('/api/superheroes/:id', async (req, res) => {
-  const { id } = req.params;
-  try {
-    const superheroes = await loadSuperheroes();
-    const superhero = superheroes.find((hero: any) => String(hero.id) === String(id));
-    if (superhero) {
-      res.json(superhero);
-    } else {
-      res.status(404).send('Superhero not found');
-    }
-  } catch (err) {
-    console.error('Error loading superheroes data:', err);
-    res.status(500).send('Internal Server Error');
+  // Crashes still let in-flight requests finish, but never wait past the shutdown timeout
+  const crash = (msg: string, err: unknown) => {
+    logger.error(msg, { err });
+    setTimeout(() => process.exit(1), config.shutdownTimeout).unref();
+    void (running?.shutdown() ?? Promise.resolve()).finally(() => process.exit(1));
+  };
+  process.on('uncaughtException', (err) => crash('Uncaught exception', err));
+  process.on('unhandledRejection', (reason) => crash('Unhandled rejection', reason));
+
+  if (!config.auth.secret) {
+    logger.warn('AUTH_SECRET is not set: login tokens are signed with a random key and end with this process');
   }
-});
 
-/**
- * GET /api/superheroes/:id/powerstats
- * Returns the powerstats for a superhero by their unique ID.
- *
- * Params: id (string) - The unique identifier of the superhero
- * Response: 200 OK - Powerstats object
- *           404 Not Found - If the superhero does not exist
- *           500 Internal Server Error - If data cannot be read
- */
-app.get('/api/superheroes/:id/powerstats', async (req, res) => {
-  const { id } = req.params;
   try {
-    const superheroes = await loadSuperheroes();
-    const superhero = superheroes.find((hero: any) => String(hero.id) === String(id));
-    if (superhero) {
-      res.json(superhero.powerstats);
-    } else {
-      res.status(404).send('Superhero not found');
-    }
+    // Load and validate the roster up front rather than on the first request
+    await repository.ready();
   } catch (err) {
-    console.error('Error loading superheroes data:', err);
-    res.status(500).send('Internal Server Error');
+    logger.error('Failed to load superheroes data', { file: config.dataFile, err });
+    process.exit(1);
   }
-});
 
-// Start the server only if not in test environment
-if (process.env.NODE_ENV !== 'test') {
   try {
-    const server = app.listen(PORT, () => {
-      console.log(`Server running on http://localhost:${PORT}`);
-    });
-
-    server.on('error', (err: NodeJS.ErrnoException) => {
-      console.error('Failed to start server:', err.message);
-      if (err.code === 'EADDRINUSE') {
-        console.error(`Port ${PORT} is already in use.`);
-      } else if (err.code === 'EACCES') {
-        console.error(`Insufficient privileges to bind to port ${PORT}.`);
-      }
-      process.exit(1);
-    });
-
-    // Handle uncaught exceptions and unhandled promise rejections
-    process.on('uncaughtException', (err) => {
-      console.error('Uncaught Exception:', err);
-      process.exit(1);
-    });
-
-    process.on('unhandledRejection', (reason) => {
-      console.error('Unhandled Rejection:', reason);
-      process.exit(1);
+    running = await startServer(instance, {
+      port: config.port,
+      host: config.host,
+      shutdownTimeout: config.shutdownTimeout
     });
+    exitOnSignals(running);
+    const { port } = new URL(running.url);
+    logger.info(`Server running on ${config.host ? running.url : `http://localhost:${port}`}`, { port: Number(port) });
   } catch (err) {
-    console.error('Unexpected error during server startup:', err);
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'EADDRINUSE') {
+      logger.error(`Failed to start server: port ${config.port} is already in use`, { err });
+    } else if (code === 'EACCES') {
+      logger.error(`Failed to start server: insufficient privileges to bind to port ${config.port}`, { err });
+    } else {
+      logger.error('Failed to start server', { err });
+    }
     process.exit(1);
   }
 }
 
-export default app;
\ No newline at end of file
+export { auth, repository };
+export default app;
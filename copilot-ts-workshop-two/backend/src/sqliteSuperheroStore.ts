@@ -0,0 +1,401 @@
+import Database from 'better-sqlite3';
+import {
+  parseSuperheroes,
+  POWERSTAT_NAMES,
+  Superhero,
+  SuperheroInput,
+  SuperheroPatch
+} from '@superheroes/shared';
+import {
+  decodeCursor,
+  encodeCursor,
+  fuzzyScore,
+  SortField,
+  SortValue,
+  SuperheroPage,
+  SuperheroQuery
+} from './superheroQuery.js';
+import { ConflictError, Mutation, SuperheroStore } from './superheroStore.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Schema changes, applied in order, each in its own transaction. Never edit a migration
+ * once released; add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create superheroes',
+    up: `
+      CREATE TABLE superheroes (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        -- Lowercased in JavaScript, like the in-memory search, to sort and match names
+        name_lc TEXT NOT NULL UNIQUE,
+        image TEXT NOT NULL,
+        ${POWERSTAT_NAMES.map((stat) => `${stat} INTEGER NOT NULL CHECK (${stat} BETWEEN 0 AND 100),`).join(' ')}
+        total INTEGER NOT NULL
+      );
+      CREATE TABLE roster_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+    `
+  },
+  {
+    version: 2,
+    name: 'index powerstats',
+    up: [...POWERSTAT_NAMES, 'total']
+      .map((column) => `CREATE INDEX superheroes_${column} ON superheroes (${column}, id);`)
+      .join('\n')
+  }
+];
+
+const COLUMNS = ['id', 'name', 'image', ...POWERSTAT_NAMES].join(', ');
+
+type Row = { id: number; name: string; image: string } & Record<(typeof POWERSTAT_NAMES)[number], number>;
+
+// Values bound as SQL parameters
+type Param = string | number;
+
+const OPERATORS = { eq: '=', gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+/**
+ * Keeps the roster in an SQLite database. Writes are transactions, and queries filter,
+ * sort and paginate in SQL (using indexes on the powerstats) instead of loading the
+ * whole roster. Pending {@link MIGRATIONS} are applied when the store is opened.
+ */
+export class SqliteSuperheroStore implements SuperheroStore {
+  /** Names of the migrations applied when this store was opened. */
+  readonly appliedMigrations: string[];
+  private readonly db: Database.Database;
+
+  /**
+   * @param filePath Database file, created if missing, or ':memory:'.
+   */
+  constructor(readonly filePath: string) {
+    this.db = new Database(filePath);
+    if (filePath !== ':memory:') this.db.pragma('journal_mode = WAL');
+    this.db.function('fuzzy_score', { deterministic: true }, (query, name) => fuzzyScore(String(query), String(name)));
+    this.appliedMigrations = this.migrate();
+  }
+
+  get location(): string {
+    return `sqlite:${this.filePath}`;
+  }
+
+  async load(): Promise<Superhero[]> {
+    return this.all();
+  }
+
+  async modifiedAt(): Promise<Date> {
+    const row = this.db.prepare(`SELECT value FROM roster_meta WHERE key = 'modified_at'`).get() as
+      | { value: string }
+      | undefined;
+    return row ? new Date(row.value) : new Date(0);
+  }
+
+  async create(input: SuperheroInput): Promise<Superhero> {
+    return this.transaction(() => {
+      this.assertUniqueName(input.name);
+      const hero: Superhero = { id: this.nextId(), ...input };
+      this.insert(hero);
+      return hero;
+    });
+  }
+
+  async replace(id: number, input: SuperheroInput): Promise<Superhero | null> {
+    return this.transaction(() => {
+      if (!this.find(id)) return null;
+      this.assertUniqueName(input.name, id);
+      const hero: Superhero = { id, ...input };
+      this.update(hero);
+      return hero;
+    });
+  }
+
+  async patch(id: number, changes: SuperheroPatch): Promise<Superhero | null> {
+    return this.transaction(() => {
+      const current = this.find(id);
+      if (!current) return null;
+      if (changes.name !== undefined) this.assertUniqueName(changes.name, id);
+      const hero: Superhero = {
+        id,
+        name: changes.name ?? current.name,
+        image: changes.image ?? current.image,
+        powerstats: { ...current.powerstats, ...changes.powerstats }
+      };
+      this.update(hero);
+      return hero;
+    });
+  }
+
+  async remove(id: number): Promise<boolean> {
+    return this.transaction(() => this.db.prepare('DELETE FROM superheroes WHERE id = ?').run(id).changes > 0);
+  }
+
+  async replaceAll(heroes: Superhero[]): Promise<void> {
+    const roster = parseSuperheroes(heroes);
+    this.transaction(() => this.insertAll(roster));
+  }
+
+  /**
+   * Reads and rewrites the roster in one IMMEDIATE transaction, which takes the write lock
+   * before reading, so neither this store nor another process can write in between.
+   */
+  async mutateAll<T>(change: (heroes: Superhero[], nextId: number) => Mutation<T>): Promise<T> {
+    return this.db
+      .transaction(() => {
+        const current = this.all();
+        const { heroes, result } = change(current, this.nextId());
+        if (heroes !== current) {
+          const roster = parseSuperheroes(heroes);
+          this.transaction(() => this.insertAll(roster));
+        }
+        return result;
+      })
+      .immediate();
+  }
+
+  /**
+   * Same results as querySuperheroes over the loaded roster, computed in SQL. Fuzzy
+   * search scores names with the same function, registered as fuzzy_score().
+   *
+   * @throws {InvalidCursorError} If the cursor was not produced for the same sort.
+   */
+  async query(query: SuperheroQuery): Promise<SuperheroPage> {
+    const where: string[] = [];
+    const params: Param[] = [];
+    if (query.name !== undefined) {
+      where.push('instr(name_lc, ?) > 0');
+      params.push(query.name.toLowerCase());
+    }
+    for (const filter of query.stats) {
+      where.push(`${filter.stat} ${OPERATORS[filter.op]} ?`);
+      params.push(filter.value);
+    }
+    if (query.q !== undefined) {
+      where.push('fuzzy_score(?, name) > 0');
+      params.push(query.q);
+    }
+
+    // The sort key always ends with the id, so the order is total, as in memory
+    const keys = [...query.sort.map((field) => sortExpression(field, query.q)), { sql: 'id', params: [] as Param[] }];
+    const directions = [...query.sort.map((field) => (field.descending ? 'DESC' : 'ASC')), 'ASC'];
+    const keyParams = keys.flatMap((key) => key.params);
+    const filter = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const count = (sql: string, extra: Param[]) =>
+      (this.db.prepare(`SELECT COUNT(*) AS n FROM superheroes ${sql}`).get(...params, ...extra) as { n: number }).n;
+
+    const total = count(filter, []);
+    let start = query.offset;
+    let rest = filter;
+    const restParams: Param[] = [];
+    if (query.cursor !== undefined) {
+      const after = afterCursor(keys, directions, decodeCursor(query.cursor, keys.length));
+      rest = `WHERE ${[...where, after.sql].join(' AND ')}`;
+      restParams.push(...after.params);
+      start = total - count(rest, restParams);
+    }
+
+    const limit = query.limit ?? -1;
+    const offset = query.cursor !== undefined ? 0 : start;
+    const rows = this.db
+      .prepare(
+        `SELECT ${COLUMNS}, ${keys.map((key, i) => `${key.sql} AS k${i}`).join(', ')} FROM superheroes ${rest}
+         ORDER BY ${keys.map((key, i) => `${key.sql} ${directions[i]}`).join(', ')} LIMIT ? OFFSET ?`
+      )
+      .all(...keyParams, ...params, ...restParams, ...keyParams, limit, offset) as Array<
+      Row & Record<string, SortValue>
+    >;
+
+    const page: SuperheroPage = { items: rows.map(toSuperhero), total, offset: start };
+    if (query.limit !== undefined) {
+      page.limit = query.limit;
+      const last = rows[rows.length - 1];
+      if (last && start + rows.length < total) page.nextCursor = encodeCursor(keys.map((_, i) => last[`k${i}`]));
+    }
+    return page;
+  }
+
+  /**
+   * Polls SQLite's data_version, which changes when another connection (e.g. the migrate
+   * command) commits to the database, but not for this store's own writes.
+   */
+  watch(onChange: () => void, onError: (err: unknown) => void): () => void {
+    let version = this.dataVersion();
+    const timer = setInterval(() => {
+      try {
+        const current = this.dataVersion();
+        if (current !== version) {
+          version = current;
+          onChange();
+        }
+      } catch (err) {
+        onError(err);
+      }
+    }, 1000);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  close(): void {
+    if (this.db.open) this.db.close();
+  }
+
+  private dataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  private migrate(): string[] {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    const applied = new Set(
+      (this.db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>).map(
+        (row) => row.version
+      )
+    );
+    const pending = MIGRATIONS.filter((migration) => !applied.has(migration.version));
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db
+          .prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+    }
+    return pending.map((migration) => migration.name);
+  }
+
+  /**
+   * Runs `write` in a transaction and records the modification time with it. Also moves
+   * the id counter past every id stored so far, so none is reused once its hero is removed.
+   */
+  private transaction<T>(write: () => T): T {
+    return this.db.transaction(() => {
+      this.db
+        .prepare(`INSERT OR REPLACE INTO roster_meta (key, value) VALUES ('next_id', ?)`)
+        .run(String(this.nextId()));
+      const result = write();
+      this.db
+        .prepare(`INSERT OR REPLACE INTO roster_meta (key, value) VALUES ('modified_at', ?)`)
+        .run(new Date().toISOString());
+      return result;
+    })();
+  }
+
+  /** The lowest id not taken by a hero and not counted in roster_meta. */
+  private nextId(): number {
+    const { next } = this.db
+      .prepare(
+        `SELECT MAX(
+           COALESCE((SELECT CAST(value AS INTEGER) FROM roster_meta WHERE key = 'next_id'), 1),
+           COALESCE((SELECT MAX(id) FROM superheroes), 0) + 1
+         ) AS next`
+      )
+      .get() as { next: number };
+    return next;
+  }
+
+  private all(): Superhero[] {
+    const rows = this.db.prepare(`SELECT ${COLUMNS} FROM superheroes ORDER BY id`).all() as Row[];
+    return parseSuperheroes(rows.map(toSuperhero));
+  }
+
+  private find(id: number): Superhero | undefined {
+    const row = this.db.prepare(`SELECT ${COLUMNS} FROM superheroes WHERE id = ?`).get(id) as Row | undefined;
+    return row && toSuperhero(row);
+  }
+
+  private assertUniqueName(name: string, exceptId?: number): void {
+    const clash = this.db
+      .prepare('SELECT id FROM superheroes WHERE name_lc = ? AND id IS NOT ?')
+      .get(name.toLowerCase(), exceptId ?? null);
+    if (clash) throw new ConflictError(`A superhero named "${name}" already exists`);
+  }
+
+  /** Replaces every row with `roster`. */
+  private insertAll(roster: Superhero[]): void {
+    this.db.prepare('DELETE FROM superheroes').run();
+    for (const hero of roster) {
+      this.assertUniqueName(hero.name, hero.id);
+      this.insert(hero);
+    }
+  }
+
+  private insert(hero: Superhero): void {
+    this.db
+      .prepare(
+        `INSERT INTO superheroes (id, name, name_lc, image, ${POWERSTAT_NAMES.join(', ')}, total)
+         VALUES (${Array(POWERSTAT_NAMES.length + 5).fill('?').join(', ')})`
+      )
+      .run(...rowValues(hero));
+  }
+
+  private update(hero: Superhero): void {
+    const [id, ...values] = rowValues(hero);
+    this.db
+      .prepare(
+        `UPDATE superheroes
+         SET name = ?, name_lc = ?, image = ?, ${POWERSTAT_NAMES.map((stat) => `${stat} = ?`).join(', ')}, total = ?
+         WHERE id = ?`
+      )
+      .run(...values, id);
+  }
+}
+
+function rowValues(hero: Superhero): Param[] {
+  const stats = POWERSTAT_NAMES.map((stat) => hero.powerstats[stat]);
+  const total = stats.reduce((sum, stat) => sum + stat, 0);
+  return [hero.id, hero.name, hero.name.toLowerCase(), hero.image, ...stats, total];
+}
+
+function toSuperhero(row: Row): Superhero {
+  return {
+    id: row.id,
+    name: row.name,
+    image: row.image,
+    powerstats: Object.fromEntries(POWERSTAT_NAMES.map((stat) => [stat, row[stat]])) as Superhero['powerstats']
+  };
+}
+
+interface Expression {
+  sql: string;
+  params: Param[];
+}
+
+function sortExpression(field: SortField, q: string | undefined): Expression {
+  switch (field.key) {
+    case 'name':
+      return { sql: 'name_lc', params: [] };
+    case 'relevance':
+      return q === undefined ? { sql: '0', params: [] } : { sql: 'fuzzy_score(?, name)', params: [q] };
+    default:
+      // id, total and the stats are columns of their own
+      return { sql: field.key, params: [] };
+  }
+}
+
+/**
+ * Rows sorting after `key`: greater on the first sort value, or equal on it and greater
+ * on the next one, and so on, where "greater" follows each value's sort direction.
+ */
+function afterCursor(keys: Expression[], directions: string[], key: SortValue[]): Expression {
+  const branches: string[] = [];
+  const params: Param[] = [];
+  keys.forEach((expression, i) => {
+    const terms = keys.slice(0, i).map((previous) => `${previous.sql} = ?`);
+    keys.slice(0, i).forEach((previous, j) => params.push(...previous.params, key[j]));
+    terms.push(`${expression.sql} ${directions[i] === 'DESC' ? '<' : '>'} ?`);
+    params.push(...expression.params, key[i]);
+    branches.push(`(${terms.join(' AND ')})`);
+  });
+  return { sql: `(${branches.join(' OR ')})`, params };
+}
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import { parseSuperheroes } from '@superheroes/shared';
+import { SqliteSuperheroStore } from './sqliteSuperheroStore.js';
+import { JsonSuperheroStore, MemorySuperheroStore, SuperheroStore } from './superheroStore.js';
+
+export const STORAGE_DRIVERS = ['json', 'sqlite', 'memory'] as const;
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+/**
+ * Opens the roster store for a driver:
+ * - json: the JSON file itself
+ * - sqlite: an SQLite database at `file`, created and migrated as needed
+ * - memory: a copy of the JSON file (if it exists) kept in memory; changes are not saved
+ */
+export function openSuperheroStore(driver: StorageDriver, file: string): SuperheroStore {
+  switch (driver) {
+    case 'json':
+      return new JsonSuperheroStore(file);
+    case 'sqlite':
+      return new SqliteSuperheroStore(file);
+    case 'memory':
+      return new MemorySuperheroStore(
+        fs.existsSync(file) ? parseSuperheroes(JSON.parse(fs.readFileSync(file, 'utf8'))) : []
+      );
+  }
+}
+
+/**
+ * Raised by {@link copyRoster} when the target already has a roster.
+ */
+export class TargetNotEmptyError extends Error {
+  constructor(
+    readonly location: string,
+    readonly count: number
+  ) {
+    super(`${location} already holds ${count} superheroes`);
+    this.name = 'TargetNotEmptyError';
+  }
+}
+
+/**
+ * Copies the whole roster from one store to another in a single write.
+ *
+ * @returns The number of superheroes copied.
+ * @throws {TargetNotEmptyError} If the target already has superheroes, unless `force` is set.
+ */
+export async function copyRoster(from: SuperheroStore, to: SuperheroStore, { force = false } = {}): Promise<number> {
+  const heroes = await from.load();
+  if (!force) {
+    const existing = await to.load().catch(() => []);
+    if (existing.length > 0) {
+      throw new TargetNotEmptyError(to.location, existing.length);
+    }
+  }
+  await to.replaceAll(heroes);
+  return heroes.length;
+}
@@ -0,0 +1,425 @@
+import {
+  matchesStatFilters,
+  POWERSTAT_NAMES,
+  PowerstatName,
+  STAT_FILTER_OPS,
+  StatFilter,
+  StatFilterOp,
+  Superhero,
+  ValidationIssue
+} from '@superheroes/shared';
+import { z } from 'zod';
+
+/**
+ * Query language for GET /api/superheroes.
+ *
+ *   name=man                substring match on the name (case-insensitive)
+ *   q=spidrman              fuzzy name search, results ordered by relevance
+ *   strength[gte]=80        per-stat range filter (eq, gt, gte, lt, lte); strength=80 means eq
+ *   sort=-power,name        multi-key sort, "-" for descending (keys: id, name, total, any stat)
+ *   limit=20&offset=40      offset pagination
+ *   limit=20&cursor=...     cursor pagination, using the nextCursor of the previous page
+ *                           (sent as the X-Next-Cursor response header)
+ */
+
+export const SORT_KEYS = ['id', 'name', 'total', ...POWERSTAT_NAMES] as const;
+export type SortKey = typeof SORT_KEYS[number];
+
+export const MAX_PAGE_SIZE = 500;
+
+export interface SortField {
+  key: SortKey | 'relevance';
+  descending: boolean;
+}
+
+export interface SuperheroQuery {
+  name?: string;
+  q?: string;
+  stats: StatFilter[];
+  sort: SortField[];
+  limit?: number;
+  offset: number;
+  cursor?: string;
+}
+
+export interface SuperheroPage {
+  items: Superhero[];
+  /** Number of heroes matching the filters, before pagination. */
+  total: number;
+  /** Offset of the first item in the full result (also set for cursor pages). */
+  offset: number;
+  limit?: number;
+  /** Opaque cursor for the page after this one, if there is one. */
+  nextCursor?: string;
+}
+
+export type QueryParseResult = { ok: true; value: SuperheroQuery } | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Raised when a pagination cursor cannot be decoded or does not match the requested sort.
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('cursor is invalid or was produced for a different sort order');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+type QueryValue = undefined | string | QueryObject | QueryValue[];
+interface QueryObject {
+  [key: string]: QueryValue;
+}
+
+const QUERY_PARAMS: readonly string[] = ['name', 'q', 'sort', 'limit', 'offset', 'cursor', ...POWERSTAT_NAMES];
+
+/**
+ * Parses Express's (qs) query object into a {@link SuperheroQuery}.
+ * Parameters this module does not know about are reported as unknown.
+ */
+export function parseSuperheroQuery(query: QueryObject): QueryParseResult {
+  const issues: ValidationIssue[] = [];
+  const result: SuperheroQuery = { stats: [], sort: [], offset: 0 };
+
+  for (const key of Object.keys(query)) {
+    if (!QUERY_PARAMS.includes(key)) issues.push({ path: key, message: 'unknown field' });
+  }
+
+  for (const key of ['name', 'q'] as const) {
+    const value = query[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ path: key, message: `${key} must be a non-empty string` });
+    } else {
+      result[key] = value.trim();
+    }
+  }
+
+  for (const stat of POWERSTAT_NAMES) {
+    const value = query[stat];
+    if (value === undefined) continue;
+    if (typeof value === 'string') {
+      pushStatFilter(result.stats, issues, stat, 'eq', value, stat);
+    } else if (isQueryObject(value)) {
+      for (const [op, raw] of Object.entries(value)) {
+        const path = `${stat}[${op}]`;
+        if (!(STAT_FILTER_OPS as readonly string[]).includes(op)) {
+          issues.push({ path, message: `unknown operator "${op}", expected one of ${STAT_FILTER_OPS.join(', ')}` });
+        } else if (typeof raw !== 'string') {
+          issues.push({ path, message: 'must be given once' });
+        } else {
+          pushStatFilter(result.stats, issues, stat, op as StatFilterOp, raw, path);
+        }
+      }
+    } else {
+      issues.push({ path: stat, message: 'must be given once' });
+    }
+  }
+
+  if (query.sort !== undefined) {
+    if (typeof query.sort !== 'string') {
+      issues.push({ path: 'sort', message: 'must be a comma-separated list of sort keys' });
+    } else {
+      for (const token of query.sort.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const descending = token.startsWith('-');
+        const key = descending ? token.slice(1) : token;
+        if (!(SORT_KEYS as readonly string[]).includes(key)) {
+          issues.push({ path: 'sort', message: `unknown sort key "${key}", expected one of ${SORT_KEYS.join(', ')}` });
+        } else {
+          result.sort.push({ key: key as SortKey, descending });
+        }
+      }
+    }
+  }
+  if (result.sort.length === 0 && result.q) {
+    result.sort.push({ key: 'relevance', descending: true });
+  }
+
+  const limit = parseIntegerParam(query.limit, 'limit', 1, MAX_PAGE_SIZE, issues);
+  if (limit !== undefined) result.limit = limit;
+  const offset = parseIntegerParam(query.offset, 'offset', 0, Number.MAX_SAFE_INTEGER, issues);
+  if (offset !== undefined) result.offset = offset;
+
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string' || query.cursor === '') {
+      issues.push({ path: 'cursor', message: 'must be a cursor returned by a previous page' });
+    } else if (offset !== undefined) {
+      issues.push({ path: 'cursor', message: 'cannot be combined with offset' });
+    } else {
+      result.cursor = query.cursor;
+    }
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: result };
+}
+
+const statFilterParam = (stat: PowerstatName) =>
+  z
+    .union([z.string(), z.record(z.string())])
+    .optional()
+    .describe(`Filter on ${stat}: ${stat}=80 for an exact value, ${stat}[gte]=80 etc. for a range (eq, gt, gte, lt, lte)`);
+
+/**
+ * {@link parseSuperheroQuery} as a schema, for the request validation layer. The object
+ * part only checks the shape of the parameters (and documents them); their values are
+ * checked by the transform.
+ */
+export const SuperheroQuerySchema = z
+  .object({
+    name: z.string().optional().describe('Case-insensitive substring of the name'),
+    q: z.string().optional().describe('Fuzzy name search; results are ordered by relevance unless sorted'),
+    sort: z
+      .string()
+      .optional()
+      .describe(`Comma-separated sort keys, "-" for descending (${SORT_KEYS.join(', ')}), e.g. -power,name`),
+    limit: z.string().optional().describe(`Page size, 1 to ${MAX_PAGE_SIZE}`),
+    offset: z.string().optional().describe('Number of heroes to skip'),
+    cursor: z.string().optional().describe('X-Next-Cursor of the previous page; cannot be combined with offset'),
+    ...(Object.fromEntries(POWERSTAT_NAMES.map((stat) => [stat, statFilterParam(stat)])) as Record<
+      PowerstatName,
+      ReturnType<typeof statFilterParam>
+    >)
+  })
+  .strict()
+  .transform((query, ctx): SuperheroQuery => {
+    const result = parseSuperheroQuery(query as QueryObject);
+    if (result.ok) return result.value;
+    for (const issue of result.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.path], message: issue.message });
+    }
+    return z.NEVER;
+  });
+
+/**
+ * Filters, sorts and paginates the roster.
+ *
+ * Every sort ends with the hero id as a final tie-breaker, so the order is total and
+ * cursors (which encode the sort values of the last item on a page) stay stable even
+ * when heroes are added or removed between requests.
+ *
+ * @throws {InvalidCursorError} If the cursor was not produced for the same sort.
+ */
+export function querySuperheroes(heroes: Superhero[], query: SuperheroQuery): SuperheroPage {
+  const relevance = new Map<Superhero, number>();
+  const nameLc = query.name?.toLowerCase();
+
+  const matches = heroes.filter((hero) => {
+    if (nameLc !== undefined && !hero.name.toLowerCase().includes(nameLc)) return false;
+    if (!matchesStatFilters(hero, query.stats)) return false;
+    if (query.q !== undefined) {
+      const score = fuzzyScore(query.q, hero.name);
+      if (score <= 0) return false;
+      relevance.set(hero, score);
+    }
+    return true;
+  });
+
+  const keyOf = (hero: Superhero): SortValue[] => [
+    ...query.sort.map((field) => sortValue(hero, field.key, relevance)),
+    hero.id
+  ];
+  const directions = [...query.sort.map((field) => (field.descending ? -1 : 1)), 1];
+  const compareKeys = (a: SortValue[], b: SortValue[]): number => {
+    for (let i = 0; i < a.length; i++) {
+      const order = compareValues(a[i], b[i]);
+      if (order !== 0) return order * directions[i];
+    }
+    return 0;
+  };
+
+  const sorted = matches
+    .map((hero) => ({ hero, key: keyOf(hero) }))
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  let start = query.offset;
+  if (query.cursor !== undefined) {
+    const after = decodeCursor(query.cursor, directions.length);
+    const index = sorted.findIndex((entry) => compareKeys(entry.key, after) > 0);
+    start = index === -1 ? sorted.length : index;
+  }
+  const end = query.limit === undefined ? sorted.length : start + query.limit;
+  const page = sorted.slice(start, end);
+
+  const result: SuperheroPage = {
+    items: page.map((entry) => entry.hero),
+    total: sorted.length,
+    offset: start
+  };
+  if (query.limit !== undefined) {
+    result.limit = query.limit;
+    if (end < sorted.length && page.length > 0) {
+      result.nextCursor = encodeCursor(page[page.length - 1].key);
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds an RFC 8288 Link header (first/prev/next/last) for a page, reusing the request's
+ * own query string. Cursor pages only link to the first and next page.
+ *
+ * @param requestUrl The original request path and query, e.g. req.originalUrl
+ * @returns The header value, or undefined when the request was not paginated.
+ */
+export function paginationLinks(requestUrl: string, query: SuperheroQuery, page: SuperheroPage): string | undefined {
+  if (page.limit === undefined) return undefined;
+  const limit = page.limit;
+  const links: string[] = [];
+  const link = (rel: string, params: { offset?: number; cursor?: string }) => {
+    const url = new URL(requestUrl, 'http://localhost');
+    url.searchParams.delete('offset');
+    url.searchParams.delete('cursor');
+    if (params.offset !== undefined) url.searchParams.set('offset', String(params.offset));
+    if (params.cursor !== undefined) url.searchParams.set('cursor', params.cursor);
+    links.push(`<${url.pathname}${url.search}>; rel="${rel}"`);
+  };
+
+  if (query.cursor !== undefined) {
+    link('first', {});
+    if (page.nextCursor) link('next', { cursor: page.nextCursor });
+    return links.join(', ');
+  }
+
+  link('first', { offset: 0 });
+  if (page.offset > 0) link('prev', { offset: Math.max(0, page.offset - limit) });
+  if (page.offset + limit < page.total) link('next', { offset: page.offset + limit });
+  link('last', { offset: page.total === 0 ? 0 : Math.floor((page.total - 1) / limit) * limit });
+  return links.join(', ');
+}
+
+export type SortValue = string | number;
+
+function sortValue(hero: Superhero, key: SortField['key'], relevance: Map<Superhero, number>): SortValue {
+  switch (key) {
+    case 'id':
+      return hero.id;
+    case 'name':
+      return hero.name.toLowerCase();
+    case 'total':
+      return POWERSTAT_NAMES.reduce((sum, stat) => sum + hero.powerstats[stat], 0);
+    case 'relevance':
+      return relevance.get(hero) ?? 0;
+    default:
+      return hero.powerstats[key];
+  }
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+/**
+ * Cursors are the sort key (sort values, then the id) of the last item on a page.
+ */
+export function encodeCursor(key: SortValue[]): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * @throws {InvalidCursorError} If the cursor is malformed or has a different number of sort values.
+ */
+export function decodeCursor(cursor: string, length: number): SortValue[] {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (
+    !Array.isArray(key) ||
+    key.length !== length ||
+    !key.every((value) => typeof value === 'string' || typeof value === 'number')
+  ) {
+    throw new InvalidCursorError();
+  }
+  return key;
+}
+
+/**
+ * Scores how well a fuzzy query matches a name; 0 means no match.
+ *
+ * Exact and prefix matches rank highest, then substrings, then names containing the
+ * query's characters in order (e.g. "spdrmn" -> "Spider-Man"), then names with a word
+ * within a small edit distance of the query (typos such as "battman").
+ */
+export function fuzzyScore(query: string, name: string): number {
+  const q = normalize(query);
+  const n = normalize(name);
+  if (!q) return 0;
+  if (n === q) return 100;
+  if (n.startsWith(q)) return 90;
+  if (n.includes(q)) return 80;
+
+  let position = 0;
+  let gaps = 0;
+  for (const char of q) {
+    const found = n.indexOf(char, position);
+    if (found === -1) {
+      position = -1;
+      break;
+    }
+    gaps += found - position;
+    position = found + 1;
+  }
+  if (position !== -1) return Math.max(41, 70 - gaps);
+
+  const maxDistance = Math.max(1, Math.floor(q.length / 4));
+  const distances = [n, ...name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)].map((word) =>
+    levenshtein(q, word)
+  );
+  const best = Math.min(...distances);
+  return best <= maxDistance ? 40 - best * 10 : 0;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function pushStatFilter(
+  filters: StatFilter[],
+  issues: ValidationIssue[],
+  stat: PowerstatName,
+  op: StatFilterOp,
+  raw: string,
+  path: string
+): void {
+  const value = /^-?\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!Number.isSafeInteger(value)) {
+    issues.push({ path, message: 'must be an integer' });
+  } else {
+    filters.push({ stat, op, value });
+  }
+}
+
+function parseIntegerParam(
+  raw: QueryValue,
+  path: string,
+  min: number,
+  max: number,
+  issues: ValidationIssue[]
+): number | undefined {
+  if (raw === undefined) return undefined;
+  const value = typeof raw === 'string' && /^\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!Number.isSafeInteger(value) || value < min || value > max) {
+    issues.push({ path, message: `must be an integer between ${min} and ${max}` });
+    return undefined;
+  }
+  return value;
+}
+
+function isQueryObject(value: QueryValue): value is QueryObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
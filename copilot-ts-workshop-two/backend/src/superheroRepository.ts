@@ -0,0 +1,241 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { Superhero, SuperheroInput, SuperheroPatch } from '@superheroes/shared';
+import { logger } from './logger.js';
+import { querySuperheroes, SuperheroPage, SuperheroQuery } from './superheroQuery.js';
+import { Mutation, SuperheroStore } from './superheroStore.js';
+
+/**
+ * An immutable, fully indexed copy of the roster. Readers always see one consistent
+ * snapshot; reloads build a new one and swap it in with a single assignment.
+ */
+interface Snapshot {
+  heroes: Superhero[];
+  byId: Map<number, Superhero>;
+  byName: Map<string, Superhero>;
+  version: number;
+  digest: string;
+  modifiedAt: Date;
+}
+
+interface Loaded {
+  heroes: Superhero[];
+  modifiedAt: Date;
+}
+
+const RELOAD_DEBOUNCE_MS = 50;
+
+/**
+ * In-memory view of the superheroes roster backed by a {@link SuperheroStore}.
+ *
+ * The roster is read once, indexed by id and lowercase name, and then watched: whenever
+ * it changes in the store the new contents are validated and swapped in. If the new data
+ * is unreadable or invalid the last good snapshot stays in place.
+ *
+ * Events:
+ * - 'reload' (version: number) after a new snapshot has been swapped in
+ * - 'reloadError' (err: unknown) when changed data could not be loaded
+ */
+export class SuperheroRepository extends EventEmitter {
+  private snapshot: Snapshot | null = null;
+  private loading: Promise<void> | null = null;
+  private unwatch: (() => void) | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private reloadSeq = 0;
+
+  constructor(private readonly store: SuperheroStore) {
+    super();
+  }
+
+  /**
+   * Loads the roster on first use and starts watching the data file.
+   * Concurrent callers share the same load; a failed first load is retried on the next call.
+   *
+   * @throws If the data file cannot be read or is invalid on the first load.
+   */
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.read().then(
+        (loaded) => {
+          this.swap(loaded);
+          this.watch();
+        },
+        (err) => {
+          this.loading = null;
+          throw err;
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  /**
+   * Whether a roster has been loaded, i.e. the readers below can be used.
+   */
+  get loaded(): boolean {
+    return this.snapshot !== null;
+  }
+
+  /**
+   * Monotonic counter that changes every time a new snapshot is swapped in.
+   */
+  get version(): number {
+    return this.current().version;
+  }
+
+  /**
+   * Hash of the roster's contents. Unlike {@link version} it survives restarts and is
+   * the same on every instance serving the same data, so it can be handed to clients.
+   */
+  get digest(): string {
+    return this.current().digest;
+  }
+
+  /**
+   * Modification time of the data file when the current snapshot was read.
+   */
+  get modifiedAt(): Date {
+    return this.current().modifiedAt;
+  }
+
+  all(): Superhero[] {
+    return this.current().heroes;
+  }
+
+  findById(id: number): Superhero | undefined {
+    return this.current().byId.get(id);
+  }
+
+  findByName(name: string): Superhero | undefined {
+    return this.current().byName.get(name.toLowerCase());
+  }
+
+  /**
+   * Filters, sorts and paginates the roster, in the store if it can (e.g. in SQL),
+   * otherwise over the loaded snapshot.
+   *
+   * @throws {InvalidCursorError} If the cursor was not produced for the same sort.
+   */
+  async query(query: SuperheroQuery): Promise<SuperheroPage> {
+    return this.store.query ? this.store.query(query) : querySuperheroes(this.all(), query);
+  }
+
+  async create(input: SuperheroInput): Promise<Superhero> {
+    const hero = await this.store.create(input);
+    await this.reload();
+    return hero;
+  }
+
+  async replace(id: number, input: SuperheroInput): Promise<Superhero | null> {
+    const hero = await this.store.replace(id, input);
+    if (hero) await this.reload();
+    return hero;
+  }
+
+  async patch(id: number, changes: SuperheroPatch): Promise<Superhero | null> {
+    const hero = await this.store.patch(id, changes);
+    if (hero) await this.reload();
+    return hero;
+  }
+
+  async remove(id: number): Promise<boolean> {
+    const removed = await this.store.remove(id);
+    if (removed) await this.reload();
+    return removed;
+  }
+
+  /**
+   * Rewrites the whole roster from the current one in one write, e.g. for an import; see
+   * {@link SuperheroStore.mutateAll}. `change` sees the stored roster, which may be newer
+   * than the snapshot.
+   *
+   * @throws {SuperheroValidationError} If the new roster is invalid; nothing is written.
+   */
+  async mutateAll<T>(change: (heroes: Superhero[], nextId: number) => Mutation<T>): Promise<T> {
+    let changed = false;
+    const result = await this.store.mutateAll((current, nextId) => {
+      const mutation = change(current, nextId);
+      changed = mutation.heroes !== current;
+      return mutation;
+    });
+    if (changed) await this.reload();
+    return result;
+  }
+
+  /**
+   * Re-reads the data file and swaps in the new snapshot.
+   *
+   * @returns true if a new snapshot was swapped in, false if the file was invalid
+   * (the last good snapshot is kept) or a newer reload overtook this one.
+   */
+  async reload(): Promise<boolean> {
+    const seq = ++this.reloadSeq;
+    try {
+      const loaded = await this.read();
+      if (seq !== this.reloadSeq) return false;
+      this.swap(loaded);
+      this.emit('reload', this.version);
+      return true;
+    } catch (err) {
+      logger.error('Error reloading superheroes data, keeping last good copy', { store: this.store.location, err });
+      this.emit('reloadError', err);
+      return false;
+    }
+  }
+
+  /**
+   * Stops watching the store and closes it.
+   */
+  close(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.unwatch?.();
+    this.unwatch = null;
+    this.store.close();
+  }
+
+  private current(): Snapshot {
+    if (!this.snapshot) {
+      throw new Error('Superheroes repository used before ready() resolved');
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Reads the modification time first: if the data changes in between, the recorded time is
+   * older than the contents, which at worst costs a client a needless full response.
+   */
+  private async read(): Promise<Loaded> {
+    const modifiedAt = await this.store.modifiedAt();
+    const heroes = await this.store.load();
+    return { heroes, modifiedAt };
+  }
+
+  private swap({ heroes, modifiedAt }: Loaded): void {
+    const byId = new Map<number, Superhero>();
+    const byName = new Map<string, Superhero>();
+    for (const hero of heroes) {
+      byId.set(hero.id, hero);
+      byName.set(hero.name.toLowerCase(), hero);
+    }
+    const digest = createHash('sha256').update(JSON.stringify(heroes)).digest('base64url').slice(0, 22);
+    this.snapshot = { heroes, byId, byName, version: (this.snapshot?.version ?? 0) + 1, digest, modifiedAt };
+  }
+
+  /**
+   * Reloads (debounced) whenever the store reports an outside change.
+   */
+  private watch(): void {
+    if (this.unwatch) return;
+    this.unwatch = this.store.watch(
+      () => {
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => {
+          this.debounceTimer = null;
+          void this.reload();
+        }, RELOAD_DEBOUNCE_MS);
+        this.debounceTimer.unref();
+      },
+      (err) => logger.error('Error watching superheroes data', { store: this.store.location, err })
+    );
+  }
+}
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import { parseSuperheroes, Superhero, SuperheroInput, SuperheroPatch } from '@superheroes/shared';
+import { HttpError } from './errors.js';
+import { WriteQueue, writeJsonFileAtomically } from './jsonFile.js';
+import { SuperheroPage, SuperheroQuery } from './superheroQuery.js';
+
+/**
+ * Raised when a write would leave two superheroes (or teams) with the same name.
+ * Answered with 409 Conflict.
+ */
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'ConflictError';
+  }
+}
+
+/** A new roster, and what to answer the caller. */
+export interface Mutation<T> {
+  heroes: Superhero[];
+  result: T;
+}
+
+/**
+ * Where the roster is kept. The repository reads it whole and writes one hero at a time;
+ * stores that can search without loading everything also implement {@link query}.
+ *
+ * Writes must be atomic and serialized: concurrent calls never lose updates and a failed
+ * write leaves the roster as it was.
+ */
+export interface SuperheroStore {
+  /** Where the data lives, for logs, e.g. "json:data/superheroes.json". */
+  readonly location: string;
+
+  /**
+   * Reads and validates the full roster.
+   *
+   * @throws If the data cannot be read.
+   * @throws {SuperheroValidationError} If any superhero is malformed.
+   */
+  load(): Promise<Superhero[]>;
+
+  /** When the roster was last written. */
+  modifiedAt(): Promise<Date>;
+
+  /**
+   * Stores a new superhero under a fresh id. Ids are never handed out twice, even after
+   * the hero that had one is removed.
+   */
+  create(input: SuperheroInput): Promise<Superhero>;
+
+  replace(id: number, input: SuperheroInput): Promise<Superhero | null>;
+
+  patch(id: number, changes: SuperheroPatch): Promise<Superhero | null>;
+
+  remove(id: number): Promise<boolean>;
+
+  /**
+   * Replaces the whole roster in a single write, e.g. when migrating between stores.
+   *
+   * @throws {SuperheroValidationError} If the roster is invalid (e.g. duplicate ids).
+   */
+  replaceAll(heroes: Superhero[]): Promise<void>;
+
+  /**
+   * Rewrites the whole roster from the current one in a single write, e.g. for an import.
+   * `change` runs inside the write, so no other write can land between reading the roster
+   * and replacing it. It also gets the lowest id it may give a new hero. The roster is only
+   * rewritten when `change` returns a different array than it was given.
+   *
+   * @returns The result of `change`.
+   * @throws {SuperheroValidationError} If the new roster is invalid; nothing is written.
+   */
+  mutateAll<T>(change: (heroes: Superhero[], nextId: number) => Mutation<T>): Promise<T>;
+
+  /**
+   * Filters, sorts and paginates like querySuperheroes, without loading the roster.
+   */
+  query?(query: SuperheroQuery): Promise<SuperheroPage>;
+
+  /**
+   * Calls `onChange` when the roster is changed from outside this store (by hand or by
+   * another process). Watching must not keep the process alive.
+   *
+   * @returns A function that stops watching.
+   */
+  watch(onChange: () => void, onError: (err: unknown) => void): () => void;
+
+  /** Releases the store's resources. */
+  close(): void;
+}
+
+/**
+ * Base for stores that keep the roster as one list and rewrite it on every change.
+ * Writes are serialized through a queue, so concurrent requests cannot lose updates.
+ */
+abstract class ListSuperheroStore {
+  private readonly writeQueue = new WriteQueue();
+
+  abstract load(): Promise<Superhero[]>;
+
+  protected abstract write(heroes: Superhero[]): Promise<void>;
+
+  /** The lowest id that may be handed out; 1 if it was never written. */
+  protected abstract readNextId(): Promise<number>;
+
+  protected abstract writeNextId(id: number): Promise<void>;
+
+  create(input: SuperheroInput): Promise<Superhero> {
+    return this.mutate(async (heroes) => {
+      assertUniqueName(heroes, input.name);
+      const hero: Superhero = { id: Math.max(await this.readNextId(), nextFreeId(heroes)), ...input };
+      return { heroes: [...heroes, hero], result: hero };
+    });
+  }
+
+  replace(id: number, input: SuperheroInput): Promise<Superhero | null> {
+    return this.mutate((heroes) => {
+      const index = heroes.findIndex((hero) => hero.id === id);
+      if (index === -1) return { heroes, result: null };
+      assertUniqueName(heroes, input.name, id);
+      const hero: Superhero = { id, ...input };
+      return { heroes: withReplaced(heroes, index, hero), result: hero };
+    });
+  }
+
+  patch(id: number, changes: SuperheroPatch): Promise<Superhero | null> {
+    return this.mutate((heroes) => {
+      const index = heroes.findIndex((hero) => hero.id === id);
+      if (index === -1) return { heroes, result: null };
+      const current = heroes[index];
+      if (changes.name !== undefined) assertUniqueName(heroes, changes.name, id);
+      const hero: Superhero = {
+        id,
+        name: changes.name ?? current.name,
+        image: changes.image ?? current.image,
+        powerstats: { ...current.powerstats, ...changes.powerstats }
+      };
+      return { heroes: withReplaced(heroes, index, hero), result: hero };
+    });
+  }
+
+  remove(id: number): Promise<boolean> {
+    return this.mutate((heroes) => {
+      const remaining = heroes.filter((hero) => hero.id !== id);
+      return { heroes: remaining, result: remaining.length !== heroes.length };
+    });
+  }
+
+  async replaceAll(heroes: Superhero[]): Promise<void> {
+    const roster = parseSuperheroes(heroes);
+    await this.writeQueue.run(async () => {
+      // A missing or broken roster is being replaced, and has no ids to keep
+      await this.countIds(await this.load().catch(() => []));
+      await this.write(roster);
+    });
+  }
+
+  mutateAll<T>(change: (heroes: Superhero[], nextId: number) => Mutation<T>): Promise<T> {
+    return this.mutate(async (current) => {
+      const { heroes, result } = change(current, Math.max(await this.readNextId(), nextFreeId(current)));
+      return { heroes: heroes === current ? current : parseSuperheroes(heroes), result };
+    });
+  }
+
+  /**
+   * Runs a read-modify-write cycle under the write queue. The roster is only rewritten
+   * when the mutation returns a different array than it was given.
+   */
+  private mutate<T>(apply: (heroes: Superhero[]) => Mutation<T> | Promise<Mutation<T>>): Promise<T> {
+    return this.writeQueue.run(async () => {
+      const current = await this.load();
+      const { heroes, result } = await apply(current);
+      if (heroes !== current) {
+        await this.countIds(current);
+        await this.write(heroes);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Moves the id counter past every id in the roster about to be rewritten, so none of
+   * them is handed out again once its hero is removed. Counted before the roster is
+   * written: a failed write may skip an id, but never reuses one.
+   */
+  private async countIds(heroes: Superhero[]): Promise<void> {
+    const next = nextFreeId(heroes);
+    if (next > (await this.readNextId())) await this.writeNextId(next);
+  }
+}
+
+/**
+ * Keeps the roster in a JSON file.
+ *
+ * Reads go straight to the file. Writes replace it atomically (write to a temp file,
+ * then rename over the original), so a crash never leaves a truncated file. The id
+ * counter lives next to it, e.g. superheroes.meta.json for superheroes.json.
+ */
+export class JsonSuperheroStore extends ListSuperheroStore implements SuperheroStore {
+  constructor(readonly filePath: string) {
+    super();
+  }
+
+  get location(): string {
+    return `json:${this.filePath}`;
+  }
+
+  /**
+   * @throws If the file cannot be read or does not contain valid JSON.
+   * @throws {SuperheroValidationError} If any superhero in the file is malformed.
+   */
+  async load(): Promise<Superhero[]> {
+    const data = await fs.promises.readFile(this.filePath, 'utf8');
+    return parseSuperheroes(JSON.parse(data));
+  }
+
+  async modifiedAt(): Promise<Date> {
+    return (await fs.promises.stat(this.filePath)).mtime;
+  }
+
+  /**
+   * Watches the file's directory rather than the file itself: atomic writes replace the
+   * file via rename, which would silently detach a watcher bound to the old inode.
+   * Also sees this store's own writes, which the repository's reload then skips over.
+   */
+  watch(onChange: () => void, onError: (err: unknown) => void): () => void {
+    const fileName = path.basename(this.filePath);
+    const watcher = fs.watch(path.dirname(this.filePath), (_event, changed) => {
+      if (changed === fileName) onChange();
+    });
+    watcher.on('error', onError);
+    watcher.unref();
+    return () => watcher.close();
+  }
+
+  close(): void {}
+
+  protected write(heroes: Superhero[]): Promise<void> {
+    return writeJsonFileAtomically(this.filePath, heroes);
+  }
+
+  protected async readNextId(): Promise<number> {
+    try {
+      const { nextId } = JSON.parse(await fs.promises.readFile(this.metaPath, 'utf8'));
+      return Number.isSafeInteger(nextId) ? nextId : 1;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 1;
+      throw err;
+    }
+  }
+
+  protected writeNextId(id: number): Promise<void> {
+    return writeJsonFileAtomically(this.metaPath, { nextId: id });
+  }
+
+  private get metaPath(): string {
+    return this.filePath.replace(/(\.json)?$/, '.meta.json');
+  }
+}
+
+/**
+ * Keeps the roster in process memory, starting from a copy of `heroes`. Nothing is
+ * persisted, which suits tests and throwaway demo instances.
+ */
+export class MemorySuperheroStore extends ListSuperheroStore implements SuperheroStore {
+  readonly location = 'memory';
+  private heroes: Superhero[];
+  private writtenAt = new Date();
+  private nextId = 1;
+
+  constructor(heroes: Superhero[] = []) {
+    super();
+    this.heroes = parseSuperheroes(heroes);
+  }
+
+  async load(): Promise<Superhero[]> {
+    return this.heroes;
+  }
+
+  async modifiedAt(): Promise<Date> {
+    return this.writtenAt;
+  }
+
+  // Nothing else can change the roster
+  watch(): () => void {
+    return () => {};
+  }
+
+  close(): void {}
+
+  protected async write(heroes: Superhero[]): Promise<void> {
+    this.heroes = heroes;
+    this.writtenAt = new Date();
+  }
+
+  protected async readNextId(): Promise<number> {
+    return this.nextId;
+  }
+
+  protected async writeNextId(id: number): Promise<void> {
+    this.nextId = id;
+  }
+}
+
+function assertUniqueName(heroes: Superhero[], name: string, exceptId?: number): void {
+  const nameLc = name.toLowerCase();
+  if (heroes.some((hero) => hero.id !== exceptId && hero.name.toLowerCase() === nameLc)) {
+    throw new ConflictError(`A superhero named "${name}" already exists`);
+  }
+}
+
+function nextFreeId(heroes: Superhero[]): number {
+  return heroes.reduce((max, hero) => Math.max(max, hero.id), 0) + 1;
+}
+
+function withReplaced(heroes: Superhero[], index: number, hero: Superhero): Superhero[] {
+  const copy = [...heroes];
+  copy[index] = hero;
+  return copy;
+}
@@ -0,0 +1,130 @@
+import { POWERSTAT_NAMES, PowerstatName, Powerstats, Superhero, Winner } from '@superheroes/shared';
+import { z } from 'zod';
+import { idParam } from './validation.js';
+
+export const MAX_TEAM_SIZE = 5;
+
+/**
+ * Body of POST /api/teams.
+ */
+export const TeamInputSchema = z
+  .object({
+    name: z.string({ required_error: 'name is required' }).trim().min(1, 'must not be empty').max(100),
+    members: z
+      .array(z.number().int().positive(), { required_error: 'members is required' })
+      .min(1, 'a team needs at least one member')
+      .max(MAX_TEAM_SIZE, `a team has at most ${MAX_TEAM_SIZE} members`)
+      .refine((ids) => new Set(ids).size === ids.length, 'members must be unique')
+  })
+  .strict();
+
+export type TeamInput = z.infer<typeof TeamInputSchema>;
+
+export interface Team extends TeamInput {
+  id: number;
+  created_at: string;
+}
+
+/**
+ * How a team's powerstats are combined into one value per category:
+ * - sum:     all members' values added up (bigger squads have the edge)
+ * - average: the mean over the members
+ * - best:    the single best member in that category
+ */
+export const TEAM_AGGREGATES = ['sum', 'average', 'best'] as const;
+export type TeamAggregate = typeof TEAM_AGGREGATES[number];
+
+export const DEFAULT_TEAM_AGGREGATE: TeamAggregate = 'average';
+
+/**
+ * Query of GET /api/teams/compare.
+ */
+export const TeamCompareQuerySchema = z
+  .object({
+    id1: idParam(),
+    id2: idParam(),
+    aggregate: z.enum(TEAM_AGGREGATES).default(DEFAULT_TEAM_AGGREGATE)
+  })
+  .strict();
+
+export type TeamStats = Record<TeamAggregate, Powerstats>;
+
+/**
+ * Combines the members' powerstats with every aggregate. Averages are rounded to two
+ * decimals.
+ */
+export function aggregateTeam(members: Superhero[]): TeamStats {
+  const per = (combine: (values: number[]) => number) =>
+    Object.fromEntries(
+      POWERSTAT_NAMES.map((stat) => [stat, combine(members.map((hero) => hero.powerstats[stat]))])
+    ) as Powerstats;
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    sum: per(sum),
+    average: per((values) => Math.round((sum(values) / values.length) * 100) / 100),
+    best: per((values) => Math.max(...values))
+  };
+}
+
+export interface TeamCategoryResult {
+  name: PowerstatName;
+  winner: Winner;
+  id1_value: number;
+  id2_value: number;
+}
+
+export interface TeamSummary {
+  id: number;
+  name: string;
+  members: Array<{ id: number; name: string }>;
+  stats: TeamStats;
+}
+
+/**
+ * Response body of GET /api/teams/compare. As for heroes, winners are 1 or 2 (the
+ * position of the team in the request), and the team winning more categories wins
+ * overall.
+ */
+export interface TeamComparison {
+  id1: number;
+  id2: number;
+  aggregate: TeamAggregate;
+  teams: [TeamSummary, TeamSummary];
+  categories: TeamCategoryResult[];
+  overall_winner: Winner;
+}
+
+export function compareTeams(
+  team1: { team: Team; members: Superhero[] },
+  team2: { team: Team; members: Superhero[] },
+  aggregate: TeamAggregate = DEFAULT_TEAM_AGGREGATE
+): TeamComparison {
+  const summaries = [team1, team2].map(({ team, members }): TeamSummary => ({
+    id: team.id,
+    name: team.name,
+    members: members.map((hero) => ({ id: hero.id, name: hero.name })),
+    stats: aggregateTeam(members)
+  })) as [TeamSummary, TeamSummary];
+
+  let score1 = 0;
+  let score2 = 0;
+  const categories = POWERSTAT_NAMES.map((name): TeamCategoryResult => {
+    const id1_value = summaries[0].stats[aggregate][name];
+    const id2_value = summaries[1].stats[aggregate][name];
+    let winner: Winner = 'tie';
+    if (id1_value > id2_value) {
+      winner = 1;
+      score1++;
+    } else if (id2_value > id1_value) {
+      winner = 2;
+      score2++;
+    }
+    return { name, winner, id1_value, id2_value };
+  });
+
+  let overall_winner: Winner = 'tie';
+  if (score1 > score2) overall_winner = 1;
+  else if (score2 > score1) overall_winner = 2;
+
+  return { id1: team1.team.id, id2: team2.team.id, aggregate, teams: summaries, categories, overall_winner };
+}
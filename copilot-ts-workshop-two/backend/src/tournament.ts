@@ -0,0 +1,360 @@
+import {
+  compareTwo,
+  DEFAULT_SCORING_STRATEGY,
+  POWERSTAT_NAMES,
+  resolveWeights,
+  SCORING_STRATEGY_NAMES,
+  ScoringOptions,
+  StatWeightsSchema,
+  StrategyReport,
+  Superhero,
+  TwoHeroComparison
+} from '@superheroes/shared';
+import { z } from 'zod';
+import { compareMany, Standing } from './compare.js';
+
+export const TOURNAMENT_FORMATS = ['single-elimination', 'double-elimination', 'round-robin'] as const;
+export type TournamentFormat = typeof TOURNAMENT_FORMATS[number];
+
+/**
+ * How entrants are seeded (seed 1 is the favourite):
+ * - total-stats: highest sum of powerstats first
+ * - id:          ascending hero id
+ * - as-given:    the order of the request's hero list (roster order for "all")
+ * - random:      a shuffle driven by the request's `seed`, so it can be replayed
+ */
+export const SEEDING_RULES = ['total-stats', 'id', 'as-given', 'random'] as const;
+export type SeedingRule = typeof SEEDING_RULES[number];
+
+export const MAX_TOURNAMENT_HEROES = 128;
+
+/**
+ * Body of POST /api/tournaments.
+ */
+export const TournamentRequestSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    heroes: z.union([
+      z.literal('all'),
+      z
+        .array(z.number().int().positive())
+        .min(2, 'at least two heroes are required')
+        .max(MAX_TOURNAMENT_HEROES, `at most ${MAX_TOURNAMENT_HEROES} heroes can enter a tournament`)
+        .refine((ids) => new Set(ids).size === ids.length, 'hero ids must be unique')
+    ]),
+    format: z.enum(TOURNAMENT_FORMATS),
+    seeding: z.enum(SEEDING_RULES).default('total-stats'),
+    seed: z.number().int().default(0),
+    strategy: z.enum(SCORING_STRATEGY_NAMES).optional(),
+    weights: StatWeightsSchema.optional()
+  })
+  .strict();
+
+export type TournamentRequest = z.infer<typeof TournamentRequestSchema>;
+
+export interface Entrant {
+  seed: number;
+  id: number;
+  name: string;
+}
+
+export type Bracket = 'winners' | 'losers' | 'grand-final' | 'round-robin';
+
+/**
+ * Why a match went the way it did. Elimination matches always need a winner, so a tied
+ * score falls back to categories won, then total stats, then the better seed.
+ */
+export type DecidedBy = 'score' | 'category_wins' | 'total_stats' | 'seed' | 'bye' | 'tie';
+
+export interface TournamentMatch {
+  id: string;
+  bracket: Bracket;
+  round: number;
+  hero1: Entrant;
+  /** null when hero1 advances on a bye. */
+  hero2: Entrant | null;
+  /** Winning hero id; null only for a drawn round-robin match. */
+  winner: number | null;
+  decided_by: DecidedBy;
+  comparison: TwoHeroComparison | null;
+}
+
+export interface TournamentRound {
+  name: string;
+  bracket: Bracket;
+  round: number;
+  matches: TournamentMatch[];
+}
+
+export interface Tournament {
+  id: number;
+  name: string;
+  format: TournamentFormat;
+  seeding: SeedingRule;
+  seed: number;
+  created_at: string;
+  strategy: StrategyReport;
+  entrants: Entrant[];
+  rounds: TournamentRound[];
+  champion: Entrant;
+  /** Final table, for round-robin tournaments only. */
+  standings?: Standing[];
+}
+
+/**
+ * Everything about a tournament except its identity, as produced by {@link runTournament}.
+ */
+export type TournamentResult = Omit<Tournament, 'id' | 'name' | 'created_at'>;
+
+/**
+ * Seeds the heroes and plays every match. The outcome depends only on the heroes'
+ * stats and the request, so running the same request twice yields the same bracket.
+ */
+export function runTournament(heroes: Superhero[], request: TournamentRequest): TournamentResult {
+  const scoring: ScoringOptions = { strategy: request.strategy, weights: request.weights };
+  const seeded = seedHeroes(heroes, request.seeding, request.seed);
+  const entrants = seeded.map((hero, index): Entrant => ({ seed: index + 1, id: hero.id, name: hero.name }));
+  const byId = new Map(seeded.map((hero) => [hero.id, hero]));
+  const play = new MatchPlayer(byId, scoring);
+
+  let rounds: TournamentRound[];
+  let champion: Entrant;
+  let standings: Standing[] | undefined;
+  if (request.format === 'round-robin') {
+    ({ rounds, champion, standings } = runRoundRobin(entrants, seeded, play, scoring));
+  } else if (request.format === 'single-elimination') {
+    ({ rounds, champion } = runWinnersBracket(entrants, play, false));
+  } else {
+    ({ rounds, champion } = runDoubleElimination(entrants, play));
+  }
+
+  const result: TournamentResult = {
+    format: request.format,
+    seeding: request.seeding,
+    seed: request.seed,
+    strategy: { name: request.strategy ?? DEFAULT_SCORING_STRATEGY, weights: resolveWeights(request.weights) },
+    entrants,
+    rounds,
+    champion
+  };
+  if (standings) result.standings = standings;
+  return result;
+}
+
+class MatchPlayer {
+  constructor(
+    private readonly heroes: Map<number, Superhero>,
+    private readonly scoring: ScoringOptions
+  ) {}
+
+  /**
+   * Plays one match. With `allowTie` a drawn score is recorded as a tie instead of
+   * being broken.
+   */
+  play(id: string, bracket: Bracket, round: number, a: Entrant, b: Entrant | null, allowTie = false) {
+    if (!b) {
+      const match: TournamentMatch = {
+        id, bracket, round, hero1: a, hero2: null, winner: a.id, decided_by: 'bye', comparison: null
+      };
+      return { match, winner: a, loser: null };
+    }
+    const comparison = compareTwo(this.heroes.get(a.id)!, this.heroes.get(b.id)!, this.scoring);
+    let winner: Entrant | null;
+    let decidedBy: DecidedBy = 'score';
+    if (comparison.overall_winner !== 'tie') {
+      winner = comparison.overall_winner === 1 ? a : b;
+    } else if (allowTie) {
+      winner = null;
+      decidedBy = 'tie';
+    } else {
+      ({ winner, decidedBy } = this.breakTie(a, b, comparison));
+    }
+    const match: TournamentMatch = {
+      id, bracket, round, hero1: a, hero2: b, winner: winner?.id ?? null, decided_by: decidedBy, comparison
+    };
+    return { match, winner, loser: winner === null ? null : winner === a ? b : a };
+  }
+
+  private breakTie(a: Entrant, b: Entrant, comparison: TwoHeroComparison): { winner: Entrant; decidedBy: DecidedBy } {
+    const aCategories = comparison.categories.filter((cat) => cat.winner === 1).length;
+    const bCategories = comparison.categories.filter((cat) => cat.winner === 2).length;
+    if (aCategories !== bCategories) {
+      return { winner: aCategories > bCategories ? a : b, decidedBy: 'category_wins' };
+    }
+    const aTotal = totalStats(this.heroes.get(a.id)!);
+    const bTotal = totalStats(this.heroes.get(b.id)!);
+    if (aTotal !== bTotal) {
+      return { winner: aTotal > bTotal ? a : b, decidedBy: 'total_stats' };
+    }
+    return { winner: a.seed < b.seed ? a : b, decidedBy: 'seed' };
+  }
+}
+
+function runRoundRobin(entrants: Entrant[], heroes: Superhero[], player: MatchPlayer, scoring: ScoringOptions) {
+  // Circle method: every entrant meets every other one exactly once, spread over n - 1 rounds
+  const slots: Array<Entrant | null> = entrants.length % 2 === 0 ? [...entrants] : [...entrants, null];
+  const rounds: TournamentRound[] = [];
+  for (let round = 1; round < slots.length; round++) {
+    const matches: TournamentMatch[] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (a && b) {
+        const [home, away] = a.seed < b.seed ? [a, b] : [b, a];
+        matches.push(player.play(`RR${round}-${matches.length + 1}`, 'round-robin', round, home, away, true).match);
+      }
+    }
+    rounds.push({ name: `Round ${round}`, bracket: 'round-robin', round, matches });
+    slots.splice(1, 0, slots.pop()!);
+  }
+  const standings = compareMany(heroes, scoring).standings;
+  const champion = entrants.find((entrant) => entrant.id === standings[0].id)!;
+  return { rounds, champion, standings };
+}
+
+function runWinnersBracket(entrants: Entrant[], player: MatchPlayer, double: boolean) {
+  const size = nextPowerOfTwo(entrants.length);
+  let slots: Array<Entrant | null> = bracketOrder(size).map((seed) => entrants[seed - 1] ?? null);
+  const rounds: TournamentRound[] = [];
+  const losersByRound: Entrant[][] = [];
+  const totalRounds = Math.log2(size);
+
+  for (let round = 1; slots.length > 1; round++) {
+    const matches: TournamentMatch[] = [];
+    const next: Entrant[] = [];
+    const losers: Entrant[] = [];
+    for (let i = 0; i < slots.length; i += 2) {
+      // Standard seeding never pairs two byes, so at least one side is present
+      const [a, b] = slots[i] ? [slots[i]!, slots[i + 1]] : [slots[i + 1]!, null];
+      const result = player.play(`${double ? 'W' : 'R'}${round}-${i / 2 + 1}`, 'winners', round, a, b);
+      matches.push(result.match);
+      next.push(result.winner!);
+      if (result.loser) losers.push(result.loser);
+    }
+    rounds.push({ name: roundName(round, totalRounds, double), bracket: 'winners', round, matches });
+    losersByRound.push(losers);
+    slots = next;
+  }
+  return { rounds, champion: slots[0]!, losersByRound };
+}
+
+function runDoubleElimination(entrants: Entrant[], player: MatchPlayer) {
+  const winners = runWinnersBracket(entrants, player, true);
+  const rounds = [...winners.rounds];
+  let survivors: Entrant[] = [];
+  let lbRound = 0;
+
+  const playLosersRound = (pairs: Array<[Entrant, Entrant | null]>) => {
+    lbRound++;
+    const matches = pairs.map(([a, b], index) =>
+      player.play(`L${lbRound}-${index + 1}`, 'losers', lbRound, a, b)
+    );
+    rounds.push({ name: `Losers Round ${lbRound}`, bracket: 'losers', round: lbRound, matches: matches.map((m) => m.match) });
+    return matches.map((m) => m.winner!);
+  };
+
+  winners.losersByRound.forEach((dropped, index) => {
+    if (index === 0) {
+      survivors = playLosersRound(pairAdjacent(dropped));
+    } else if (dropped.length > 0) {
+      // Alternate the drop-in order to avoid immediate rematches from the winners bracket
+      const incoming = index % 2 === 1 ? [...dropped].reverse() : dropped;
+      survivors = playLosersRound(zipPairs(survivors, incoming));
+    }
+    const nextDropped = winners.losersByRound[index + 1]?.length ?? 0;
+    while (survivors.length > Math.max(1, nextDropped)) {
+      survivors = playLosersRound(pairAdjacent(survivors));
+    }
+  });
+
+  const final = player.play('GF-1', 'grand-final', 1, winners.champion, survivors[0]);
+  rounds.push({ name: 'Grand Final', bracket: 'grand-final', round: 1, matches: [final.match] });
+  if (final.winner === winners.champion) {
+    return { rounds, champion: winners.champion };
+  }
+  // The winners' champion has only lost once, so a second final decides it
+  const reset = player.play('GF-2', 'grand-final', 2, winners.champion, survivors[0]);
+  rounds.push({ name: 'Grand Final Reset', bracket: 'grand-final', round: 2, matches: [reset.match] });
+  return { rounds, champion: reset.winner! };
+}
+
+function seedHeroes(heroes: Superhero[], rule: SeedingRule, seed: number): Superhero[] {
+  const byId = [...heroes].sort((a, b) => a.id - b.id);
+  switch (rule) {
+    case 'as-given':
+      return [...heroes];
+    case 'id':
+      return byId;
+    case 'total-stats':
+      return byId.sort((a, b) => totalStats(b) - totalStats(a));
+    case 'random': {
+      const random = mulberry32(seed);
+      for (let i = byId.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [byId[i], byId[j]] = [byId[j], byId[i]];
+      }
+      return byId;
+    }
+  }
+}
+
+/**
+ * Small seeded PRNG, so random seeding is reproducible from the stored seed.
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed positions for a bracket of the given size, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6],
+ * so the top seeds can only meet in the latest possible round.
+ */
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap((seed) => [seed, length + 1 - seed]);
+  }
+  return order;
+}
+
+function roundName(round: number, totalRounds: number, double: boolean): string {
+  if (double) return `Winners Round ${round}`;
+  if (round === totalRounds) return 'Final';
+  if (round === totalRounds - 1) return 'Semifinals';
+  if (round === totalRounds - 2) return 'Quarterfinals';
+  return `Round ${round}`;
+}
+
+function pairAdjacent(entrants: Entrant[]): Array<[Entrant, Entrant | null]> {
+  const pairs: Array<[Entrant, Entrant | null]> = [];
+  for (let i = 0; i < entrants.length; i += 2) {
+    pairs.push([entrants[i], entrants[i + 1] ?? null]);
+  }
+  return pairs;
+}
+
+function zipPairs(first: Entrant[], second: Entrant[]): Array<[Entrant, Entrant | null]> {
+  const pairs: Array<[Entrant, Entrant | null]> = [];
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    const a = first[i] ?? second[i];
+    const b = first[i] ? second[i] ?? null : null;
+    pairs.push([a, b]);
+  }
+  return pairs;
+}
+
+function nextPowerOfTwo(n: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(n)));
+}
+
+function totalStats(hero: Superhero): number {
+  return POWERSTAT_NAMES.reduce((sum, stat) => sum + hero.powerstats[stat], 0);
+}
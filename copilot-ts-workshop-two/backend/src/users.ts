@@ -0,0 +1,133 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { z } from 'zod';
+
+/**
+ * Roles, from least to most privileged. Every role can do what the ones before it can:
+ * - viewer: read the roster, comparisons, tournaments and teams
+ * - editor: also create, change and delete superheroes, tournaments and teams
+ * - admin:  also manage users and their API keys
+ */
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  /** scrypt$<salt>$<hash>, see {@link hashPassword}. */
+  password_hash: string;
+  created_at: string;
+}
+
+/**
+ * A user as the API shows it: everything but the password hash.
+ */
+export type PublicUser = Omit<User, 'password_hash'>;
+
+export function publicUser({ password_hash, ...user }: User): PublicUser {
+  return user;
+}
+
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  name: string;
+  /** First characters of the key, so users can tell their keys apart. */
+  prefix: string;
+  /** SHA-256 of the key; the key itself is only shown once, when it is created. */
+  key_hash: string;
+  created_at: string;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+
+export function publicApiKey({ key_hash, ...key }: ApiKey): PublicApiKey {
+  return key;
+}
+
+const PasswordSchema = z
+  .string({ required_error: 'password is required' })
+  .min(8, 'must be at least 8 characters')
+  .max(200);
+
+/**
+ * Body of POST /api/v1/users.
+ */
+export const UserInputSchema = z
+  .object({
+    username: z
+      .string({ required_error: 'username is required' })
+      .regex(/^[\w.-]{3,50}$/, 'must be 3 to 50 letters, digits, dots, dashes or underscores'),
+    password: PasswordSchema,
+    role: z.enum(ROLES)
+  })
+  .strict();
+
+/**
+ * Body of PATCH /api/v1/users/:id.
+ */
+export const UserPatchSchema = z
+  .object({
+    password: PasswordSchema.optional(),
+    role: z.enum(ROLES).optional()
+  })
+  .strict();
+
+/**
+ * Body of POST /api/v1/auth/login.
+ */
+export const LoginSchema = z
+  .object({
+    username: z.string({ required_error: 'username is required' }),
+    password: z.string({ required_error: 'password is required' })
+  })
+  .strict();
+
+/**
+ * Body of POST /api/v1/users/:id/api-keys.
+ */
+export const ApiKeyInputSchema = z
+  .object({
+    name: z.string({ required_error: 'name is required' }).trim().min(1, 'must not be empty').max(100)
+  })
+  .strict();
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export const API_KEY_PREFIX = 'shk_';
+
+/**
+ * Creates a new random API key and the hash to store for it.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = API_KEY_PREFIX + randomBytes(24).toString('base64url');
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) };
+}
+
+/**
+ * API keys are long random strings, so a fast unsalted hash is enough to keep them
+ * unusable if the key file leaks.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
@@ -0,0 +1,101 @@
+import { formatIssue, validate } from '@superheroes/shared';
+import { RequestHandler } from 'express';
+import { z } from 'zod';
+import { HttpError } from './errors.js';
+
+/**
+ * Schemas for the parts of a request a route accepts. A route without a query schema
+ * accepts no query parameters at all; a route without a params or body schema leaves
+ * those untouched.
+ */
+export interface RequestSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+}
+
+type Output<S extends RequestSchemas, K extends keyof RequestSchemas, Fallback> = S extends {
+  [key in K]: infer Schema extends z.ZodTypeAny;
+}
+  ? z.output<Schema>
+  : Fallback;
+
+/**
+ * Handler type generated from the schemas: req.params, req.query and req.body carry
+ * the parsed (and transformed) values.
+ */
+export type ValidatedHandler<S extends RequestSchemas> = RequestHandler<
+  Output<S, 'params', Record<string, string>>,
+  unknown,
+  Output<S, 'body', unknown>,
+  Output<S, 'query', Record<string, never>>
+>;
+
+export interface ValidationOptions {
+  /** Status for an invalid body (default 400); resources answer 422 Unprocessable Entity. */
+  bodyStatus?: number;
+}
+
+/**
+ * Middleware created by {@link validateRequest}. The schemas and options stay attached
+ * so the routes can be introspected (e.g. to generate API documentation).
+ */
+export type ValidationMiddleware<S extends RequestSchemas> = ValidatedHandler<S> & {
+  schemas: S;
+  options: ValidationOptions;
+};
+
+export function isValidationMiddleware(handler: unknown): handler is ValidationMiddleware<RequestSchemas> {
+  return typeof handler === 'function' && 'schemas' in handler && 'options' in handler;
+}
+
+const NoQuerySchema = z.object({}).strict();
+
+const LOCATIONS = [
+  ['params', 'path parameters'],
+  ['query', 'query parameters'],
+  ['body', 'request body']
+] as const;
+
+/**
+ * Validates params, query and body (in that order) against zod schemas and replaces
+ * them with the parsed values. The first invalid part is answered with a problem
+ * listing every issue in it.
+ */
+export function validateRequest<S extends RequestSchemas>(
+  schemas: S,
+  options: ValidationOptions = {}
+): ValidationMiddleware<S> {
+  const middleware: RequestHandler = (req, res, next) => {
+    for (const [location, label] of LOCATIONS) {
+      const schema = location === 'query' ? schemas.query ?? NoQuerySchema : schemas[location];
+      if (!schema) continue;
+      const result = validate(schema, req[location]);
+      if (!result.ok) {
+        const status = location === 'body' ? options.bodyStatus ?? 400 : 400;
+        const detail = `Invalid ${label}: ${result.issues.map(formatIssue).join('; ')}`;
+        next(new HttpError(status, detail, { errors: result.issues }));
+        return;
+      }
+      req[location] = result.value;
+    }
+    next();
+  };
+  return Object.assign(middleware, { schemas, options }) as unknown as ValidationMiddleware<S>;
+}
+
+/**
+ * A positive integer id sent as a string (path or query parameter). Rejects "", "1e3",
+ * " 2 ", "-1", "0" and "01".
+ */
+export function idParam() {
+  return z
+    .string({ required_error: 'is required', invalid_type_error: 'must be given once' })
+    .regex(/^[1-9]\d*$/, 'must be a positive integer')
+    .transform(Number);
+}
+
+/**
+ * Route params of /:id routes.
+ */
+export const IdParamsSchema = z.object({ id: idParam() });
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { signJwt, verifyJwt } from '../src/jwt';
+import { hashPassword, verifyPassword } from '../src/users';
+
+// Users and API keys are stored next to the roster, so use a private copy
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+process.env.SUPERHEROES_ADMIN_PASSWORD = 'correct horse';
+
+const { default: app, repository } = await import('../src/server');
+
+const newHero = {
+  name: 'Auth Hero',
+  image: 'https://example.com/auth-hero.jpg',
+  powerstats: { intelligence: 50, strength: 60, speed: 70, durability: 80, power: 90, combat: 100 }
+};
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function login(username: string, password: string): Promise<string> {
+  const response = await request(app).post('/api/v1/auth/login').send({ username, password });
+  expect(response.status).toBe(200);
+  return `Bearer ${response.body.token}`;
+}
+
+describe('passwords and tokens', () => {
+  it('should verify a password only against its own hash', async () => {
+    const hash = await hashPassword('hunter22');
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(await verifyPassword('hunter22', hash)).toBe(true);
+    expect(await verifyPassword('hunter23', hash)).toBe(false);
+  });
+
+  it('should reject tampered, foreign and expired tokens', () => {
+    const secret = Buffer.from('secret');
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt({ sub: '1', role: 'viewer', iat: now, exp: now + 60 }, secret);
+    expect(verifyJwt(token, secret).role).toBe('viewer');
+
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: '1', role: 'admin', iat: now, exp: now + 60 })).toString('base64url');
+    expect(() => verifyJwt(`${header}.${forged}.${signature}`, secret)).toThrow('Invalid token signature');
+    expect(() => verifyJwt(token, Buffer.from('other'))).toThrow('Invalid token signature');
+    expect(() => verifyJwt(token, secret, (now + 61) * 1000)).toThrow('Token has expired');
+    expect(() => verifyJwt('not.a-token', secret)).toThrow('Malformed token');
+  });
+});
+
+describe('authentication', () => {
+  it('should let anonymous callers read but not write', async () => {
+    expect((await request(app).get('/api/v1/superheroes/1')).status).toBe(200);
+
+    const response = await request(app).post('/api/v1/superheroes').send(newHero);
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toMatch(/^Bearer/);
+    expect(response.body.detail).toBe('Authentication required');
+  });
+
+  it('should log in the bootstrap admin and reject wrong passwords', async () => {
+    const wrong = await request(app).post('/api/v1/auth/login').send({ username: 'admin', password: 'nope' });
+    expect(wrong.status).toBe(401);
+    const unknown = await request(app).post('/api/v1/auth/login').send({ username: 'nobody', password: 'nope' });
+    expect(unknown.status).toBe(401);
+
+    const response = await request(app).post('/api/v1/auth/login').send({ username: 'admin', password: 'correct horse' });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ token_type: 'Bearer', expires_in: 3600, user: { username: 'admin', role: 'admin' } });
+    expect(response.body.user).not.toHaveProperty('password_hash');
+
+    const me = await request(app).get('/api/v1/auth/me').set('Authorization', `Bearer ${response.body.token}`);
+    expect(me.body).toMatchObject({ username: 'admin', role: 'admin', via: 'token' });
+  });
+
+  it('should answer 401 for invalid credentials instead of treating them as anonymous', async () => {
+    for (const [header, value] of [
+      ['Authorization', 'Bearer not-a-token'],
+      ['Authorization', 'Basic YWRtaW46YWRtaW4='],
+      ['X-API-Key', 'shk_unknown']
+    ]) {
+      const response = await request(app).get('/api/v1/superheroes/1').set(header, value);
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toMatch(/error="invalid_token"/);
+    }
+  });
+});
+
+describe('roles and user administration', () => {
+  it('should enforce viewer, editor and admin roles', async () => {
+    const admin = await login('admin', 'correct horse');
+    for (const [username, role] of [['vic', 'viewer'], ['eddie', 'editor']]) {
+      const created = await request(app)
+        .post('/api/v1/users')
+        .set('Authorization', admin)
+        .send({ username, password: 'password123', role });
+      expect(created.status).toBe(201);
+      expect(created.headers.location).toBe(`/api/v1/users/${created.body.id}`);
+    }
+    const viewer = await login('vic', 'password123');
+    const editor = await login('eddie', 'password123');
+
+    expect((await request(app).get('/api/v1/superheroes/1').set('Authorization', viewer)).status).toBe(200);
+    const denied = await request(app).post('/api/v1/superheroes').set('Authorization', viewer).send(newHero);
+    expect(denied.status).toBe(403);
+    expect(denied.body.detail).toBe('Requires the editor role');
+    const created = await request(app).post('/api/v1/superheroes').set('Authorization', editor).send(newHero);
+    expect(created.status).toBe(201);
+
+    expect((await request(app).get('/api/v1/users').set('Authorization', editor)).status).toBe(403);
+    const users = await request(app).get('/api/v1/users').set('Authorization', admin);
+    expect(users.body.map(user => user.username)).toEqual(['admin', 'vic', 'eddie']);
+    expect(users.body[0]).not.toHaveProperty('password_hash');
+
+    const stored = JSON.parse(fs.readFileSync(path.join(tmpDir, 'users.json'), 'utf8'));
+    expect(JSON.stringify(stored)).not.toContain('password123');
+  });
+
+  it('should reject duplicate usernames and weak passwords', async () => {
+    const admin = await login('admin', 'correct horse');
+    const duplicate = await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', admin)
+      .send({ username: 'VIC', password: 'password123', role: 'viewer' });
+    expect(duplicate.status).toBe(409);
+    const weak = await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', admin)
+      .send({ username: 'weak', password: 'short', role: 'viewer' });
+    expect(weak.status).toBe(422);
+    expect(weak.body.errors).toEqual([{ path: 'password', message: 'must be at least 8 characters' }]);
+  });
+
+  it('should never remove or demote the last admin', async () => {
+    const admin = await login('admin', 'correct horse');
+    const demote = await request(app).patch('/api/v1/users/1').set('Authorization', admin).send({ role: 'editor' });
+    expect(demote.status).toBe(409);
+    const remove = await request(app).delete('/api/v1/users/1').set('Authorization', admin);
+    expect(remove.status).toBe(409);
+  });
+
+  it('should keep one admin when two are demoted or removed at once', async () => {
+    const admin = await login('admin', 'correct horse');
+    const created = await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', admin)
+      .send({ username: 'ada', password: 'password123', role: 'admin' });
+    const adaId = created.body.id;
+
+    const [demote, remove] = await Promise.all([
+      request(app).patch('/api/v1/users/1').set('Authorization', admin).send({ role: 'viewer' }),
+      request(app).delete(`/api/v1/users/${adaId}`).set('Authorization', admin)
+    ]);
+    expect([demote.status, remove.status].sort()).toEqual([200, 409].sort());
+    const users = await request(app).get('/api/v1/users').set('Authorization', admin);
+    expect(users.body.filter(user => user.role === 'admin')).toHaveLength(1);
+
+    // Tokens carry their role, so this one can still put things back
+    expect((await request(app).patch('/api/v1/users/1').set('Authorization', admin).send({ role: 'admin' })).status)
+      .toBe(200);
+    if (remove.status === 409) {
+      expect((await request(app).delete(`/api/v1/users/${adaId}`).set('Authorization', admin)).status).toBe(204);
+    }
+  });
+
+  it('should authenticate with API keys until they are revoked', async () => {
+    const admin = await login('admin', 'correct horse');
+    const users = await request(app).get('/api/v1/users').set('Authorization', admin);
+    const eddie = users.body.find(user => user.username === 'eddie');
+
+    const created = await request(app)
+      .post(`/api/v1/users/${eddie.id}/api-keys`)
+      .set('Authorization', admin)
+      .send({ name: 'importer' });
+    expect(created.status).toBe(201);
+    const { key, id } = created.body;
+    expect(key).toMatch(/^shk_/);
+    expect(key.startsWith(created.body.prefix)).toBe(true);
+
+    const listed = await request(app).get(`/api/v1/users/${eddie.id}/api-keys`).set('Authorization', admin);
+    expect(listed.body).toEqual([expect.objectContaining({ id, name: 'importer' })]);
+    expect(listed.body[0]).not.toHaveProperty('key');
+    expect(listed.body[0]).not.toHaveProperty('key_hash');
+
+    const me = await request(app).get('/api/v1/auth/me').set('X-API-Key', key);
+    expect(me.body).toMatchObject({ username: 'eddie', role: 'editor', via: 'api-key' });
+    const patched = await request(app)
+      .patch('/api/v1/superheroes/1')
+      .set('Authorization', `Bearer ${key}`)
+      .send({ powerstats: { speed: 20 } });
+    expect(patched.status).toBe(200);
+
+    const revoked = await request(app).delete(`/api/v1/users/${eddie.id}/api-keys/${id}`).set('Authorization', admin);
+    expect(revoked.status).toBe(204);
+    expect((await request(app).get('/api/v1/auth/me').set('X-API-Key', key)).status).toBe(401);
+  });
+});
@@ -0,0 +1,84 @@
+import request from 'supertest';
+import app from '../src/server';
+import { compareMany } from '../src/compare';
+
+function hero(id: number, stats: number[]) {
+  const [intelligence, strength, speed, durability, power, combat] = stats;
+  return {
+    id,
+    name: `Hero ${id}`,
+    image: `${id}.jpg`,
+    powerstats: { intelligence, strength, speed, durability, power, combat }
+  };
+}
+
+describe('compareMany', () => {
+  it('should share ranks between equal category values', () => {
+    const result = compareMany([hero(1, [50, 1, 1, 1, 1, 1]), hero(2, [70, 1, 1, 1, 1, 1]), hero(3, [50, 1, 1, 1, 1, 1])]);
+    expect(result.categories[0]).toEqual({
+      name: 'intelligence',
+      ranking: [
+        { id: 2, value: 70, rank: 1 },
+        { id: 1, value: 50, rank: 2 },
+        { id: 3, value: 50, rank: 2 }
+      ]
+    });
+  });
+
+  it('should break a points tie by head-to-head result before category wins', () => {
+    const result = compareMany([
+      hero(1, [90, 50, 10, 10, 50, 50]),
+      hero(2, [90, 50, 50, 10, 50, 50]),
+      hero(3, [90, 50, 90, 90, 10, 10]),
+      hero(4, [10, 10, 50, 90, 90, 90])
+    ]);
+    // 3 and 4 both finish on 2 points; 4 won more categories overall, but 3 beat 4 directly
+    expect(result.matrix[2][3]).toBe(3);
+    expect(result.matrix[3][2]).toBe(2);
+    expect(result.standings.map(s => [s.rank, s.id, s.points, s.category_wins])).toEqual([
+      [1, 3, 2, 7],
+      [2, 4, 2, 9],
+      [3, 2, 1.5, 5],
+      [4, 1, 0.5, 4]
+    ]);
+    expect(result.tiebreakers).toEqual(['points', 'head_to_head_points', 'category_wins', 'total_stats', 'lowest_id']);
+  });
+});
+
+describe('POST /api/superheroes/compare', () => {
+  it('should rank the requested heroes', async () => {
+    const response = await request(app).post('/api/superheroes/compare').send({ ids: [1, 2, 3] });
+    expect(response.status).toBe(200);
+    expect(response.body.ids).toEqual([1, 2, 3]);
+    expect(response.body.matrix).toEqual([
+      [null, 3, 2],
+      [3, null, 1],
+      [4, 4, null]
+    ]);
+    expect(response.body.standings.map(s => [s.rank, s.id, s.points])).toEqual([
+      [1, 3, 2],
+      [2, 1, 0.5],
+      [3, 2, 0.5]
+    ]);
+  });
+
+  it('should return 400 for fewer than two or duplicate ids', async () => {
+    const tooFew = await request(app).post('/api/superheroes/compare').send({ ids: [1] });
+    expect(tooFew.status).toBe(400);
+    const duplicates = await request(app).post('/api/superheroes/compare').send({ ids: [1, 1] });
+    expect(duplicates.status).toBe(400);
+    expect(duplicates.body.errors[0].message).toBe('ids must be unique');
+  });
+
+  it('should return 404 listing every unknown id', async () => {
+    const response = await request(app).post('/api/superheroes/compare').send({ ids: [1, 998, 999] });
+    expect(response.status).toBe(404);
+    expect(response.body.detail).toBe('Superhero not found: 998, 999');
+  });
+
+  it('should keep the GET comparison shape', async () => {
+    const response = await request(app).get('/api/superheroes/compare?id1=1&id2=3');
+    expect(Object.keys(response.body)).toEqual(expect.arrayContaining(['id1', 'id2', 'categories', 'overall_winner']));
+    expect(response.body.overall_winner).toBe(2);
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { ConfigError, loadConfig } from '../src/config';
+import { DEFAULT_CACHE_POLICIES } from '../src/httpCache';
+
+const defaults = { dataFile: '/srv/superheroes.json' };
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-config-'));
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeConfigFile(contents: unknown): string {
+  const file = path.join(tmpDir, `config-${Math.random().toString(36).slice(2)}.json`);
+  fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return file;
+}
+
+function problemsOf(load: () => unknown) {
+  try {
+    load();
+  } catch (err) {
+    if (err instanceof ConfigError) return err.problems;
+    throw err;
+  }
+  throw new Error('Expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+  it('should fall back to defaults', () => {
+    expect(loadConfig({ defaults })).toEqual({
+      port: 3000,
+      dataFile: '/srv/superheroes.json',
+      storage: 'json',
+      sqliteFile: '/srv/superheroes.db',
+      corsOrigins: [],
+      logLevel: 'info',
+      shutdownTimeout: 10_000,
+      cache: DEFAULT_CACHE_POLICIES,
+      auth: { tokenTtl: 3600, anonymousRole: 'viewer', adminUsername: 'admin' },
+      features: { docs: true, metrics: true, legacyApi: true }
+    });
+  });
+
+  it('should let flags override the environment, and the environment the config file', () => {
+    const configFile = writeConfigFile({ port: 4000, host: '127.0.0.1', logLevel: 'warn', dataFile: 'heroes.json' });
+    const config = loadConfig({
+      argv: ['--config', configFile, '--port=5000', '--no-docs', '--cors-origins', 'http://localhost:3001/, *'],
+      env: { PORT: '4500', LOG_LEVEL: 'debug', CACHE_ITEM_MAX_AGE: '120', FEATURE_METRICS: 'false' },
+      defaults
+    });
+    expect(config).toMatchObject({
+      port: 5000,
+      host: '127.0.0.1',
+      logLevel: 'debug',
+      // Relative to the config file
+      dataFile: path.join(tmpDir, 'heroes.json'),
+      corsOrigins: ['http://localhost:3001', '*'],
+      cache: { item: { maxAge: 120, scope: 'public' } },
+      features: { docs: false, metrics: false, legacyApi: true }
+    });
+  });
+
+  it('should read the config file named by SUPERHEROES_CONFIG', () => {
+    const configFile = writeConfigFile({ auth: { anonymousRole: 'none' } });
+    expect(loadConfig({ env: { SUPERHEROES_CONFIG: configFile }, defaults }).auth.anonymousRole).toBe('none');
+  });
+
+  it('should report every invalid value with where it came from', () => {
+    const configFile = writeConfigFile({ cache: { list: { maxAge: -1 } }, colour: 'red' });
+    const problems = problemsOf(() =>
+      loadConfig({
+        argv: ['--config', configFile, '--log-level', 'loud', '--frobnicate'],
+        env: { PORT: 'abc', AUTH_SECRET: 'short', FEATURE_DOCS: 'maybe' },
+        defaults
+      })
+    );
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        { key: '--frobnicate', message: 'Unknown option' },
+        expect.objectContaining({ key: 'port', source: 'PORT=abc' }),
+        expect.objectContaining({ key: 'logLevel', source: '--log-level=loud' }),
+        expect.objectContaining({ key: 'cache.list.maxAge', source: `config file ${configFile}` }),
+        { key: 'colour', message: 'Unknown setting', source: `config file ${configFile}` },
+        // Secret values are never echoed
+        { key: 'auth.secret', message: 'must be at least 16 characters', source: 'AUTH_SECRET' },
+        { key: 'features.docs', message: 'Expected true or false', source: 'FEATURE_DOCS=maybe' }
+      ])
+    );
+    expect(problems).toHaveLength(7);
+  });
+
+  it('should explain unreadable config files', () => {
+    const problems = problemsOf(() => loadConfig({ argv: ['--config', writeConfigFile('{ port: ')], defaults }));
+    expect(problems).toEqual([expect.objectContaining({ key: '(config file)' })]);
+  });
+
+  it('should list the problems in the error message', () => {
+    expect(() => loadConfig({ env: { PORT: '70000' }, defaults })).toThrow(
+      /^Invalid configuration:\n  - port: Number must be less than or equal to 65535 \(from PORT=70000\)$/
+    );
+  });
+});
+
+describe('createApp options', () => {
+  const dataFile = path.join(process.cwd(), 'data/superheroes.json');
+  const auth = { secret: Buffer.from('test secret'), anonymousRole: 'viewer' as const };
+
+  it('should leave out disabled features', async () => {
+    const { app } = createApp({ dataFile, auth, features: { docs: false, metrics: false, legacyApi: false } });
+    expect((await request(app).get('/api/openapi.json')).status).toBe(404);
+    expect((await request(app).get('/metrics')).status).toBe(404);
+    expect((await request(app).get('/api/superheroes')).status).toBe(404);
+  });
+
+  it('should let allowed origins call the API from browsers', async () => {
+    const { app } = createApp({ dataFile, auth, corsOrigins: ['http://localhost:3001'] });
+    const preflight = await request(app)
+      .options('/api/v1/superheroes/1')
+      .set('Origin', 'http://localhost:3001')
+      .set('Access-Control-Request-Method', 'PATCH');
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers['access-control-allow-origin']).toBe('http://localhost:3001');
+    expect(preflight.headers['access-control-allow-methods']).toContain('PATCH');
+
+    // Pagination totals and cursors, and export file names, are readable by the page
+    const page = await request(app).get('/api/v1/superheroes?limit=1').set('Origin', 'http://localhost:3001');
+    expect(page.headers['x-next-cursor']).toBeDefined();
+    const exposed = page.headers['access-control-expose-headers'].split(', ');
+    expect(exposed).toEqual(expect.arrayContaining(['X-Total-Count', 'X-Next-Cursor', 'Content-Disposition']));
+
+    const other = await request(app).get('/healthz').set('Origin', 'http://evil.example');
+    expect(other.headers['access-control-allow-origin']).toBeUndefined();
+    expect(other.headers.vary).toContain('Origin');
+  });
+});
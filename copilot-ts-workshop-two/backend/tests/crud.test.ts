@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+
+// Work on a private copy of the roster so write tests never touch data/superheroes.json
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+
+const { default: app, auth, repository } = await import('../src/server');
+
+const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+
+const newHero = {
+  name: 'Test Hero',
+  image: 'https://example.com/test-hero.jpg',
+  powerstats: { intelligence: 50, strength: 60, speed: 70, durability: 80, power: 90, combat: 100 }
+};
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('POST /api/superheroes', () => {
+  it('should create a superhero with a server-assigned id', async () => {
+    const before = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    const maxId = Math.max(...before.map(hero => hero.id));
+
+    const response = await request(app).post('/api/superheroes').set('Authorization', editor).send(newHero);
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ id: maxId + 1, ...newHero });
+    expect(response.headers.location).toBe(`/api/superheroes/${maxId + 1}`);
+
+    const after = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    expect(after).toHaveLength(before.length + 1);
+    expect(after[after.length - 1]).toEqual(response.body);
+  });
+
+  it('should point Location at the version the hero was created through', async () => {
+    const response = await request(app).post('/api/v1/superheroes').set('Authorization', editor).send({ ...newHero, name: 'Versioned' });
+    expect(response.status).toBe(201);
+    expect(response.headers.location).toBe(`/api/v1/superheroes/${response.body.id}`);
+  });
+
+  it('should return 409 if a superhero with the same name exists', async () => {
+    const response = await request(app).post('/api/superheroes').set('Authorization', editor).send({ ...newHero, name: 'a-bomb' });
+    expect(response.status).toBe(409);
+    expect(response.body.detail).toMatch(/already exists/);
+  });
+
+  it('should return 422 for invalid powerstats', async () => {
+    const response = await request(app)
+      .post('/api/superheroes').set('Authorization', editor)
+      .send({ ...newHero, name: 'Broken', powerstats: { ...newHero.powerstats, speed: 101, combat: 1.5 } });
+    expect(response.status).toBe(422);
+    expect(response.body.errors.map(issue => issue.path)).toEqual(['powerstats.speed', 'powerstats.combat']);
+  });
+
+  it('should return 422 when the client supplies an id or misses fields', async () => {
+    const response = await request(app).post('/api/superheroes').set('Authorization', editor).send({ id: 5, name: 'No Stats' });
+    expect(response.status).toBe(422);
+    expect(response.body.errors.map(issue => issue.path).sort()).toEqual(['id', 'image', 'powerstats']);
+  });
+});
+
+describe('PUT /api/superheroes/:id', () => {
+  it('should replace an existing superhero', async () => {
+    const replacement = { ...newHero, name: 'Ant-Man Reloaded' };
+    const response = await request(app).put('/api/superheroes/2').set('Authorization', editor).send(replacement);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 2, ...replacement });
+
+    const fetched = await request(app).get('/api/superheroes/2');
+    expect(fetched.body).toEqual({ id: 2, ...replacement });
+  });
+
+  it('should return 404 for an unknown superhero', async () => {
+    const response = await request(app).put('/api/superheroes/9999').set('Authorization', editor).send(newHero);
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 when renaming onto an existing name', async () => {
+    const response = await request(app).put('/api/superheroes/2').set('Authorization', editor).send({ ...newHero, name: 'Bane' });
+    expect(response.status).toBe(409);
+  });
+});
+
+describe('PATCH /api/superheroes/:id', () => {
+  it('should merge individual powerstats', async () => {
+    const response = await request(app).patch('/api/superheroes/1').set('Authorization', editor).send({ powerstats: { speed: 99 } });
+    expect(response.status).toBe(200);
+    expect(response.body.name).toBe('A-Bomb');
+    expect(response.body.powerstats).toEqual({
+      intelligence: 38,
+      strength: 100,
+      speed: 99,
+      durability: 80,
+      power: 24,
+      combat: 64
+    });
+  });
+
+  it('should return 422 for unknown fields', async () => {
+    const response = await request(app).patch('/api/superheroes/1').set('Authorization', editor).send({ alias: 'Rick' });
+    expect(response.status).toBe(422);
+    expect(response.body.errors[0].path).toBe('alias');
+  });
+});
+
+describe('DELETE /api/superheroes/:id', () => {
+  it('should delete a superhero and return 204', async () => {
+    const response = await request(app).delete('/api/superheroes/3').set('Authorization', editor);
+    expect(response.status).toBe(204);
+
+    const fetched = await request(app).get('/api/superheroes/3');
+    expect(fetched.status).toBe(404);
+  });
+
+  it('should return 404 for an unknown superhero', async () => {
+    const response = await request(app).delete('/api/superheroes/3').set('Authorization', editor);
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('concurrent writes', () => {
+  it('should not lose updates or leave temp files behind', async () => {
+    const names = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon'];
+    const responses = await Promise.all(
+      names.map(name => request(app).post('/api/superheroes').set('Authorization', editor).send({ ...newHero, name }))
+    );
+    const ids = responses.map(response => response.body.id);
+    expect(new Set(ids).size).toBe(names.length);
+
+    const heroes = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    names.forEach(name => expect(heroes.some(hero => hero.name === name)).toBe(true));
+    expect(fs.readdirSync(tmpDir).sort()).toEqual(['superheroes.json', 'superheroes.meta.json']);
+  });
+});
@@ -0,0 +1,67 @@
+import { jest } from '@jest/globals';
+import request from 'supertest';
+import app, { repository } from '../src/server';
+import { logger } from '../src/logger';
+
+describe('problem+json error responses', () => {
+  it('should describe a missing superhero as an RFC 7807 problem', async () => {
+    const response = await request(app).get('/api/superheroes/9999').set('X-Request-Id', 'trace-123');
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(response.headers['x-request-id']).toBe('trace-123');
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Superhero not found',
+      instance: '/api/superheroes/9999',
+      request_id: 'trace-123'
+    });
+  });
+
+  it('should answer unknown routes with a 404 problem', async () => {
+    const response = await request(app).delete('/api/villains');
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({ status: 404, detail: 'No route for DELETE /api/villains' });
+  });
+
+  it('should generate a request id when none or an unusable one is sent', async () => {
+    const response = await request(app).get('/api/nowhere').set('X-Request-Id', 'bad id\twith spaces');
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body.request_id).toBe(response.headers['x-request-id']);
+  });
+
+  it('should report validation issues as errors', async () => {
+    const response = await request(app).post('/api/superheroes/compare').send({ ids: [1] });
+    expect(response.status).toBe(400);
+    expect(response.body.title).toBe('Bad Request');
+    expect(response.body.errors).toEqual([{ path: 'ids', message: 'at least two ids are required' }]);
+  });
+
+  it('should reject malformed JSON bodies with a 400 problem', async () => {
+    const response = await request(app)
+      .post('/api/superheroes')
+      .set('Content-Type', 'application/json')
+      .send('{"name": ');
+    expect(response.status).toBe(400);
+    expect(response.body.type).toBe('about:blank');
+  });
+
+  it('should hide the cause of unexpected errors', async () => {
+    const ready = jest.spyOn(repository, 'ready').mockRejectedValueOnce(new Error('disk on fire'));
+    const logError = jest.spyOn(logger, 'error');
+    try {
+      const response = await request(app).get('/api/superheroes/1');
+      expect(response.status).toBe(500);
+      expect(response.body.title).toBe('Internal Server Error');
+      expect(response.body.detail).not.toMatch(/disk/);
+      expect(logError).toHaveBeenCalledWith(
+        'Error handling request',
+        expect.objectContaining({ request_id: response.body.request_id })
+      );
+    } finally {
+      ready.mockRestore();
+      logError.mockRestore();
+    }
+  });
+});
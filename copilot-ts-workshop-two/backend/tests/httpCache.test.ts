@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { cacheControlHeader } from '../src/httpCache';
+
+// Edits change the validators, so work on a private copy of the roster
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+
+const { default: app, auth, repository } = await import('../src/server');
+
+const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('cacheControlHeader', () => {
+  it('should allow reuse for max-age seconds, or ask for revalidation', () => {
+    expect(cacheControlHeader({ maxAge: 60, scope: 'public' })).toBe('public, max-age=60');
+    expect(cacheControlHeader({ maxAge: 0, scope: 'private' })).toBe('private, no-cache');
+  });
+});
+
+describe('conditional requests', () => {
+  it('should send a strong ETag, Last-Modified and Cache-Control', async () => {
+    const response = await request(app).get('/api/v1/superheroes');
+    expect(response.status).toBe(200);
+    expect(response.headers.etag).toMatch(/^"[\w-]+"$/);
+    expect(new Date(response.headers['last-modified']).getTime()).toBe(
+      Math.floor(fs.statSync(dataFile).mtimeMs / 1000) * 1000
+    );
+    expect(response.headers['cache-control']).toBe('public, no-cache');
+
+    const hero = await request(app).get('/api/v1/superheroes/1');
+    expect(hero.headers.etag).toBe(response.headers.etag);
+    expect(hero.headers['cache-control']).toBe('public, max-age=60');
+  });
+
+  it('should answer 304 with no body when If-None-Match matches', async () => {
+    const { headers } = await request(app).get('/api/v1/superheroes');
+    const urls = ['/api/v1/superheroes', '/api/superheroes/1/powerstats', '/api/v2/superheroes/compare?id1=1&id2=2'];
+    for (const url of urls) {
+      const response = await request(app).get(url).set('If-None-Match', `"stale", ${headers.etag}`);
+      expect(response.status).toBe(304);
+      expect(response.text).toBe('');
+      expect(response.headers.etag).toBe(headers.etag);
+    }
+  });
+
+  it('should answer 304 when unchanged since If-Modified-Since', async () => {
+    const { headers } = await request(app).get('/api/v1/superheroes/2');
+    const response = await request(app).get('/api/v1/superheroes/2').set('If-Modified-Since', headers['last-modified']);
+    expect(response.status).toBe(304);
+  });
+
+  it('should let If-None-Match take precedence over If-Modified-Since', async () => {
+    const { headers } = await request(app).get('/api/v1/superheroes/2');
+    const response = await request(app)
+      .get('/api/v1/superheroes/2')
+      .set('If-None-Match', '"stale"')
+      .set('If-Modified-Since', headers['last-modified']);
+    expect(response.status).toBe(200);
+    expect(response.body.id).toBe(2);
+  });
+
+  it('should validate the request before answering 304', async () => {
+    const { headers } = await request(app).get('/api/v1/superheroes');
+    const response = await request(app).get('/api/v1/superheroes?nmae=x').set('If-None-Match', headers.etag);
+    expect(response.status).toBe(400);
+  });
+
+  it('should never cache problems', async () => {
+    const { headers } = await request(app).get('/api/v1/superheroes/1');
+    const response = await request(app).get('/api/v1/superheroes/9999');
+    expect(response.status).toBe(404);
+    expect(response.headers.etag).not.toBe(headers.etag);
+    expect(response.headers).not.toHaveProperty('last-modified');
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+
+  it('should change the ETag when the roster is edited', async () => {
+    const before = await request(app).get('/api/v1/superheroes');
+    const patched = await request(app).patch('/api/v1/superheroes/1').set('Authorization', editor).send({ name: 'A-Bomb Prime' });
+    expect(patched.status).toBe(200);
+
+    const after = await request(app).get('/api/v1/superheroes').set('If-None-Match', before.headers.etag);
+    expect(after.status).toBe(200);
+    expect(after.headers.etag).not.toBe(before.headers.etag);
+    expect(after.body[0].name).toBe('A-Bomb Prime');
+  });
+
+  it('should tell clients to revalidate tournaments and teams', async () => {
+    const response = await request(app).get('/api/v1/teams');
+    expect(response.status).toBe(200);
+    expect(response.headers['cache-control']).toBe('private, no-cache');
+  });
+});
@@ -0,0 +1,128 @@
+import { jest } from '@jest/globals';
+import http from 'http';
+import path from 'path';
+import request from 'supertest';
+import app, { repository } from '../src/server';
+import { createApp, SuperheroesApp } from '../src/app';
+import { RunningServer, startServer } from '../src/lifecycle';
+
+const dataFile = path.join(process.cwd(), 'data/superheroes.json');
+
+function newInstance(): SuperheroesApp {
+  return createApp({ dataFile, auth: { secret: Buffer.from('test secret'), anonymousRole: 'viewer' } });
+}
+
+/**
+ * Sends a GET over a keep-alive connection, like a load balancer or browser would.
+ */
+function get(url: string, agent: http.Agent): Promise<{ status?: number; connection?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, { agent }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode, connection: res.headers.connection, body }));
+      })
+      .on('error', reject);
+  });
+}
+
+describe('GET /healthz', () => {
+  it('should report the process as live', async () => {
+    const response = await request(app).get('/healthz');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ status: 'ok', uptime: expect.any(Number) });
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+});
+
+describe('GET /readyz', () => {
+  it('should describe the loaded dataset', async () => {
+    const response = await request(app).get('/readyz');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      status: 'ready',
+      dataset: {
+        heroes: repository.all().length,
+        version: repository.version,
+        digest: repository.digest,
+        modified_at: repository.modifiedAt.toISOString()
+      }
+    });
+  });
+
+  it('should fail while the data cannot be loaded', async () => {
+    const instance = newInstance();
+    jest.spyOn(instance.context.repository, 'ready').mockRejectedValueOnce(new Error('disk on fire'));
+    const response = await request(instance.app).get('/readyz');
+    expect(response.status).toBe(503);
+    expect(response.body.detail).toBe('Superheroes data cannot be loaded');
+  });
+
+  it('should fail once the server is draining', async () => {
+    const instance = newInstance();
+    instance.lifecycle.draining = true;
+    const response = await request(instance.app).get('/readyz');
+    expect(response.status).toBe(503);
+    expect(response.body.detail).toBe('Server is shutting down');
+    expect(response.headers.connection).toBe('close');
+  });
+});
+
+describe('startServer', () => {
+  let instance: SuperheroesApp;
+  let running: RunningServer;
+  let agent: http.Agent;
+
+  // Holds the next roster request until the test releases it
+  function stallNextRequest() {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    jest.spyOn(instance.context.repository, 'ready').mockImplementationOnce(() => released);
+    return release;
+  }
+
+  async function start(shutdownTimeout: number) {
+    instance = newInstance();
+    await instance.context.repository.ready();
+    running = await startServer(instance, { port: 0, host: '127.0.0.1', shutdownTimeout });
+    agent = new http.Agent({ keepAlive: true });
+  }
+
+  afterEach(async () => {
+    agent.destroy();
+    await running.shutdown();
+  });
+
+  it('should serve the app until shut down', async () => {
+    await start(1000);
+    expect((await get(`${running.url}/healthz`, agent)).status).toBe(200);
+    expect(await running.shutdown()).toBe(true);
+    await expect(get(`${running.url}/healthz`, new http.Agent())).rejects.toThrow(/ECONNREFUSED/);
+  });
+
+  it('should let in-flight requests finish before closing', async () => {
+    await start(5000);
+    const release = stallNextRequest();
+    const pending = get(`${running.url}/api/v1/superheroes/1`, agent);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const stopped = running.shutdown();
+    expect(running.server.listening).toBe(false);
+    release();
+    const response = await pending;
+    expect(response.status).toBe(200);
+    expect(response.connection).toBe('close');
+    expect(await stopped).toBe(true);
+  });
+
+  it('should cut off requests still running after the shutdown timeout', async () => {
+    await start(50);
+    stallNextRequest();
+    const pending = get(`${running.url}/api/v1/superheroes/1`, agent);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await running.shutdown()).toBe(false);
+    await expect(pending).rejects.toThrow(/socket hang up/);
+  });
+});
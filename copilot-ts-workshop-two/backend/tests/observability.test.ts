@@ -0,0 +1,104 @@
+import express from 'express';
+import request from 'supertest';
+import app, { repository } from '../src/server';
+import { Logger } from '../src/logger';
+import { createMetrics } from '../src/metrics';
+import { observeRequests, routeLabeler, UNMATCHED_ROUTE } from '../src/observability';
+
+describe('Logger', () => {
+  it('should write JSON lines at or above its level, with child fields and expanded errors', () => {
+    const lines: string[] = [];
+    const log = Logger.create('info', (line) => lines.push(line));
+    log.debug('hidden');
+    log.child({ component: 'test' }).error('failed', { err: new Error('boom') });
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 'error',
+      msg: 'failed',
+      component: 'test',
+      err: { name: 'Error', message: 'boom' }
+    });
+  });
+});
+
+describe('routeLabeler', () => {
+  const labelRoute = routeLabeler(app);
+
+  it('should label requests with the pattern of the route serving them', () => {
+    expect(labelRoute('GET', '/api/v1/superheroes/7')).toBe('/api/v1/superheroes/:id');
+    expect(labelRoute('HEAD', '/api/v2/superheroes/compare')).toBe('/api/v2/superheroes/compare');
+    expect(labelRoute('GET', '/api/superheroes/7/')).toBe('/api/superheroes/:id');
+  });
+
+  it('should put requests no route serves under one label', () => {
+    expect(labelRoute('GET', '/nowhere/1')).toBe(UNMATCHED_ROUTE);
+    expect(labelRoute('DELETE', '/api/v1/superheroes')).toBe(UNMATCHED_ROUTE);
+  });
+});
+
+describe('request logs', () => {
+  const lines: string[] = [];
+  const observed = express();
+  observed.use((req, res, next) => {
+    res.locals.requestId = 'req-1';
+    next();
+  });
+  const log = Logger.create('info', (line) => lines.push(line));
+  observed.use(observeRequests(log, createMetrics(repository), () => '/x/:id'));
+  observed.get('/x/:id', (req, res) => {
+    res.status(req.params.id === 'gone' ? 404 : 200).send('ok');
+  });
+
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  it('should log one line per request with its route, status and latency', async () => {
+    await request(observed).get('/x/1?verbose=1');
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({
+      level: 'info',
+      msg: 'request',
+      request_id: 'req-1',
+      method: 'GET',
+      route: '/x/:id',
+      path: '/x/1',
+      status: 200,
+      user: null
+    });
+    expect(entry.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should log client errors as warnings', async () => {
+    await request(observed).get('/x/gone');
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'warn', status: 404 });
+  });
+});
+
+describe('GET /metrics', () => {
+  it('should count requests by route and status', async () => {
+    await request(app).get('/api/v1/superheroes/1');
+    const response = await request(app).get('/metrics');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+    expect(response.text).toMatch(
+      /^http_requests_total\{method="GET",route="\/api\/v1\/superheroes\/:id",status="200"\} [1-9]/m
+    );
+    expect(response.text).toMatch(/^http_request_duration_seconds_bucket\{.*route="\/api\/v1\/superheroes\/:id"/m);
+  });
+
+  it('should count comparisons and report the roster size', async () => {
+    await request(app).get('/api/v1/superheroes/compare?id1=1&id2=2');
+    await request(app).get('/api/v2/superheroes/compare?id1=1&id2=3');
+    const { text } = await request(app).get('/metrics');
+    expect(text).toMatch(/^superhero_comparisons_total\{kind="pair"\} 2$/m);
+    expect(text).toMatch(new RegExp(`^superheroes_dataset_size ${repository.all().length}$`, 'm'));
+  });
+
+  it('should count data reloads', async () => {
+    await repository.reload();
+    const { text } = await request(app).get('/metrics');
+    expect(text).toMatch(/^superheroes_data_reloads_total\{result="success"\} [1-9]/m);
+  });
+});
@@ -0,0 +1,82 @@
+import request from 'supertest';
+import app from '../src/server';
+import { listRoutes, toOpenApiPath } from '../src/openapi';
+
+describe('GET /api/openapi.json', () => {
+  it('should document every route registered on the app', async () => {
+    const response = await request(app).get('/api/openapi.json');
+    expect(response.status).toBe(200);
+    expect(response.body.openapi).toBe('3.1.0');
+
+    const routes = listRoutes(app).map(route => `${route.method.toUpperCase()} ${route.path}`);
+    expect(routes.length).toBeGreaterThan(10);
+    for (const prefix of ['/api/v1', '/api/v2', '/api']) {
+      expect(routes).toContain(`GET ${prefix}/superheroes/:id`);
+    }
+    const missing = routes.filter(route => {
+      const [method, path] = route.split(' ');
+      return !response.body.paths[toOpenApiPath(path)]?.[method.toLowerCase()];
+    });
+    expect(missing).toEqual([]);
+  });
+
+  it('should mark the unversioned alias as deprecated', async () => {
+    const { body: spec } = await request(app).get('/api/openapi.json');
+    expect(spec.paths['/api/superheroes'].get.deprecated).toBe(true);
+    expect(spec.paths['/api/v1/superheroes'].get).not.toHaveProperty('deprecated');
+    expect(spec.paths['/api/v2/superheroes'].get).not.toHaveProperty('deprecated');
+  });
+
+  it('should document the role each route requires', async () => {
+    const { body: spec } = await request(app).get('/api/openapi.json');
+    expect(spec.paths['/api/v1/superheroes'].post).toMatchObject({
+      description: 'Requires the editor role.',
+      security: [{ bearerAuth: [] }, { apiKey: [] }]
+    });
+    expect(spec.paths['/api/v1/superheroes'].post.responses).toHaveProperty('403');
+    expect(spec.paths['/api/v2/superheroes/compare'].get.security).toContainEqual({});
+    expect(spec.paths['/api/v1/users'].get.description).toBe('Requires the admin role.');
+    expect(spec.paths['/api/v1/auth/login'].post).not.toHaveProperty('security');
+  });
+
+  it('should derive parameters and bodies from the validation schemas', async () => {
+    const { body: spec } = await request(app).get('/api/openapi.json');
+
+    const getHero = spec.paths['/api/v1/superheroes/{id}'].get;
+    expect(getHero.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^[1-9]\\d*$' } }
+    ]);
+
+    const compare = spec.paths['/api/v1/superheroes/compare'].get;
+    expect(compare.parameters.map(p => [p.name, p.required])).toEqual([
+      ['id1', true],
+      ['id2', true],
+      ['strategy', false],
+      ['weights', false]
+    ]);
+    expect(compare.parameters[3]).toMatchObject({ style: 'deepObject', explode: true });
+
+    const list = spec.paths['/api/v1/superheroes'].get;
+    expect(list.parameters.find(p => p.name === 'sort').description).toMatch(/sort keys/);
+
+    const create = spec.paths['/api/v1/superheroes'].post;
+    expect(create.requestBody.content['application/json'].schema.required).toEqual(['name', 'image', 'powerstats']);
+    expect(create.responses['422'].content['application/problem+json'].schema).toEqual({
+      $ref: '#/components/schemas/Problem'
+    });
+  });
+});
+
+describe('GET /api/docs', () => {
+  it('should serve the docs UI pointing at the OpenAPI document', async () => {
+    const redirect = await request(app).get('/api/docs');
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.location).toBe('/api/docs/');
+
+    const page = await request(app).get('/api/docs/');
+    expect(page.status).toBe(200);
+    expect(page.text).toMatch(/swagger-ui/);
+    const init = await request(app).get('/api/docs/swagger-ui-init.js');
+    expect(init.text).toContain('/api/openapi.json');
+  });
+});
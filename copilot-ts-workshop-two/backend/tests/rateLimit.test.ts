@@ -0,0 +1,126 @@
+import express from 'express';
+import request from 'supertest';
+import app from '../src/server';
+import { problemHandler } from '../src/errors';
+import {
+  DEFAULT_RATE_LIMITS,
+  KeyValueClient,
+  KeyValueRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  RateLimitStore,
+  takeToken
+} from '../src/rateLimit';
+
+/**
+ * A local stand-in for Redis: enough of its GET and SET ... PX to back the key-value store.
+ */
+class MapClient implements KeyValueClient {
+  readonly entries = new Map<string, { value: string; expiresAt: number }>();
+  now = 0;
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > this.now ? entry.value : null;
+  }
+
+  async set(key: string, value: string, { PX }: { PX: number }) {
+    this.entries.set(key, { value, expiresAt: this.now + PX });
+    return 'OK';
+  }
+}
+
+describe('takeToken', () => {
+  const policy = { limit: 10, window: 10 }; // one token per second
+
+  it('should start full and refill at limit/window per second', () => {
+    let { state, result } = takeToken(undefined, policy, 0);
+    expect(result).toEqual({ allowed: true, limit: 10, remaining: 9, reset: 1, retryAfter: 0 });
+    ({ state, result } = takeToken({ tokens: 0.5, updatedAt: 0 }, policy, 0));
+    expect(result).toMatchObject({ allowed: false, remaining: 0, retryAfter: 1 });
+    ({ state, result } = takeToken(state, policy, 500));
+    expect(result).toMatchObject({ allowed: true, remaining: 0, reset: 10 });
+    ({ result } = takeToken(state, policy, 60_000));
+    expect(result.remaining).toBe(9);
+  });
+});
+
+// Every store must pass this contract
+describe.each([
+  ['MemoryRateLimitStore', () => ({ store: new MemoryRateLimitStore(), advance: (ms: number) => ms })],
+  [
+    'KeyValueRateLimitStore',
+    () => {
+      const client = new MapClient();
+      return { store: new KeyValueRateLimitStore(client), advance: (ms: number) => (client.now = ms) };
+    }
+  ]
+] as Array<[string, () => { store: RateLimitStore; advance: (ms: number) => number }]>)('%s', (_name, create) => {
+  const policy = { limit: 3, window: 3 };
+
+  it('should allow bursts up to the limit, then refuse until tokens refill', async () => {
+    const { store, advance } = create();
+    const now = advance(0);
+    for (let i = 2; i >= 0; i--) {
+      expect(await store.take('a', policy, now)).toMatchObject({ allowed: true, remaining: i });
+    }
+    expect(await store.take('a', policy, now)).toMatchObject({ allowed: false, retryAfter: 1 });
+    expect(await store.take('a', policy, advance(1000))).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should keep keys apart', async () => {
+    const { store, advance } = create();
+    const now = advance(0);
+    for (let i = 0; i < 3; i++) await store.take('a', policy, now);
+    expect((await store.take('b', policy, now)).allowed).toBe(true);
+  });
+
+  it('should treat a bucket that was idle for the window as full', async () => {
+    const { store, advance } = create();
+    for (let i = 0; i < 3; i++) await store.take('a', policy, advance(0));
+    expect(await store.take('a', policy, advance(3000))).toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
+
+describe('RateLimiter', () => {
+  const limited = express();
+  const limiter = new RateLimiter(new MemoryRateLimitStore(), {
+    ...DEFAULT_RATE_LIMITS,
+    default: { limit: 5, window: 60 },
+    compare: { limit: 2, window: 60 }
+  });
+  limited.use(limiter.middleware('default'));
+  limited.get('/compare', limiter.middleware('compare'), (req, res) => {
+    res.send('ok');
+  });
+  limited.use(problemHandler);
+
+  it('should report the budget closest to running out and answer 429 once it is spent', async () => {
+    const first = await request(limited).get('/compare');
+    expect(first.status).toBe(200);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(Number(first.headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+    await request(limited).get('/compare');
+    const refused = await request(limited).get('/compare');
+    expect(refused.status).toBe(429);
+    expect(refused.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(refused.headers['retry-after']).toBe('30');
+    expect(refused.body).toMatchObject({ detail: 'Rate limit exceeded: 2 compare requests per 60s', retry_after: 30 });
+  });
+});
+
+describe('API rate limits', () => {
+  it('should send RateLimit headers on API responses', async () => {
+    const response = await request(app).get('/api/v1/superheroes/1');
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-limit']).toBe(String(DEFAULT_RATE_LIMITS.default.limit));
+    expect(Number(response.headers['ratelimit-remaining'])).toBeLessThan(DEFAULT_RATE_LIMITS.default.limit);
+  });
+
+  it('should charge comparisons to their own budget', async () => {
+    const response = await request(app).get('/api/v1/superheroes/compare?id1=1&id2=2');
+    expect(response.headers['ratelimit-limit']).toBe(String(DEFAULT_RATE_LIMITS.compare.limit));
+  });
+});
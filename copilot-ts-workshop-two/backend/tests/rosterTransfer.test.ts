@@ -0,0 +1,305 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { Superhero } from '@superheroes/shared';
+import { exportRoster, ImportFormatError, planImport, readImportRows } from '../src/rosterTransfer';
+
+// Work on a private copy of the roster so import tests never touch data/superheroes.json
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-transfer-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+
+const { default: app, auth, repository } = await import('../src/server');
+
+const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+const original: Superhero[] = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+
+const powerstats = { intelligence: 10, strength: 20, speed: 30, durability: 40, power: 50, combat: 60 };
+const roster: Superhero[] = [
+  { id: 1, name: 'One', image: 'one.jpg', powerstats },
+  { id: 2, name: 'Two, "the second"', image: 'two.jpg', powerstats: { ...powerstats, speed: 99 } }
+];
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  fs.writeFileSync(dataFile, JSON.stringify(original));
+  fs.rmSync(path.join(tmpDir, 'superheroes.meta.json'), { force: true });
+  await repository.reload();
+});
+
+function rowsOf(values: unknown[]) {
+  return values.map((value, index) => ({ row: index + 1, value }));
+}
+
+describe('exportRoster', () => {
+  it('should round-trip every format through readImportRows', () => {
+    for (const format of ['json', 'ndjson', 'csv'] as const) {
+      const text = [...exportRoster(roster, format)].join('');
+      const body = format === 'json' ? JSON.parse(text) : text;
+      expect(readImportRows(body, format).map((row) => row.value)).toEqual(roster);
+    }
+  });
+
+  it('should quote CSV cells with commas, quotes or line breaks', () => {
+    const csv = [...exportRoster(roster, 'csv')].join('');
+    expect(csv.split('\r\n')).toEqual([
+      'id,name,image,intelligence,strength,speed,durability,power,combat',
+      '1,One,one.jpg,10,20,30,40,50,60',
+      '2,"Two, ""the second""",two.jpg,10,20,99,40,50,60',
+      ''
+    ]);
+  });
+
+  it('should keep spreadsheets from running CSV cells as formulas', () => {
+    const names = ['=HYPERLINK("http://evil.example")', '+1', '-2', '@SUM(A1)', '\tTab', '\rReturn'];
+    const heroes = names.map((name, i) => ({ id: i + 1, name, image: `${i + 1}.jpg`, powerstats }));
+    const csv = [...exportRoster(heroes, 'csv')].join('');
+    expect(csv.split('\r\n').slice(1, 6).map((line) => line.split(',')[1])).toEqual([
+      `"'=HYPERLINK(""http://evil.example"")"`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "'\tTab"
+    ]);
+    expect(csv).toContain(`,"'\rReturn",`);
+    expect(readImportRows(csv, 'csv').map((row) => row.value)).toEqual(heroes);
+  });
+
+  it('should write an empty JSON array for an empty roster', () => {
+    expect(JSON.parse([...exportRoster([], 'json')].join(''))).toEqual([]);
+  });
+});
+
+describe('readImportRows', () => {
+  it('should accept CSV columns in any order, a byte order mark, LF line ends and a missing id column', () => {
+    const csv = '\uFEFFname,combat,power,durability,speed,strength,intelligence,image\n"Multi\nLine",1,2,3,4,5,6,x.jpg\n\n';
+    expect(readImportRows(csv, 'csv')).toEqual([
+      {
+        row: 1,
+        line: 2,
+        value: {
+          name: 'Multi\nLine',
+          image: 'x.jpg',
+          powerstats: { intelligence: 6, strength: 5, speed: 4, durability: 3, power: 2, combat: 1 }
+        }
+      }
+    ]);
+  });
+
+  it('should reject CSV headers with unknown or missing columns', () => {
+    expect(() => readImportRows('id,name,colour\n', 'csv')).toThrow(ImportFormatError);
+    expect(() => readImportRows('id,name,colour\n', 'csv')).toThrow(/unknown "colour"; missing image, intelligence/);
+  });
+
+  it('should report CSV rows with the wrong number of fields and unparseable NDJSON lines', () => {
+    const csv = [...exportRoster(roster, 'csv')].join('') + '3,Three\r\n';
+    expect(readImportRows(csv, 'csv')[2]).toMatchObject({ row: 3, line: 4, error: 'Expected 9 fields, got 2' });
+    const ndjson = `${JSON.stringify(roster[0])}\n\n{"id": 2,\n`;
+    expect(readImportRows(ndjson, 'ndjson')[1]).toMatchObject({
+      row: 2,
+      line: 3,
+      error: expect.stringMatching(/^Invalid JSON/)
+    });
+  });
+
+  it('should reject JSON bodies that are not arrays and unterminated CSV quotes', () => {
+    expect(() => readImportRows({ id: 1 }, 'json')).toThrow('Expected a JSON array of superheroes');
+    expect(() => readImportRows('name\n"open', 'csv')).toThrow('Unterminated quoted field starting on line 2');
+  });
+});
+
+describe('planImport', () => {
+  it('should upsert by id, then by name, and give new heroes fresh ids', () => {
+    const plan = planImport(
+      roster,
+      rowsOf([
+        { ...roster[0], image: 'new.jpg' },
+        { name: 'two, "THE SECOND"', image: 'two.jpg', powerstats: roster[1].powerstats },
+        { name: 'Three', image: 'three.jpg', powerstats }
+      ]),
+      'upsert'
+    );
+    expect(plan).toMatchObject({ created: 1, updated: 2, unchanged: 0, deleted: 0, errors: [] });
+    expect(plan.roster.map((hero) => [hero.id, hero.name])).toEqual([
+      [1, 'One'],
+      [2, 'two, "THE SECOND"'],
+      [3, 'Three']
+    ]);
+  });
+
+  it('should not give new heroes ids below the store\'s next id', () => {
+    const plan = planImport(roster, rowsOf([{ name: 'Three', image: 'three.jpg', powerstats }]), 'upsert', 7);
+    expect(plan.roster.map((hero) => hero.id)).toEqual([1, 2, 7]);
+  });
+
+  it('should delete heroes missing from a replace import', () => {
+    const plan = planImport(roster, rowsOf([roster[1]]), 'replace');
+    expect(plan).toMatchObject({ roster: [roster[1]], created: 0, updated: 0, unchanged: 1, deleted: 1 });
+  });
+
+  it('should report every bad row, duplicates and names taken by heroes left alone', () => {
+    const plan = planImport(
+      roster,
+      rowsOf([
+        { ...roster[0], powerstats: { ...powerstats, speed: 101 } },
+        { id: 7, name: 'Seven', image: 'seven.jpg', powerstats },
+        { id: 7, name: 'Also Seven', image: 'seven.jpg', powerstats },
+        { name: 'seven', image: 'seven.jpg', powerstats },
+        { id: 8, name: 'one', image: 'one.jpg', powerstats }
+      ]),
+      'upsert'
+    );
+    expect(plan.errors).toEqual([
+      { row: 1, path: 'powerstats.speed', message: 'must be between 0 and 100' },
+      { row: 3, path: 'id', message: 'duplicate id 7 (already used in row 2)' },
+      { row: 4, path: 'name', message: 'duplicate name "seven" (already used in row 2)' },
+      { row: 5, path: 'name', message: 'A superhero named "one" already exists' }
+    ]);
+  });
+
+  it('should let heroes swap names when both are imported', () => {
+    const plan = planImport(
+      roster,
+      rowsOf([
+        { ...roster[0], name: roster[1].name },
+        { ...roster[1], name: roster[0].name }
+      ]),
+      'upsert'
+    );
+    expect(plan.errors).toEqual([]);
+    expect(plan.updated).toBe(2);
+  });
+});
+
+describe('GET /api/superheroes/export', () => {
+  it('should stream the roster as a CSV attachment', async () => {
+    const response = await request(app).get('/api/v1/superheroes/export?format=csv');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="superheroes.csv"');
+    expect(response.headers.etag).toBe(`"${repository.digest}"`);
+    expect(response.text.split('\r\n')).toHaveLength(original.length + 2);
+  });
+
+  it('should default to JSON and reject unknown formats', async () => {
+    const response = await request(app).get('/api/v1/superheroes/export');
+    expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+    expect(JSON.parse(response.text)).toEqual(original);
+    expect((await request(app).get('/api/v1/superheroes/export?format=xml')).status).toBe(400);
+  });
+
+  it('should cut the response short when the export fails midway', async () => {
+    const broken = { ...original[1], get powerstats(): Superhero['powerstats'] { throw new Error('unreadable'); } };
+    const all = jest.spyOn(repository, 'all').mockReturnValue([original[0], broken]);
+    try {
+      await expect(request(app).get('/api/v1/superheroes/export?format=csv')).rejects.toThrow();
+    } finally {
+      all.mockRestore();
+    }
+  });
+});
+
+describe('POST /api/superheroes/import', () => {
+  function post(query = '') {
+    return request(app).post(`/api/v1/superheroes/import${query}`).set('Authorization', editor);
+  }
+
+  it('should require the editor role', async () => {
+    const response = await request(app).post('/api/v1/superheroes/import').send([]);
+    expect(response.status).toBe(401);
+  });
+
+  it('should import an edited CSV export', async () => {
+    const csv = (await request(app).get('/api/v1/superheroes/export?format=csv')).text;
+    const [header, first, ...rest] = csv.split('\r\n');
+    const edited = [header, first.replace(/,\d+$/, ',1'), ...rest, ',New Hero,new.jpg,1,2,3,4,5,6'].join('\r\n');
+
+    const response = await post().set('Content-Type', 'text/csv').send(edited);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      mode: 'upsert',
+      dry_run: false,
+      total: original.length + 1,
+      created: 1,
+      updated: 1,
+      unchanged: original.length - 1,
+      deleted: 0
+    });
+    const saved: Superhero[] = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    expect(saved[0].powerstats.combat).toBe(1);
+    expect(repository.findByName('New Hero')?.id).toBe(Math.max(...original.map((hero) => hero.id)) + 1);
+  });
+
+  it('should only report the changes of a dry run', async () => {
+    const ndjson = `${JSON.stringify(original[0])}\n`;
+    const response = await post('?mode=replace&dry_run=true').set('Content-Type', 'application/x-ndjson').send(ndjson);
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ mode: 'replace', dry_run: true, total: 1, deleted: original.length - 1 });
+    expect(JSON.parse(fs.readFileSync(dataFile, 'utf8'))).toEqual(original);
+  });
+
+  it('should replace the roster with a JSON import', async () => {
+    const response = await post('?mode=replace').send(roster);
+    expect(response.status).toBe(200);
+    expect(JSON.parse(fs.readFileSync(dataFile, 'utf8'))).toEqual(roster);
+    expect(repository.all()).toEqual(roster);
+  });
+
+  it('should keep heroes created while the import runs', async () => {
+    const create = (name: string) =>
+      request(app).post('/api/v1/superheroes').set('Authorization', editor).send({ name, image: 'new.jpg', powerstats });
+    const responses = await Promise.all([
+      create('Early'),
+      post().send([{ ...original[0], name: 'Renamed' }, { name: 'Imported', image: 'new.jpg', powerstats }]),
+      create('Late')
+    ]);
+    expect(responses.map((response) => response.status)).toEqual([201, 200, 201]);
+
+    const saved: Superhero[] = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+    expect(saved.map((hero) => hero.name)).toEqual(expect.arrayContaining(['Renamed', 'Imported', 'Early', 'Late']));
+    expect(saved).toHaveLength(original.length + 3);
+    expect(new Set(saved.map((hero) => hero.id)).size).toBe(saved.length);
+    expect(repository.all()).toEqual(saved);
+  });
+
+  it('should reject the whole import with per-row errors', async () => {
+    const response = await post().send([roster[0], { ...roster[1], powerstats: { ...powerstats, power: 'lots' } }, {}]);
+    expect(response.status).toBe(422);
+    expect(response.body.detail).toBe('2 of 3 rows are invalid');
+    expect(response.body.errors).toEqual(
+      expect.arrayContaining([
+        { row: 2, path: 'powerstats.power', message: 'must be a number' },
+        { row: 3, path: 'name', message: 'Required' }
+      ])
+    );
+    expect(JSON.parse(fs.readFileSync(dataFile, 'utf8'))).toEqual(original);
+  });
+
+  it('should reject empty imports, malformed bodies and other media types', async () => {
+    expect((await post().send([])).status).toBe(400);
+    expect((await post().set('Content-Type', 'text/csv').send('id,name,colour\r\n')).status).toBe(400);
+    expect((await post().set('Content-Type', 'application/xml').send('<heroes/>')).status).toBe(415);
+    expect((await post('?mode=merge').send(roster)).status).toBe(400);
+  });
+
+  it('should accept JSON imports larger than the body limit of other routes', async () => {
+    const image = `${'x'.repeat(100)}.jpg`;
+    const large = Array.from({ length: 1000 }, (_, i) => ({ name: `Hero ${i}`, image, powerstats }));
+    expect(JSON.stringify(large).length).toBeGreaterThan(150_000);
+    const response = await post('?mode=replace&dry_run=true').send(large);
+    expect(response.status).toBe(200);
+    expect(response.body.total).toBe(1000);
+
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ username: 'admin', password: 'x'.repeat(150_000) });
+    expect(login.status).toBe(413);
+  });
+});
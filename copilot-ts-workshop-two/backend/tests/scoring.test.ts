@@ -0,0 +1,88 @@
+import request from 'supertest';
+import { scoreMatchup } from '@superheroes/shared';
+import app from '../src/server';
+
+function hero(id: number, stats: number[]) {
+  const [intelligence, strength, speed, durability, power, combat] = stats;
+  return { id, name: `Hero ${id}`, image: '', powerstats: { intelligence, strength, speed, durability, power, combat } };
+}
+
+// Wins four categories by a hair, loses two by a mile
+const specialist = hero(1, [51, 51, 51, 51, 10, 10]);
+const allRounder = hero(2, [50, 50, 50, 50, 90, 90]);
+
+describe('scoreMatchup', () => {
+  it('should count categories by default', () => {
+    expect(scoreMatchup(specialist, allRounder)).toMatchObject({
+      strategy: 'category-count',
+      score1: 4,
+      score2: 2,
+      winner: 1
+    });
+  });
+
+  it('should let the margin decide with total-margin', () => {
+    expect(scoreMatchup(specialist, allRounder, { strategy: 'total-margin' })).toMatchObject({
+      score1: 4,
+      score2: 160,
+      winner: 2
+    });
+  });
+
+  it('should apply per-stat weights to weighted-sum', () => {
+    const unweighted = scoreMatchup(specialist, allRounder, { strategy: 'weighted-sum' });
+    expect([unweighted.score1, unweighted.score2, unweighted.winner]).toEqual([224, 380, 2]);
+
+    const weighted = scoreMatchup(specialist, allRounder, {
+      strategy: 'weighted-sum',
+      weights: { power: 0, combat: 0 }
+    });
+    expect([weighted.score1, weighted.score2, weighted.winner]).toEqual([204, 200, 1]);
+    expect(weighted.weights).toEqual({ intelligence: 1, strength: 1, speed: 1, durability: 1, power: 0, combat: 0 });
+  });
+
+  it('should return complementary expected scores with elo', () => {
+    const result = scoreMatchup(specialist, allRounder, { strategy: 'elo' });
+    expect(result.score1 + result.score2).toBeCloseTo(1);
+    expect(result.score2).toBeGreaterThan(0.9);
+    expect(result.winner).toBe(2);
+    expect(scoreMatchup(specialist, specialist, { strategy: 'elo' }).winner).toBe('tie');
+  });
+});
+
+describe('scoring strategies on the compare routes', () => {
+  it('should select the strategy and weights from the query string', async () => {
+    const response = await request(app).get(
+      '/api/superheroes/compare?id1=1&id2=2&strategy=weighted-sum&weights[intelligence]=0&weights[strength]=2'
+    );
+    expect(response.status).toBe(200);
+    expect(response.body.strategy).toEqual({
+      name: 'weighted-sum',
+      weights: { intelligence: 0, strength: 2, speed: 1, durability: 1, power: 1, combat: 1 }
+    });
+    // A-Bomb: 200 + 17 + 80 + 24 + 64 = 385, Ant-Man: 36 + 23 + 28 + 32 + 32 = 151
+    expect(response.body.scores).toEqual({ id1: 385, id2: 151 });
+    expect(response.body.overall_winner).toBe(1);
+  });
+
+  it('should report the default strategy', async () => {
+    const response = await request(app).get('/api/superheroes/compare?id1=1&id2=2');
+    expect(response.body.strategy.name).toBe('category-count');
+    expect(response.body.scores).toEqual({ id1: 3, id2: 3 });
+  });
+
+  it('should return 400 for an unknown strategy or bad weight', async () => {
+    const response = await request(app).get('/api/superheroes/compare?id1=1&id2=2&strategy=coin-flip&weights[speed]=fast');
+    expect(response.status).toBe(400);
+    expect(response.body.errors.map(issue => issue.path)).toEqual(['strategy', 'weights.speed']);
+  });
+
+  it('should rank many heroes with the chosen strategy', async () => {
+    const response = await request(app)
+      .post('/api/superheroes/compare')
+      .send({ ids: [1, 2, 3], strategy: 'elo' });
+    expect(response.status).toBe(200);
+    expect(response.body.strategy.name).toBe('elo');
+    expect(response.body.standings[0].id).toBe(3);
+  });
+});
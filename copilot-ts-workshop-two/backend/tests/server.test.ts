@@ -1,5 +1,6 @@
+import { jest } from '@jest/globals';
 import request from 'supertest';
-import app from '../src/server';
+import app, { repository } from '../src/server';
 
 process.env.TEST_PORT = '3002'; // Set the test port
 
@@ -27,15 +28,12 @@ describe('GET /api/superheroes', () => {
   });
 
   it('should handle internal server error gracefully', async () => {
-    // Temporarily mock loadSuperheroes to throw
-    const original = app._router.stack.find(r => r.route && r.route.path === '/api/superheroes').route.stack[0].handle;
-    app._router.stack.find(r => r.route && r.route.path === '/api/superheroes').route.stack[0].handle = async (req, res) => {
-      res.status(500).send('Internal Server Error');
-    };
+    // Make loading the superheroes fail once
+    jest.spyOn(repository, 'ready').mockRejectedValueOnce(new Error('disk on fire'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
     const response = await request(app).get('/api/superheroes');
     expect(response.status).toBe(500);
-    // Restore original handler
-    app._router.stack.find(r => r.route && r.route.path === '/api/superheroes').route.stack[0].handle = original;
+    consoleError.mockRestore();
   });
 });
 
@@ -50,13 +48,13 @@ describe('GET /api/superheroes/:id', () => {
   it('should return 404 if superhero does not exist', async () => {
     const response = await request(app).get('/api/superheroes/9999');
     expect(response.status).toBe(404);
-    expect(response.text).toBe('Superhero not found');
+    expect(response.body.detail).toBe('Superhero not found');
   });
 
-  it('should handle non-numeric id gracefully', async () => {
+  it('should reject a non-numeric id with 400', async () => {
     const response = await request(app).get('/api/superheroes/abc');
-    expect(response.status).toBe(404);
-    expect(response.text).toBe('Superhero not found');
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'id', message: 'must be a positive integer' }]);
   });
 });
 
@@ -77,13 +75,13 @@ describe('GET /api/superheroes/:id/powerstats', () => {
   it('should return 404 if superhero does not exist', async () => {
     const response = await request(app).get('/api/superheroes/9999/powerstats');
     expect(response.status).toBe(404);
-    expect(response.text).toBe('Superhero not found');
+    expect(response.body.detail).toBe('Superhero not found');
   });
 
-  it('should handle non-numeric id gracefully', async () => {
+  it('should reject a non-numeric id with 400', async () => {
     const response = await request(app).get('/api/superheroes/xyz/powerstats');
-    expect(response.status).toBe(404);
-    expect(response.text).toBe('Superhero not found');
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'id', message: 'must be a positive integer' }]);
   });
 });
 
@@ -110,13 +108,13 @@ describe('GET /api/superheroes/compare', () => {
   it('should return 400 if id1 or id2 is missing', async () => {
     const response = await request(app).get('/api/superheroes/compare?id1=1');
     expect(response.status).toBe(400);
-    expect(response.body.error).toMatch(/required/);
+    expect(response.body.detail).toMatch(/required/);
   });
 
   it('should return 404 if either superhero does not exist', async () => {
     const response = await request(app).get('/api/superheroes/compare?id1=1&id2=999');
     expect(response.status).toBe(404);
-    expect(response.body.error).toMatch(/not found/);
+    expect(response.body.detail).toMatch(/not found/);
   });
 
   it('should return correct winner when one hero wins more categories', async () => {
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { POWERSTAT_NAMES, Superhero } from '@superheroes/shared';
+import { SqliteSuperheroStore } from '../src/sqliteSuperheroStore';
+import { copyRoster, TargetNotEmptyError } from '../src/storage';
+import { parseSuperheroQuery, querySuperheroes } from '../src/superheroQuery';
+import { ConflictError, JsonSuperheroStore, MemorySuperheroStore, SuperheroStore } from '../src/superheroStore';
+
+// A roster big enough to page through, with plenty of ties on every stat
+const NAMES = ['Spider', 'Bat', 'Super', 'Iron', 'Wonder', 'Aqua', 'Hawk', 'Ant'];
+const roster: Superhero[] = Array.from({ length: 120 }, (_, i) => ({
+  id: i + 1,
+  name: `${NAMES[i % NAMES.length]}-${i % 3 === 0 ? 'Man' : 'Woman'} ${Math.floor(i / NAMES.length)}`,
+  image: `${i + 1}.jpg`,
+  powerstats: Object.fromEntries(
+    POWERSTAT_NAMES.map((stat, j) => [stat, ((i + 1) * (j + 7) * 37) % 11 * 10])
+  ) as Superhero['powerstats']
+}));
+const powerstats = { intelligence: 1, strength: 2, speed: 3, durability: 4, power: 5, combat: 6 };
+
+let tmpDir: string;
+const opened: SuperheroStore[] = [];
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-storage-'));
+});
+
+afterEach(() => {
+  opened.splice(0).forEach((store) => store.close());
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function track<T extends SuperheroStore>(store: T): T {
+  opened.push(store);
+  return store;
+}
+
+const drivers: Array<[string, (heroes: Superhero[]) => Promise<SuperheroStore>]> = [
+  [
+    'json',
+    async (heroes) => {
+      const file = path.join(tmpDir, 'superheroes.json');
+      fs.writeFileSync(file, JSON.stringify(heroes));
+      return track(new JsonSuperheroStore(file));
+    }
+  ],
+  [
+    'sqlite',
+    async (heroes) => {
+      const store = track(new SqliteSuperheroStore(path.join(tmpDir, 'superheroes.db')));
+      await store.replaceAll(heroes);
+      return store;
+    }
+  ],
+  ['memory', async (heroes) => track(new MemorySuperheroStore(heroes))]
+];
+
+describe.each(drivers)('%s store', (_driver, open) => {
+  const one = { id: 1, name: 'One', image: 'one.jpg', powerstats };
+  const two = { id: 2, name: 'Two', image: 'two.jpg', powerstats };
+
+  it('should load what was stored', async () => {
+    const store = await open([one, two]);
+    await expect(store.load()).resolves.toEqual([one, two]);
+  });
+
+  it('should create with the next id and reject duplicate names', async () => {
+    const store = await open([one, two]);
+    const three = await store.create({ name: 'Three', image: 'three.jpg', powerstats });
+    expect(three.id).toBe(3);
+    await expect(store.create({ name: 'two', image: 'x.jpg', powerstats })).rejects.toBeInstanceOf(ConflictError);
+    await expect(store.load()).resolves.toEqual([one, two, three]);
+  });
+
+  it('should not hand out the id of a removed hero again', async () => {
+    const store = await open([one, two]);
+    await expect(store.remove(2)).resolves.toBe(true);
+    const three = await store.create({ name: 'Three', image: 'three.jpg', powerstats });
+    expect(three.id).toBe(3);
+    await store.remove(3);
+    await expect(store.create({ name: 'Four', image: 'four.jpg', powerstats })).resolves.toMatchObject({ id: 4 });
+  });
+
+  it('should replace, patch and remove by id', async () => {
+    const store = await open([one, two]);
+    await expect(store.replace(1, { name: 'Uno', image: 'uno.jpg', powerstats })).resolves.toMatchObject({
+      id: 1,
+      name: 'Uno'
+    });
+    await expect(store.patch(2, { powerstats: { speed: 99 } })).resolves.toEqual({
+      ...two,
+      powerstats: { ...powerstats, speed: 99 }
+    });
+    await expect(store.patch(1, { name: 'Two' })).rejects.toBeInstanceOf(ConflictError);
+    await expect(store.remove(1)).resolves.toBe(true);
+    await expect(store.remove(1)).resolves.toBe(false);
+    await expect(store.replace(9, { name: 'Nine', image: 'nine.jpg', powerstats })).resolves.toBeNull();
+    await expect(store.load()).resolves.toEqual([{ ...two, powerstats: { ...powerstats, speed: 99 } }]);
+  });
+
+  it('should replace the whole roster, or nothing if it is invalid', async () => {
+    const store = await open([one]);
+    await store.replaceAll([two]);
+    await expect(store.replaceAll([one, { ...one, name: 'Copy' }])).rejects.toThrow('duplicate id 1');
+    await expect(store.load()).resolves.toEqual([two]);
+  });
+
+  it('should rewrite the whole roster from the current one, or leave it', async () => {
+    const store = await open([one, two]);
+    await store.remove(2);
+    const result = await store.mutateAll((heroes, nextId) => ({
+      heroes: [...heroes, { ...two, id: nextId, name: 'Three' }],
+      result: nextId
+    }));
+    expect(result).toBe(3);
+    await expect(store.mutateAll((heroes) => ({ heroes, result: heroes.length }))).resolves.toBe(2);
+    await expect(
+      store.mutateAll((heroes) => ({ heroes: [...heroes, { ...one, name: 'Copy' }], result: null }))
+    ).rejects.toThrow('duplicate id 1');
+    await expect(store.load()).resolves.toEqual([one, { ...two, id: 3, name: 'Three' }]);
+  });
+
+  it('should move the modification time forward on writes', async () => {
+    const store = await open([one]);
+    const before = await store.modifiedAt();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.remove(1);
+    expect((await store.modifiedAt()).getTime()).toBeGreaterThan(before.getTime());
+  });
+});
+
+describe.each([
+  ['json', (file: string) => new JsonSuperheroStore(`${file}.json`)],
+  ['sqlite', (file: string) => new SqliteSuperheroStore(`${file}.db`)]
+])('%s store id counter', (_driver, open) => {
+  it('should be kept across reopening the store', async () => {
+    const file = path.join(tmpDir, 'superheroes');
+    const store = track(open(file));
+    await store.replaceAll([]);
+    const one = await store.create({ name: 'One', image: 'one.jpg', powerstats });
+    await store.remove(one.id);
+    store.close();
+    await expect(track(open(file)).create({ name: 'Two', image: 'two.jpg', powerstats })).resolves.toMatchObject({
+      id: 2
+    });
+  });
+});
+
+describe('SqliteSuperheroStore', () => {
+  function open(): SqliteSuperheroStore {
+    return track(new SqliteSuperheroStore(path.join(tmpDir, 'superheroes.db')));
+  }
+
+  it('should apply migrations once', () => {
+    const first = open();
+    expect(first.appliedMigrations).toEqual(['create superheroes', 'index powerstats']);
+    first.close();
+    expect(open().appliedMigrations).toEqual([]);
+  });
+
+  it.each([
+    {},
+    { name: 'man' },
+    { q: 'spidr' },
+    { strength: { gte: '80' }, speed: '100' },
+    { sort: '-total,name', limit: '7', offset: '3' },
+    { sort: 'name', limit: '5', offset: '200' },
+    { q: 'batwomn', limit: '4' },
+    { sort: '-intelligence', intelligence: { lt: '90' }, limit: '10' }
+  ])('should answer %j like the in-memory query', async (params) => {
+    const store = open();
+    await store.replaceAll(roster);
+    const parsed = parseSuperheroQuery(params as never);
+    if (!parsed.ok) throw new Error(JSON.stringify(parsed.issues));
+    await expect(store.query(parsed.value)).resolves.toEqual(querySuperheroes(roster, parsed.value));
+  });
+
+  it('should follow cursors through the same pages as the in-memory query', async () => {
+    const store = open();
+    await store.replaceAll(roster);
+    let params: Record<string, string> = { sort: '-strength,name', limit: '50' };
+    for (let pages = 0; pages < 20; pages++) {
+      const parsed = parseSuperheroQuery(params);
+      if (!parsed.ok) throw new Error(JSON.stringify(parsed.issues));
+      const page = await store.query(parsed.value);
+      expect(page).toEqual(querySuperheroes(roster, parsed.value));
+      if (!page.nextCursor) return;
+      params = { ...params, cursor: page.nextCursor };
+    }
+    throw new Error('Too many pages');
+  });
+});
+
+describe('copyRoster', () => {
+  it('should copy into an empty store, and only replace a roster when forced', async () => {
+    const from = track(new MemorySuperheroStore(roster.slice(0, 3)));
+    const to = track(new SqliteSuperheroStore(path.join(tmpDir, 'superheroes.db')));
+    await expect(copyRoster(from, to)).resolves.toBe(3);
+    await expect(to.load()).resolves.toEqual(roster.slice(0, 3));
+
+    const other = track(new MemorySuperheroStore(roster.slice(3, 5)));
+    await expect(copyRoster(other, to)).rejects.toBeInstanceOf(TargetNotEmptyError);
+    await expect(copyRoster(other, to, { force: true })).resolves.toBe(2);
+    await expect(to.load()).resolves.toEqual(roster.slice(3, 5));
+  });
+
+  it('should create a missing JSON file', async () => {
+    const file = path.join(tmpDir, 'copy.json');
+    await copyRoster(track(new MemorySuperheroStore(roster.slice(0, 2))), track(new JsonSuperheroStore(file)));
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(roster.slice(0, 2));
+  });
+});
@@ -0,0 +1,127 @@
+import request from 'supertest';
+import app from '../src/server';
+import { fuzzyScore, InvalidCursorError, parseSuperheroQuery, querySuperheroes } from '../src/superheroQuery';
+
+function hero(id: number, name: string, strength: number, power: number) {
+  return {
+    id,
+    name,
+    image: `${id}.jpg`,
+    powerstats: { intelligence: 50, strength, speed: 50, durability: 50, power, combat: 50 }
+  };
+}
+
+const heroes = [
+  hero(1, 'Spider-Man', 55, 58),
+  hero(2, 'Batman', 26, 47),
+  hero(3, 'Superman', 100, 100),
+  hero(4, 'Spider-Woman', 55, 60),
+  hero(5, 'Bane', 38, 51),
+  hero(6, 'Hulk', 100, 98)
+];
+
+function parse(query: Record<string, unknown>) {
+  const result = parseSuperheroQuery(query as never);
+  if (!result.ok) throw new Error(JSON.stringify(result.issues));
+  return result.value;
+}
+
+describe('querySuperheroes', () => {
+  it('should filter by name substring and stat ranges', () => {
+    const page = querySuperheroes(heroes, parse({ name: 'MAN', strength: { gte: '50' } }));
+    expect(page.items.map(h => h.id)).toEqual([1, 3, 4]);
+    expect(page.total).toBe(3);
+  });
+
+  it('should sort by several keys with the id as final tie-breaker', () => {
+    const page = querySuperheroes(heroes, parse({ sort: '-strength,name' }));
+    expect(page.items.map(h => h.name)).toEqual(['Hulk', 'Superman', 'Spider-Man', 'Spider-Woman', 'Bane', 'Batman']);
+  });
+
+  it('should rank fuzzy matches by relevance', () => {
+    const page = querySuperheroes(heroes, parse({ q: 'spidrman' }));
+    expect(page.items.map(h => h.name)).toEqual(['Spider-Man', 'Spider-Woman']);
+    expect(fuzzyScore('battman', 'Batman')).toBeGreaterThan(0);
+    expect(fuzzyScore('hulk', 'Bane')).toBe(0);
+  });
+
+  it('should paginate by offset', () => {
+    const page = querySuperheroes(heroes, parse({ limit: '2', offset: '4' }));
+    expect(page.items.map(h => h.id)).toEqual([5, 6]);
+    expect(page.total).toBe(6);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should walk every page with cursors', () => {
+    const query = parse({ sort: '-power', limit: '4' });
+    const first = querySuperheroes(heroes, query);
+    expect(first.items.map(h => h.id)).toEqual([3, 6, 4, 1]);
+
+    const second = querySuperheroes(heroes, { ...query, cursor: first.nextCursor });
+    expect(second.items.map(h => h.id)).toEqual([5, 2]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should reject a cursor made for another sort', () => {
+    const { nextCursor } = querySuperheroes(heroes, parse({ sort: '-power,name', limit: '1' }));
+    expect(() => querySuperheroes(heroes, parse({ limit: '1', cursor: nextCursor }))).toThrow(InvalidCursorError);
+  });
+});
+
+describe('parseSuperheroQuery', () => {
+  it('should report every invalid parameter', () => {
+    const result = parseSuperheroQuery({ strength: { over: '5' }, speed: 'fast', sort: 'height', limit: '0' });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues.map(issue => issue.path)).toEqual([
+      'strength[over]',
+      'speed',
+      'sort',
+      'limit'
+    ]);
+  });
+});
+
+describe('GET /api/superheroes with query parameters', () => {
+  it('should return a page with total count and Link header', async () => {
+    const response = await request(app).get('/api/superheroes?sort=-combat&limit=1&offset=1');
+    expect(response.status).toBe(200);
+    expect(response.body.map(h => h.name)).toEqual(['A-Bomb']);
+    expect(response.headers['x-total-count']).toBe('3');
+    expect(response.headers.link).toBe(
+      '</api/superheroes?sort=-combat&limit=1&offset=0>; rel="first", ' +
+        '</api/superheroes?sort=-combat&limit=1&offset=0>; rel="prev", ' +
+        '</api/superheroes?sort=-combat&limit=1&offset=2>; rel="next", ' +
+        '</api/superheroes?sort=-combat&limit=1&offset=2>; rel="last"'
+    );
+  });
+
+  it('should page through with cursors', async () => {
+    const page1 = await request(app).get('/api/superheroes?limit=2&sort=-name');
+    expect(page1.body.map(h => h.name)).toEqual(['Bane', 'Ant-Man']);
+    const cursor = page1.headers['x-next-cursor'];
+
+    const page2 = await request(app).get(`/api/superheroes?limit=2&sort=-name&cursor=${cursor}`);
+    expect(page2.status).toBe(200);
+    expect(page2.body.map(h => h.name)).toEqual(['A-Bomb']);
+    expect(page2.headers['x-next-cursor']).toBeUndefined();
+    expect(page2.headers.link).toBe('</api/superheroes?limit=2&sort=-name>; rel="first"');
+  });
+
+  it('should return 400 for a malformed cursor', async () => {
+    const response = await request(app).get('/api/superheroes?limit=2&cursor=bm9wZQ');
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toMatch(/cursor is invalid/);
+  });
+
+  it('should return 400 for invalid query parameters', async () => {
+    const response = await request(app).get('/api/superheroes?power[gte]=strong');
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'power[gte]', message: 'must be an integer' }]);
+  });
+
+  it.each(['1e2', '0x10', '+50', '%2050%20', '50.0'])('should reject the stat filter value %s', async raw => {
+    const response = await request(app).get(`/api/superheroes?power[gte]=${raw}`);
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'power[gte]', message: 'must be an integer' }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { jest } from '@jest/globals';
+import { once } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SuperheroRepository } from '../src/superheroRepository';
+import { JsonSuperheroStore } from '../src/superheroStore';
+
+const powerstats = { intelligence: 1, strength: 2, speed: 3, durability: 4, power: 5, combat: 6 };
+const heroes = [
+  { id: 1, name: 'One', image: 'one.jpg', powerstats },
+  { id: 2, name: 'Two', image: 'two.jpg', powerstats }
+];
+
+let tmpDir: string;
+let dataFile: string;
+let repository: SuperheroRepository;
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-repo-'));
+  dataFile = path.join(tmpDir, 'superheroes.json');
+  fs.writeFileSync(dataFile, JSON.stringify(heroes));
+  repository = new SuperheroRepository(new JsonSuperheroStore(dataFile));
+  await repository.ready();
+});
+
+afterEach(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SuperheroRepository', () => {
+  it('should index heroes by id and case-insensitive name', () => {
+    expect(repository.all()).toEqual(heroes);
+    expect(repository.findById(2)?.name).toBe('Two');
+    expect(repository.findByName('ONE')?.id).toBe(1);
+    expect(repository.findById(3)).toBeUndefined();
+  });
+
+  it('should swap in the new dataset when the file changes on disk', async () => {
+    const reloaded = once(repository, 'reload');
+    fs.writeFileSync(dataFile, JSON.stringify([...heroes, { id: 3, name: 'Three', image: 'three.jpg', powerstats }]));
+    const [version] = await reloaded;
+
+    expect(version).toBe(2);
+    expect(repository.version).toBe(2);
+    expect(repository.findByName('three')?.id).toBe(3);
+  });
+
+  it('should derive the digest from the contents only', async () => {
+    const other = new SuperheroRepository(new JsonSuperheroStore(dataFile));
+    await other.ready();
+    other.close();
+    expect(other.digest).toBe(repository.digest);
+    expect(repository.modifiedAt).toEqual(fs.statSync(dataFile).mtime);
+
+    await repository.patch(1, { name: 'Uno' });
+    expect(repository.digest).not.toBe(other.digest);
+  });
+
+  it('should keep the last good copy when the new file is invalid', async () => {
+    const failed = once(repository, 'reloadError');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fs.writeFileSync(dataFile, JSON.stringify([{ id: 1, name: 'Broken' }]));
+    await failed;
+    consoleError.mockRestore();
+
+    expect(repository.version).toBe(1);
+    expect(repository.all()).toEqual(heroes);
+  });
+
+  it('should reflect its own writes immediately', async () => {
+    const created = await repository.create({ name: 'Three', image: 'three.jpg', powerstats });
+    expect(repository.findById(created.id)).toEqual(created);
+
+    await repository.remove(1);
+    expect(repository.findByName('one')).toBeUndefined();
+  });
+});
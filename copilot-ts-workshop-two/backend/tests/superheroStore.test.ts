@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SuperheroValidationError } from '@superheroes/shared';
+import { JsonSuperheroStore } from '../src/superheroStore';
+
+const powerstats = { intelligence: 1, strength: 2, speed: 3, durability: 4, power: 5, combat: 6 };
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superheroes-store-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function storeWith(data: unknown): JsonSuperheroStore {
+  const file = path.join(tmpDir, 'superheroes.json');
+  fs.writeFileSync(file, JSON.stringify(data));
+  return new JsonSuperheroStore(file);
+}
+
+describe('JsonSuperheroStore.load', () => {
+  it('should return the validated roster', async () => {
+    const heroes = [{ id: 1, name: 'One', image: 'one.jpg', powerstats }];
+    await expect(storeWith(heroes).load()).resolves.toEqual(heroes);
+  });
+
+  it('should reject a malformed hero with the exact field path', async () => {
+    const store = storeWith([
+      { id: 1, name: 'One', image: 'one.jpg', powerstats },
+      { id: 2, name: 'Two', image: 'two.jpg', powerstats: { ...powerstats, speed: '90' } }
+    ]);
+    const error = await store.load().catch(err => err);
+    expect(error).toBeInstanceOf(SuperheroValidationError);
+    expect(error.issues).toEqual([{ path: '[1].powerstats.speed', message: 'must be a number' }]);
+  });
+
+  it('should reject missing stats', async () => {
+    const { combat, ...withoutCombat } = powerstats;
+    const store = storeWith([{ id: 1, name: 'One', image: 'one.jpg', powerstats: withoutCombat }]);
+    await expect(store.load()).rejects.toThrow('[0].powerstats.combat: Required');
+  });
+
+  it('should reject duplicate ids', async () => {
+    const store = storeWith([
+      { id: 1, name: 'One', image: 'one.jpg', powerstats },
+      { id: 1, name: 'Copy', image: 'copy.jpg', powerstats }
+    ]);
+    await expect(store.load()).rejects.toThrow('[1].id: duplicate id 1 (already used at index 0)');
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { aggregateTeam, compareTeams } from '../src/team';
+
+// Teams are stored next to the data file, so run against a private copy
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'teams-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+
+const { default: app, auth, repository } = await import('../src/server');
+
+const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function hero(id: number, stats: number[]) {
+  const [intelligence, strength, speed, durability, power, combat] = stats;
+  return {
+    id,
+    name: `Hero ${id}`,
+    image: `${id}.jpg`,
+    powerstats: { intelligence, strength, speed, durability, power, combat }
+  };
+}
+
+const team = (id: number, members: number[]) => ({ id, name: `Team ${id}`, members, created_at: '' });
+
+describe('aggregateTeam', () => {
+  it('should compute sum, average and best per category', () => {
+    const stats = aggregateTeam([hero(1, [10, 20, 30, 40, 50, 60]), hero(2, [20, 20, 20, 20, 20, 100])]);
+    expect(stats.sum).toEqual({ intelligence: 30, strength: 40, speed: 50, durability: 60, power: 70, combat: 160 });
+    expect(stats.average).toEqual({ intelligence: 15, strength: 20, speed: 25, durability: 30, power: 35, combat: 80 });
+    expect(stats.best).toEqual({ intelligence: 20, strength: 20, speed: 30, durability: 40, power: 50, combat: 100 });
+  });
+});
+
+describe('compareTeams', () => {
+  const duo = { team: team(1, [1, 2]), members: [hero(1, [50, 50, 50, 50, 50, 50]), hero(2, [50, 50, 50, 50, 50, 50])] };
+  const solo = { team: team(2, [3]), members: [hero(3, [60, 60, 60, 60, 60, 40])] };
+
+  it('should let the larger squad win on sums', () => {
+    const result = compareTeams(duo, solo, 'sum');
+    expect(result.categories.every((cat) => cat.winner === 1)).toBe(true);
+    expect(result.overall_winner).toBe(1);
+  });
+
+  it('should decide on averages by default', () => {
+    const result = compareTeams(duo, solo);
+    expect(result.aggregate).toBe('average');
+    expect(result.categories.map((cat) => cat.winner)).toEqual([2, 2, 2, 2, 2, 1]);
+    expect(result.overall_winner).toBe(2);
+    expect(result.teams[1].members).toEqual([{ id: 3, name: 'Hero 3' }]);
+  });
+});
+
+describe('/api/teams', () => {
+  it('should create, list and fetch teams', async () => {
+    const created = await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Brains', members: [1, 3] });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ name: 'Brains', members: [1, 3] });
+    expect(created.headers.location).toBe(`/api/teams/${created.body.id}`);
+
+    const fetched = await request(app).get(created.headers.location);
+    expect(fetched.body).toEqual(created.body);
+    const list = await request(app).get('/api/teams');
+    expect(list.body).toContainEqual(created.body);
+  });
+
+  it('should reject duplicate names, unknown members and oversized teams', async () => {
+    const duplicate = await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'brains', members: [2] });
+    expect(duplicate.status).toBe(409);
+    const unknown = await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Ghosts', members: [2, 999] });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.detail).toBe('Superhero not found: 999');
+    const tooBig = await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Crowd', members: [1, 2, 3, 4, 5, 6] });
+    expect(tooBig.status).toBe(422);
+    expect(tooBig.body.errors[0]).toEqual({ path: 'members', message: 'a team has at most 5 members' });
+  });
+
+  it('should compare two teams', async () => {
+    const brains = (await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Thinkers', members: [2] })).body;
+    const brawn = (await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Bruisers', members: [1, 3] })).body;
+
+    const response = await request(app).get(`/api/teams/compare?id1=${brains.id}&id2=${brawn.id}&aggregate=best`);
+    expect(response.status).toBe(200);
+    expect(response.body.aggregate).toBe('best');
+    expect(response.body.categories.map((cat) => cat.name)).toEqual([
+      'intelligence', 'strength', 'speed', 'durability', 'power', 'combat'
+    ]);
+    expect(response.body.categories[0]).toEqual({ name: 'intelligence', winner: 1, id1_value: 100, id2_value: 88 });
+    expect(response.body.overall_winner).toBe(2);
+    expect(response.body.teams[1].stats.sum.strength).toBe(138);
+  });
+
+  it('should revalidate comparisons against the roster as well as the teams', async () => {
+    const first = (await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Firsts', members: [1] })).body;
+    const second = (await request(app).post('/api/teams').set('Authorization', editor).send({ name: 'Seconds', members: [2] })).body;
+    const url = `/api/teams/compare?id1=${first.id}&id2=${second.id}`;
+
+    const before = await request(app).get(url);
+    expect(before.headers.etag).toMatch(/^"[\w-]+"$/);
+    expect((await request(app).get(url).set('If-None-Match', before.headers.etag)).status).toBe(304);
+    expect((await request(app).get(`${url}&aggregate=sum`).set('If-None-Match', before.headers.etag)).status).toBe(200);
+
+    const { strength } = before.body.teams[0].stats.sum;
+    await request(app).patch('/api/superheroes/1').set('Authorization', editor).send({ powerstats: { strength: 1 } });
+    const after = await request(app).get(url).set('If-None-Match', before.headers.etag);
+    expect(after.status).toBe(200);
+    expect(after.headers.etag).not.toBe(before.headers.etag);
+    expect(after.body.teams[0].stats.sum.strength).toBe(1);
+    await request(app).patch('/api/superheroes/1').set('Authorization', editor).send({ powerstats: { strength } });
+  });
+
+  it('should return 400 for a bad query and 404 for unknown teams', async () => {
+    const missing = await request(app).get('/api/teams/compare?id1=1');
+    expect(missing.status).toBe(400);
+    expect(missing.body.errors).toContainEqual({ path: 'id2', message: 'is required' });
+    const badAggregate = await request(app).get('/api/teams/compare?id1=1&id2=2&aggregate=median');
+    expect(badAggregate.status).toBe(400);
+    const unknown = await request(app).get('/api/teams/compare?id1=1&id2=999');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.detail).toBe('Team not found: 999');
+  });
+});
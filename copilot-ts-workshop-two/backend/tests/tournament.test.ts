@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { runTournament, TournamentRequestSchema } from '../src/tournament';
+
+// Tournaments are stored next to the data file, so run against a private copy
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tournaments-'));
+const dataFile = path.join(tmpDir, 'superheroes.json');
+fs.copyFileSync(path.join(process.cwd(), 'data/superheroes.json'), dataFile);
+process.env.SUPERHEROES_DATA_FILE = dataFile;
+
+const { default: app, auth, repository } = await import('../src/server');
+
+const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+
+afterAll(() => {
+  repository.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function hero(id: number, stats: number[]) {
+  const [intelligence, strength, speed, durability, power, combat] = stats;
+  return {
+    id,
+    name: `Hero ${id}`,
+    image: `${id}.jpg`,
+    powerstats: { intelligence, strength, speed, durability, power, combat }
+  };
+}
+
+// Hero n has every stat at 10 * n, so a higher id always wins
+const ladder = (count: number) => Array.from({ length: count }, (_, i) => hero(i + 1, Array(6).fill(10 * (i + 1))));
+
+const rules = (body: Record<string, unknown>) => TournamentRequestSchema.parse({ heroes: 'all', ...body });
+
+function lossesById(result: ReturnType<typeof runTournament>) {
+  const losses = new Map<number, number>();
+  for (const match of result.rounds.flatMap((round) => round.matches)) {
+    if (!match.hero2) continue;
+    const loser = match.winner === match.hero1.id ? match.hero2.id : match.hero1.id;
+    losses.set(loser, (losses.get(loser) ?? 0) + 1);
+  }
+  return losses;
+}
+
+describe('runTournament', () => {
+  it('should give byes to the top seeds in single elimination', () => {
+    const result = runTournament(ladder(5), rules({ format: 'single-elimination' }));
+    expect(result.entrants.map((e) => e.id)).toEqual([5, 4, 3, 2, 1]);
+    expect(result.rounds.map((round) => round.name)).toEqual(['Quarterfinals', 'Semifinals', 'Final']);
+    const byes = result.rounds[0].matches.filter((match) => match.decided_by === 'bye');
+    expect(byes.map((match) => match.hero1.seed)).toEqual([1, 2, 3]);
+    expect(result.champion).toEqual({ seed: 1, id: 5, name: 'Hero 5' });
+    expect(result.rounds[2].matches[0].comparison?.categories).toHaveLength(6);
+  });
+
+  it('should eliminate every hero but the champion after two losses in double elimination', () => {
+    for (const count of [2, 3, 5, 8]) {
+      const result = runTournament(ladder(count), rules({ format: 'double-elimination', seeding: 'id' }));
+      const losses = lossesById(result);
+      expect(result.champion.id).toBe(count);
+      expect(losses.get(count)).toBeUndefined();
+      for (let id = 1; id < count; id++) expect(losses.get(id)).toBe(2);
+    }
+  });
+
+  it('should play a grand final reset when the losers bracket champion wins', () => {
+    const heroes = [
+      [30, 10, 90, 40, 10, 30],
+      [60, 30, 80, 80, 60, 10],
+      [80, 20, 70, 80, 50, 10],
+      [70, 90, 10, 70, 10, 30],
+      [40, 40, 90, 20, 70, 20],
+      [80, 10, 10, 20, 80, 30],
+      [10, 30, 10, 80, 50, 80],
+      [40, 20, 50, 70, 30, 50]
+    ].map((stats, index) => hero(index + 1, stats));
+    const result = runTournament(heroes, rules({ format: 'double-elimination', seeding: 'id' }));
+    const finals = result.rounds.filter((round) => round.bracket === 'grand-final');
+    expect(finals.map((round) => round.name)).toEqual(['Grand Final', 'Grand Final Reset']);
+    expect(finals[0].matches[0]).toMatchObject({ id: 'GF-1', winner: 5 });
+    expect(finals[1].matches[0]).toMatchObject({ id: 'GF-2', winner: 5 });
+    expect(result.champion.id).toBe(5);
+  });
+
+  it('should pair everyone once in a round robin and crown the top of the standings', () => {
+    const result = runTournament(ladder(5), rules({ format: 'round-robin' }));
+    const matches = result.rounds.flatMap((round) => round.matches);
+    expect(result.rounds).toHaveLength(5);
+    expect(matches).toHaveLength(10);
+    const pairs = new Set(matches.map((match) => [match.hero1.id, match.hero2!.id].sort().join('-')));
+    expect(pairs.size).toBe(10);
+    expect(result.standings?.[0].id).toBe(5);
+    expect(result.champion.id).toBe(5);
+  });
+
+  it('should break tied elimination matches by categories won, then total stats, then seed', () => {
+    const byCategories = runTournament(
+      [hero(1, [0, 0, 0, 100, 0, 0]), hero(2, [40, 30, 30, 0, 0, 0])],
+      rules({ format: 'single-elimination', seeding: 'id', strategy: 'weighted-sum' })
+    );
+    expect(byCategories.rounds[0].matches[0]).toMatchObject({ winner: 2, decided_by: 'category_wins' });
+
+    const bySeed = runTournament(
+      [hero(1, [50, 50, 0, 0, 0, 0]), hero(2, [50, 50, 0, 0, 0, 0])],
+      rules({ format: 'single-elimination', seeding: 'as-given' })
+    );
+    expect(bySeed.rounds[0].matches[0]).toMatchObject({ winner: 1, decided_by: 'seed' });
+  });
+
+  it('should replay random seeding from the same seed', () => {
+    const first = runTournament(ladder(8), rules({ format: 'single-elimination', seeding: 'random', seed: 42 }));
+    const again = runTournament(ladder(8), rules({ format: 'single-elimination', seeding: 'random', seed: 42 }));
+    const other = runTournament(ladder(8), rules({ format: 'single-elimination', seeding: 'random', seed: 7 }));
+    expect(again.entrants).toEqual(first.entrants);
+    expect(other.entrants).not.toEqual(first.entrants);
+  });
+});
+
+describe('/api/tournaments', () => {
+  it('should run, store and return a tournament', async () => {
+    const created = await request(app)
+      .post('/api/tournaments').set('Authorization', editor)
+      .send({ heroes: [1, 2, 3], format: 'round-robin', name: 'Weekly cup' });
+    expect(created.status).toBe(201);
+    expect(created.headers.location).toBe(`/api/tournaments/${created.body.id}`);
+    expect(created.body).toMatchObject({ name: 'Weekly cup', format: 'round-robin', seeding: 'total-stats' });
+    expect(created.body.champion.id).toBe(3);
+
+    const fetched = await request(app).get(created.headers.location);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body).toEqual(created.body);
+    expect(fs.existsSync(path.join(tmpDir, 'tournaments.json'))).toBe(true);
+
+    const list = await request(app).get('/api/tournaments');
+    expect(list.body).toContainEqual(
+      expect.objectContaining({ id: created.body.id, name: 'Weekly cup', entrants: 3 })
+    );
+  });
+
+  it('should accept "all" heroes and give the same bracket for the same request', async () => {
+    const body = { heroes: 'all', format: 'double-elimination' };
+    const first = await request(app).post('/api/tournaments').set('Authorization', editor).send(body);
+    const second = await request(app).post('/api/tournaments').set('Authorization', editor).send(body);
+    expect(first.status).toBe(201);
+    expect(second.body.id).toBe(first.body.id + 1);
+    expect(second.body.rounds).toEqual(first.body.rounds);
+  });
+
+  it('should return 400 for an invalid request', async () => {
+    const response = await request(app).post('/api/tournaments').set('Authorization', editor).send({ heroes: [1, 2], format: 'ladder' });
+    expect(response.status).toBe(400);
+    expect(response.body.errors[0].path).toBe('format');
+  });
+
+  it('should return 404 for unknown heroes or tournaments', async () => {
+    const heroes = await request(app).post('/api/tournaments').set('Authorization', editor).send({ heroes: [1, 999], format: 'round-robin' });
+    expect(heroes.status).toBe(404);
+    expect(heroes.body.detail).toBe('Superhero not found: 999');
+    const tournament = await request(app).get('/api/tournaments/999');
+    expect(tournament.status).toBe(404);
+  });
+});
@@ -0,0 +1,83 @@
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import app, { auth } from '../src/server';
+import { problemHandler } from '../src/errors';
+import { IdParamsSchema, validateRequest } from '../src/validation';
+
+describe('validateRequest', () => {
+  const echo = express();
+  echo.use(express.json());
+  echo.post(
+    '/items/:id',
+    validateRequest({
+      params: IdParamsSchema,
+      query: z.object({ verbose: z.enum(['true', 'false']).optional() }).strict(),
+      body: z.object({ name: z.string() }).strict()
+    }),
+    (req, res) => {
+      res.json({ id: req.params.id, query: req.query, body: req.body });
+    }
+  );
+  echo.use(problemHandler);
+
+  it('should replace params, query and body with the parsed values', async () => {
+    const response = await request(echo).post('/items/7?verbose=true').send({ name: 'x' });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 7, query: { verbose: 'true' }, body: { name: 'x' } });
+  });
+
+  it('should report the first invalid part with every issue in it', async () => {
+    const response = await request(echo).post('/items/7?verbose=yes&debug=1').send({});
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      { path: 'verbose', message: expect.stringMatching(/^Invalid enum value/) },
+      { path: 'debug', message: 'unknown field' }
+    ]);
+    expect(response.body.detail).toMatch(/^Invalid query parameters: /);
+  });
+
+  it('should expose its schemas', () => {
+    const middleware = validateRequest({ params: IdParamsSchema });
+    expect(middleware.schemas.params).toBe(IdParamsSchema);
+  });
+});
+
+describe('id validation', () => {
+  const editor = `Bearer ${auth.issueToken({ id: 1, username: 'editor', role: 'editor' })}`;
+
+  it.each(['', '1e3', ' 2 ', '-1', '0', '01', '1.5'])('should reject compare id1=%j', async (id1) => {
+    const response = await request(app).get('/api/superheroes/compare').query({ id1, id2: '2' });
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'id1', message: 'must be a positive integer' }]);
+  });
+
+  it('should reject a negative path id on every hero route', async () => {
+    for (const req of [
+      request(app).get('/api/superheroes/-3'),
+      request(app).get('/api/superheroes/-3/powerstats'),
+      request(app).patch('/api/superheroes/-3').set('Authorization', editor).send({}),
+      request(app).delete('/api/superheroes/-3').set('Authorization', editor)
+    ]) {
+      const response = await req;
+      expect(response.status).toBe(400);
+      expect(response.body.detail).toBe('Invalid path parameters: id: must be a positive integer');
+    }
+  });
+});
+
+describe('unknown query parameters', () => {
+  it('should be rejected on every route', async () => {
+    for (const url of [
+      '/api/superheroes?nmae=man',
+      '/api/superheroes/compare?id1=1&id2=2&strategy=elo&verbose=1',
+      '/api/superheroes/1?fields=name',
+      '/api/teams?page=2'
+    ]) {
+      const response = await request(app).get(url);
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toHaveLength(1);
+      expect(response.body.errors[0].message).toBe('unknown field');
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import request from 'supertest';
+import app from '../src/server';
+
+describe('API versions', () => {
+  it('should serve v1 and v2 without deprecation headers', async () => {
+    for (const url of ['/api/v1/superheroes/1', '/api/v2/superheroes/1']) {
+      const response = await request(app).get(url);
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('A-Bomb');
+      expect(response.headers).not.toHaveProperty('deprecation');
+      expect(response.headers).not.toHaveProperty('sunset');
+    }
+  });
+
+  it('should serve the unversioned paths as a deprecated alias of v1', async () => {
+    const response = await request(app).get('/api/superheroes/compare?id1=1&id2=3');
+    expect(response.status).toBe(200);
+    expect(response.body.overall_winner).toBe(2);
+    expect(response.headers.deprecation).toMatch(/^@\d+$/);
+    expect(new Date(response.headers.sunset).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should mark errors from the alias as deprecated too', async () => {
+    const response = await request(app).get('/api/superheroes/9999');
+    expect(response.status).toBe(404);
+    expect(response.headers.deprecation).toMatch(/^@\d+$/);
+  });
+
+  it('should not fall back to the alias for unknown versions or unknown versioned paths', async () => {
+    for (const url of ['/api/v3/superheroes', '/api/v2/unknown', '/api/v1/superheroes/1/unknown', '/api/v2']) {
+      const response = await request(app).get(url);
+      expect(response.status).toBe(404);
+      expect(response.headers).not.toHaveProperty('deprecation');
+      expect(response.headers).not.toHaveProperty('sunset');
+    }
+  });
+});
+
+describe('GET /api/v2/superheroes/compare', () => {
+  it('should name winners by hero object', async () => {
+    const response = await request(app).get('/api/v2/superheroes/compare?id1=1&id2=3');
+    expect(response.status).toBe(200);
+    expect(response.body.hero1).toMatchObject({ id: 1, name: 'A-Bomb' });
+    expect(response.body.hero2).toMatchObject({ id: 3, name: 'Bane' });
+    expect(response.body.overall_winner).toMatchObject({ id: 3 });
+    const strength = response.body.categories.find(category => category.name === 'strength');
+    expect(strength).toMatchObject({ hero1_value: 100, hero2_value: 38, winner: { id: 1 } });
+    expect(response.body.scores).toEqual({ hero1: 2, hero2: 4 });
+  });
+
+  it('should report a tie as a null winner', async () => {
+    const response = await request(app).get('/api/v2/superheroes/compare?id1=1&id2=2');
+    expect(response.status).toBe(200);
+    expect(response.body.overall_winner).toBeNull();
+  });
+
+  it('should reject the same parameters as v1', async () => {
+    const response = await request(app).get('/api/v2/superheroes/compare?id1=1');
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([{ path: 'id2', message: 'is required' }]);
+  });
+});
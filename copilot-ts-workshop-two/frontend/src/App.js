@@ -1,18 +1,60 @@
+// @ts-check
 import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SCORING_STRATEGY,
+  POWERSTAT_NAMES,
+  SCORING_STRATEGY_DESCRIPTIONS,
+  SCORING_STRATEGY_NAMES,
+  parseSuperheroes,
+  scoreMatchup
+} from '@superheroes/shared';
+import Login from './Login';
+import { authHeaders, clearSession, loadSession, saveSession } from './auth';
 import './App.css';
 
+/** @typedef {import('@superheroes/shared').Superhero} Superhero */
+/** @typedef {import('@superheroes/shared').ScoringStrategyName} ScoringStrategyName */
+/** @typedef {import('./auth').Session} Session */
+
 function App() {
-  const [superheroes, setSuperheroes] = useState([]);
-  const [selectedHeroes, setSelectedHeroes] = useState([]);
-  const [currentView, setCurrentView] = useState('table'); // 'table' or 'comparison'
+  const [superheroes, setSuperheroes] = useState(/** @type {Superhero[]} */ ([]));
+  const [selectedHeroes, setSelectedHeroes] = useState(/** @type {Superhero[]} */ ([]));
+  const [currentView, setCurrentView] = useState('table'); // 'table', 'comparison' or 'login'
+  const [strategy, setStrategy] = useState(DEFAULT_SCORING_STRATEGY);
+  const [session, setSession] = useState(loadSession);
+  // Set when the server doesn't let anonymous visitors read the roster
+  const [loginRequired, setLoginRequired] = useState(false);
 
   useEffect(() => {
-    fetch('/api/superheroes')
-      .then((response) => response.json())
-      .then((data) => setSuperheroes(data))
+    fetch('/api/v1/superheroes', { headers: authHeaders(session) })
+      .then((response) => {
+        if (response.status === 401) {
+          // No anonymous access, or the stored token is no longer accepted
+          clearSession();
+          setLoginRequired(true);
+          setCurrentView('login');
+          return null;
+        }
+        return response.json();
+      })
+      .then((data) => data && setSuperheroes(parseSuperheroes(data)))
       .catch((error) => console.error('Error fetching superheroes:', error));
-  }, []);
+  }, [session]);
+
+  /** @param {Session} newSession */
+  const handleLogin = (newSession) => {
+    saveSession(newSession);
+    setSession(newSession);
+    setLoginRequired(false);
+    setCurrentView('table');
+  };
+
+  const handleLogout = () => {
+    clearSession();
+    setSession(null);
+  };
 
+  /** @param {Superhero} hero */
   const handleHeroSelection = (hero) => {
     setSelectedHeroes(prev => {
       if (prev.find(h => h.id === hero.id)) {
@@ -28,6 +70,7 @@ function App() {
     });
   };
 
+  /** @param {number} heroId */
   const isHeroSelected = (heroId) => {
     return selectedHeroes.some(h => h.id === heroId);
   };
@@ -43,25 +86,25 @@ function App() {
     setSelectedHeroes([]);
   };
 
+  /**
+   * Decides the matchup with the selected scoring strategy (shared with the backend).
+   *
+   * @param {Superhero} hero1
+   * @param {Superhero} hero2
+   * @returns {{ winner: Superhero | null, score: string }}
+   */
   const calculateWinner = (hero1, hero2) => {
-    const stats = ['intelligence', 'strength', 'speed', 'durability', 'power', 'combat'];
-    let hero1Score = 0;
-    let hero2Score = 0;
-    
-    stats.forEach(stat => {
-      if (hero1.powerstats[stat] > hero2.powerstats[stat]) {
-        hero1Score++;
-      } else if (hero2.powerstats[stat] > hero1.powerstats[stat]) {
-        hero2Score++;
-      }
-    });
+    const { score1, score2, winner } = scoreMatchup(hero1, hero2, { strategy });
+    /** @param {number} score */
+    const format = (score) =>
+      strategy === 'elo' ? `${Math.round(score * 100)}%` : String(Math.round(score * 10) / 10);
 
-    if (hero1Score > hero2Score) {
-      return { winner: hero1, score: `${hero1Score}-${hero2Score}` };
-    } else if (hero2Score > hero1Score) {
-      return { winner: hero2, score: `${hero2Score}-${hero1Score}` };
+    if (winner === 1) {
+      return { winner: hero1, score: `${format(score1)}-${format(score2)}` };
+    } else if (winner === 2) {
+      return { winner: hero2, score: `${format(score2)}-${format(score1)}` };
     } else {
-      return { winner: null, score: `${hero1Score}-${hero2Score}` };
+      return { winner: null, score: `${format(score1)}-${format(score2)}` };
     }
   };
 
@@ -70,7 +113,6 @@ function App() {
     
     const [hero1, hero2] = selectedHeroes;
     const result = calculateWinner(hero1, hero2);
-    const stats = ['intelligence', 'strength', 'speed', 'durability', 'power', 'combat'];
 
     return (
       <div className="comparison-view">
@@ -96,7 +138,7 @@ function App() {
         </div>
 
         <div className="stats-comparison">
-          {stats.map(stat => {
+          {POWERSTAT_NAMES.map(stat => {
             const stat1 = hero1.powerstats[stat];
             const stat2 = hero2.powerstats[stat];
             const winner = stat1 > stat2 ? 'hero1' : stat1 < stat2 ? 'hero2' : 'tie';
@@ -117,6 +159,21 @@ function App() {
           })}
         </div>
 
+        <div className="strategy-picker">
+          <label htmlFor="strategy-select">Scoring strategy:</label>
+          <select
+            id="strategy-select"
+            value={strategy}
+            onChange={(e) => setStrategy(/** @type {ScoringStrategyName} */ (e.target.value))}
+          >
+            {SCORING_STRATEGY_NAMES.map(name => (
+              <option key={name} value={name}>
+                {SCORING_STRATEGY_DESCRIPTIONS[name]}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="final-result">
           <h2>Final Result</h2>
           {result.winner ? (
@@ -198,9 +255,39 @@ function App() {
     </div>
   );
 
+  const renderAccountBar = () => (
+    <div className="account-bar">
+      {session ? (
+        <>
+          <span>
+            Logged in as <strong>{session.user.username}</strong> ({session.user.role})
+          </span>
+          <button className="account-button" onClick={handleLogout}>
+            Log out
+          </button>
+        </>
+      ) : (
+        <button className="account-button" onClick={() => setCurrentView('login')}>
+          Log in
+        </button>
+      )}
+    </div>
+  );
+
+  if (currentView === 'login') {
+    return (
+      <div className="App">
+        <header className="App-header">
+          <Login onLogin={handleLogin} onCancel={loginRequired ? undefined : () => setCurrentView('table')} />
+        </header>
+      </div>
+    );
+  }
+
   return (
     <div className="App">
       <header className="App-header">
+        {renderAccountBar()}
         {currentView === 'table' ? renderTable() : renderComparison()}
       </header>
     </div>
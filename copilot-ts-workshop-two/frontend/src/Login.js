@@ -0,0 +1,87 @@
+// @ts-check
+import React, { useState } from 'react';
+import { login } from './auth';
+import './Login.css';
+
+/** @typedef {import('./auth').Session} Session */
+
+/**
+ * Login screen (see public/login-mockup.png).
+ *
+ * @param {{ onLogin: (session: Session) => void, onCancel?: () => void }} props
+ */
+function Login({ onLogin, onCancel }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(/** @type {string | null} */ (null));
+  const [submitting, setSubmitting] = useState(false);
+  const [showReset, setShowReset] = useState(false);
+
+  /** @param {React.FormEvent<HTMLFormElement>} event */
+  const handleSubmit = async (event) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-view">
+      <img src="/login-logo.png" alt="" className="login-logo" />
+      <h1 className="login-title">Superheroes</h1>
+
+      <form className="login-form" onSubmit={handleSubmit}>
+        <label className="login-field">
+          <span className="login-icon" aria-hidden="true">👤</span>
+          <input
+            type="text"
+            name="username"
+            placeholder="Username"
+            aria-label="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+          />
+        </label>
+        <label className="login-field">
+          <span className="login-icon" aria-hidden="true">🔒</span>
+          <input
+            type="password"
+            name="password"
+            placeholder="Password"
+            aria-label="Password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </label>
+
+        {error && <p className="login-error" role="alert">{error}</p>}
+
+        <button type="submit" className="login-button" disabled={submitting}>
+          {submitting ? 'Logging in…' : 'Log in'}
+        </button>
+      </form>
+
+      <button type="button" className="login-link" onClick={() => setShowReset(true)}>
+        Forgot password?
+      </button>
+      {/* Accounts are managed by admins, there is no self-service reset */}
+      {showReset && <p className="login-hint">Ask an administrator to set a new password for you.</p>}
+      {onCancel && (
+        <button type="button" className="login-link" onClick={onCancel}>
+          Continue without logging in
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default Login;
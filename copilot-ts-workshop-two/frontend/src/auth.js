@@ -0,0 +1,68 @@
+// @ts-check
+
+/**
+ * @typedef {{ id: number, username: string, role: 'viewer' | 'editor' | 'admin' }} SessionUser
+ * @typedef {{ token: string, expiresAt: number, user: SessionUser }} Session
+ */
+
+const STORAGE_KEY = 'superheroes.session';
+
+/**
+ * Returns the stored session, or null if there is none or it has expired.
+ *
+ * @returns {Session | null}
+ */
+export function loadSession() {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (session && session.expiresAt > Date.now()) return session;
+  } catch {
+    // A corrupt entry is as good as none
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return null;
+}
+
+/** @param {Session} session */
+export function saveSession(session) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Headers that authenticate a request as the session's user (none when logged out).
+ *
+ * @param {Session | null} session
+ * @returns {Record<string, string>}
+ */
+export function authHeaders(session) {
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+
+/**
+ * Exchanges a username and password for a session.
+ *
+ * @param {string} username
+ * @param {string} password
+ * @returns {Promise<Session>}
+ * @throws {Error} With the server's explanation if the login is refused.
+ */
+export async function login(username, password) {
+  const response = await fetch('/api/v1/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.detail ?? `Login failed (${response.status})`);
+  }
+  return {
+    token: body.token,
+    expiresAt: Date.now() + body.expires_in * 1000,
+    user: body.user
+  };
+}
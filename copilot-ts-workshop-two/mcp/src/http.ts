@@ -0,0 +1,191 @@
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Endpoints: streamable HTTP, and the deprecated HTTP+SSE transport for older clients
+export const MCP_PATH = "/mcp";
+export const SSE_PATH = "/sse";
+export const MESSAGES_PATH = "/messages";
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Listening on these (loopback, or every interface), clients on this machine use LOOPBACK_HOSTS
+const LOCAL_ADDRESSES = ["127.0.0.1", "localhost", "::1", "0.0.0.0", "::"];
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  /** When set, every request must carry `Authorization: Bearer <token>`. */
+  token?: string;
+  /**
+   * Host header values accepted, e.g. "mcp.example.com:3100". The default is the listening
+   * address with its port, or localhost, 127.0.0.1 and [::1] when listening on loopback or on
+   * every interface.
+   */
+  allowedHosts?: string[];
+  /**
+   * Origin header values accepted, e.g. "http://localhost:6274". Requests without an Origin
+   * (from anything but a browser) are not affected; by default browser pages are refused.
+   */
+  allowedOrigins?: string[];
+}
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code = -32000
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Serves MCP over HTTP. Every client session gets its own server from `createServer`, so
+ * one running instance can be shared by several clients. Streamable HTTP sessions live at
+ * /mcp (POST, GET and DELETE, keyed by the Mcp-Session-Id header); clients that only
+ * speak the older HTTP+SSE transport open GET /sse and post to /messages?sessionId=...
+ *
+ * Against DNS rebinding, requests whose Host or Origin header is not allowed (see
+ * {@link HttpOptions}) are refused with 403 before anything else is looked at.
+ *
+ * @returns The listening HTTP server; closing it does not end open sessions, call the
+ *   returned `close()` for that.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpOptions
+): Promise<{ server: http.Server; close: () => Promise<void> }> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  // Known once listening, as the port may be chosen by the system
+  let allowedHosts = new Set<string>();
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+
+  // --- Streamable HTTP ---
+  async function handleMcp(req: IncomingMessage, res: ServerResponse) {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJson(req) : undefined;
+    if (typeof sessionId === "string") {
+      const transport = streamable.get(sessionId);
+      if (!transport) throw new RequestError(404, "Session not found", -32001);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new RequestError(400, "Bad Request: No valid session ID provided");
+    }
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) streamable.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // --- HTTP+SSE Fallback ---
+  async function handleSse(req: IncomingMessage, res: ServerResponse) {
+    if (req.method !== "GET") throw new RequestError(405, "Method not allowed");
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    sse.set(transport.sessionId, transport);
+    res.on("close", () => sse.delete(transport.sessionId));
+    await createServer().connect(transport);
+  }
+
+  async function handleMessages(req: IncomingMessage, res: ServerResponse, url: URL) {
+    if (req.method !== "POST") throw new RequestError(405, "Method not allowed");
+    const transport = sse.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) throw new RequestError(404, "Session not found", -32001);
+    await transport.handlePostMessage(req, res, await readJson(req));
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse) {
+    const host = req.headers.host?.toLowerCase();
+    if (!host || !allowedHosts.has(host)) throw new RequestError(403, `Invalid Host header: ${req.headers.host}`);
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.has(origin)) {
+      throw new RequestError(403, `Invalid Origin header: ${origin}`);
+    }
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="superheroes-mcp"');
+      throw new RequestError(401, "Unauthorized");
+    }
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === MCP_PATH) return handleMcp(req, res);
+    if (url.pathname === SSE_PATH) return handleSse(req, res);
+    if (url.pathname === MESSAGES_PATH) return handleMessages(req, res, url);
+    throw new RequestError(404, "Not found");
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((err) => {
+      if (!(err instanceof RequestError)) console.error("Error handling MCP request:", err);
+      if (res.headersSent) return;
+      const status = err instanceof RequestError ? err.status : 500;
+      const code = err instanceof RequestError ? err.code : -32603;
+      sendError(res, status, code, err instanceof RequestError ? err.message : "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  allowedHosts = new Set((options.allowedHosts ?? defaultAllowedHosts(options.host, port)).map((h) => h.toLowerCase()));
+
+  return {
+    server,
+    close: async () => {
+      await Promise.all([...streamable.values(), ...sse.values()].map((transport) => transport.close()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function defaultAllowedHosts(host: string, port: number): string[] {
+  const names = LOCAL_ADDRESSES.includes(host) ? LOOPBACK_HOSTS : [host.includes(":") ? `[${host}]` : host];
+  return names.map((name) => `${name}:${port}`);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const [scheme, credentials] = (req.headers.authorization ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !credentials) return false;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(credentials);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RequestError(400, "Parse error: Invalid JSON", -32700);
+  }
+}
@@ -1 +1,169 @@
-// mcp code goes here
\ No newline at end of file
+import { parseArgs } from "node:util";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { MCP_PATH, SSE_PATH, startHttpServer } from "./http.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { ApiSuperheroSource, FileSuperheroSource, SOURCE_KINDS } from "./sources.js";
+import { setSuperheroSource } from "./superheroes.js";
+import { registerTools } from "./tools.js";
+
+/*
+The superheroes MCP server. It serves the superhero roster, with tools to
+look up, search, list, rank and compare heroes (see tools.ts). Every tool answers in
+markdown and, for programs, as structured JSON. The roster is also exposed as resources
+clients can attach as context and subscribe to (see resources.ts), and prompts.ts
+packages common analyses as prompts.
+
+The roster comes from the bundled data/superheroes.json, or with --source api from the
+backend's REST API, so the MCP server and the web app agree (see sources.ts).
+By default it talks to a single client over stdio. With --transport http it listens on
+HTTP instead (see http.ts), so several clients can share one running instance.
+*/
+
+const USAGE = `Usage: node build/index.js [options]
+
+Options:
+  --transport <stdio|http>  How clients connect (default stdio)
+  --host <host>             Interface to listen on with --transport http (default 127.0.0.1;
+                            use 0.0.0.0 to share the server on your network)
+  --port <port>             Port to listen on with --transport http (default 3100)
+  --token <token>           Require "Authorization: Bearer <token>" on HTTP requests
+                            (default: the MCP_AUTH_TOKEN environment variable, if set)
+  --allowed-hosts <list>    Comma-separated Host header values HTTP clients may send, e.g.
+                            mcp.example.com:3100 (default: localhost, 127.0.0.1 and [::1]
+                            with the port, or --host with the port for other addresses)
+  --allowed-origins <list>  Comma-separated origins of browser pages that may connect, e.g.
+                            http://localhost:6274 (default: none)
+  --source <file|api>       Where the roster comes from: the bundled data/superheroes.json
+                            (default) or the backend's /api/v1/superheroes
+  --api-url <url>           Backend base URL with --source api (default http://localhost:3000)
+  --api-timeout <ms>        Give up on a backend request after this long (default 5000)
+  --cache-ttl <ms>          Reuse a fetched roster for this long before asking the backend
+                            again (default 30000; 0 to always ask)
+  --api-key <key>           Send "X-API-Key: <key>" to the backend, for backends that require
+                            authentication (default: the SUPERHEROES_API_KEY environment
+                            variable, if set)
+  --help                    Show this help`;
+
+// --- MCP Server Setup ---
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "superheroes-mcp",
+    version: "1.0.0",
+    capabilities: {
+      resources: {},
+      tools: {},
+    },
+  });
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+  return server;
+}
+
+function usageError(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function wholeNumber(flag: string, value: string): number {
+  if (!/^\d+$/.test(value)) usageError(`--${flag} must be a whole number, got "${value}"`);
+  return Number(value);
+}
+
+function list(value: string | undefined): string[] | undefined {
+  return value?.split(",").map((item) => item.trim()).filter((item) => item !== "");
+}
+
+function parseOptions() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        transport: { type: "string", default: "stdio" },
+        host: { type: "string", default: "127.0.0.1" },
+        port: { type: "string", default: "3100" },
+        token: { type: "string" },
+        "allowed-hosts": { type: "string" },
+        "allowed-origins": { type: "string" },
+        source: { type: "string", default: "file" },
+        "api-url": { type: "string", default: "http://localhost:3000" },
+        "api-timeout": { type: "string", default: "5000" },
+        "cache-ttl": { type: "string", default: "30000" },
+        "api-key": { type: "string" },
+        help: { type: "boolean", default: false },
+      },
+    }));
+  } catch (err) {
+    usageError(err instanceof Error ? err.message : String(err));
+  }
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (values.transport !== "stdio" && values.transport !== "http") {
+    usageError(`--transport must be stdio or http, got "${values.transport}"`);
+  }
+  const port = wholeNumber("port", values.port);
+  if (port > 65535) {
+    usageError(`--port must be a port number, got "${values.port}"`);
+  }
+  if (!(SOURCE_KINDS as readonly string[]).includes(values.source)) {
+    usageError(`--source must be ${SOURCE_KINDS.join(" or ")}, got "${values.source}"`);
+  }
+  if (!URL.canParse(values["api-url"])) {
+    usageError(`--api-url must be a URL, got "${values["api-url"]}"`);
+  }
+  const timeoutMs = wholeNumber("api-timeout", values["api-timeout"]);
+  if (timeoutMs === 0) {
+    usageError("--api-timeout must be at least 1");
+  }
+  const token = values.token ?? process.env.MCP_AUTH_TOKEN;
+  const apiKey = values["api-key"] ?? process.env.SUPERHEROES_API_KEY;
+  return {
+    transport: values.transport,
+    host: values.host,
+    port,
+    token: token || undefined,
+    allowedHosts: list(values["allowed-hosts"]),
+    allowedOrigins: list(values["allowed-origins"]),
+    source: values.source,
+    api: {
+      baseUrl: values["api-url"],
+      timeoutMs,
+      cacheTtlMs: wholeNumber("cache-ttl", values["cache-ttl"]),
+      apiKey: apiKey || undefined,
+    },
+  };
+}
+
+// --- Main Entrypoint ---
+async function main() {
+  const options = parseOptions();
+  const source = options.source === "api" ? new ApiSuperheroSource(options.api) : new FileSuperheroSource();
+  setSuperheroSource(source);
+  console.error(`Serving superheroes from ${source.location}`);
+  if (options.transport === "stdio") {
+    await createServer().connect(new StdioServerTransport());
+    console.error("Superhero MCP Server running on stdio");
+    return;
+  }
+
+  const { server, close } = await startHttpServer(createServer, options);
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  const base = `http://${options.host}:${port}`;
+  console.error(
+    `Superhero MCP Server listening on ${base}${MCP_PATH} (streamable HTTP) and ${base}${SSE_PATH} (SSE)` +
+      (options.token ? ", bearer token required" : "")
+  );
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => close().then(() => process.exit(0)));
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error in main():", error);
+  process.exit(1);
+});
@@ -0,0 +1,189 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { compareTwo, POWERSTAT_NAMES, PowerstatName, Superhero } from "@superheroes/shared";
+import { z } from "zod";
+import {
+  formatComparisonMarkdown,
+  formatSuperheroMarkdown,
+  loadSuperheroes,
+  rankSuperheroes,
+  requireSuperhero,
+  statValue,
+} from "./superheroes.js";
+
+// Teams have at most five members, as in the backend's POST /api/teams
+const TEAM_SIZE = 5;
+// Candidates listed in a team_builder prompt, best fits first
+const MAX_CANDIDATES = 40;
+
+/** Powerstats each team-building strategy optimizes for. */
+const TEAM_STRATEGIES: Record<string, readonly PowerstatName[]> = {
+  balanced: POWERSTAT_NAMES,
+  offense: ["strength", "power", "combat"],
+  defense: ["durability", "speed"],
+  brains: ["intelligence"],
+};
+
+/**
+ * A hero name argument that completes from the roster.
+ */
+function heroArgument(description: string) {
+  return completable(z.string().describe(description), async (value) => {
+    const valueLc = value.toLowerCase();
+    return (await loadSuperheroes())
+      .map((hero) => hero.name)
+      .filter((name) => name.toLowerCase().startsWith(valueLc))
+      .slice(0, 100);
+  });
+}
+
+function userMessage(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+/**
+ * Registers prompts for repeatable analysis workflows. Each one loads the heroes it is
+ * about and hands them to the model together with the task.
+ */
+export function registerPrompts(server: McpServer): void {
+  // --- Prompt: Matchup Analysis ---
+  server.registerPrompt(
+    "matchup_analysis",
+    {
+      title: "Matchup analysis",
+      description: "Analyze a head-to-head fight between two superheroes",
+      argsSchema: {
+        hero1: heroArgument("Name or id of the first superhero"),
+        hero2: heroArgument("Name or id of the second superhero"),
+      },
+    },
+    async ({ hero1: first, hero2: second }) => {
+      const superheroes = await loadSuperheroes();
+      const hero1 = requireSuperhero(superheroes, first);
+      const hero2 = requireSuperhero(superheroes, second);
+      return userMessage(
+        [
+          `Analyze a matchup between ${hero1.name} and ${hero2.name}.`,
+          "",
+          "# Contenders",
+          "",
+          formatSuperheroMarkdown(hero1),
+          "",
+          formatSuperheroMarkdown(hero2),
+          "",
+          "# Category comparison",
+          "",
+          formatComparisonMarkdown(hero1, hero2, compareTwo(hero1, hero2)),
+          "",
+          "# Task",
+          "",
+          "1. Explain who wins and why, category by category.",
+          "2. Name each hero's decisive advantages and biggest weakness.",
+          "3. Describe a scenario in which the underdog could still win.",
+          "Base the analysis on the powerstats above; say so when you go beyond them.",
+        ].join("\n")
+      );
+    }
+  );
+
+  // --- Prompt: Team Builder ---
+  server.registerPrompt(
+    "team_builder",
+    {
+      title: "Team builder",
+      description: `Assemble a team of up to ${TEAM_SIZE} superheroes whose combined total powerstats fit a budget`,
+      argsSchema: {
+        budget: z
+          .string()
+          .regex(/^\d+$/, "must be a whole number")
+          .describe("Maximum combined total powerstats of the team (each hero costs the sum of their six stats)"),
+        strategy: completable(
+          z.string().describe(`What the team should excel at: ${Object.keys(TEAM_STRATEGIES).join(", ")}`),
+          (value) => Object.keys(TEAM_STRATEGIES).filter((name) => name.startsWith(value.toLowerCase()))
+        ),
+      },
+    },
+    async ({ budget, strategy }) => {
+      const focus = TEAM_STRATEGIES[strategy.toLowerCase()];
+      if (!focus) {
+        throw new Error(`Unknown strategy "${strategy}", expected one of ${Object.keys(TEAM_STRATEGIES).join(", ")}`);
+      }
+      const limit = Number(budget);
+      const focusScore = (hero: Superhero) => focus.reduce((sum, stat) => sum + hero.powerstats[stat], 0);
+      const candidates = (await loadSuperheroes())
+        .filter((hero) => statValue(hero, "total") <= limit)
+        .sort((a, b) => focusScore(b) - focusScore(a) || statValue(a, "total") - statValue(b, "total"))
+        .slice(0, MAX_CANDIDATES);
+      const table =
+        candidates.length === 0
+          ? "_No superhero fits within this budget._"
+          : [
+              `| ID | Name | Cost (total) | Focus score | ${POWERSTAT_NAMES.join(" | ")} |`,
+              `|---:|------|---:|---:|${POWERSTAT_NAMES.map(() => "---:").join("|")}|`,
+              ...candidates.map(
+                (hero) =>
+                  `| ${hero.id} | ${hero.name} | ${statValue(hero, "total")} | ${focusScore(hero)} | ` +
+                  `${POWERSTAT_NAMES.map((stat) => hero.powerstats[stat]).join(" | ")} |`
+              ),
+            ].join("\n");
+      return userMessage(
+        [
+          `Build a superhero team with the "${strategy}" strategy and a budget of ${limit} total powerstat points.`,
+          "",
+          "# Rules",
+          "",
+          `- Pick 1 to ${TEAM_SIZE} different heroes from the candidates below.`,
+          "- A hero costs their total powerstats; the team's combined cost must not exceed the budget.",
+          `- The strategy favours ${focus.join(", ")}.`,
+          "",
+          `# Candidates (best ${candidates.length} for the strategy within budget)`,
+          "",
+          table,
+          "",
+          "# Task",
+          "",
+          "List the chosen heroes with their ids and costs, the team's total cost, and why this",
+          "combination beats the alternatives. Mention one strong team you rejected and why.",
+        ].join("\n")
+      );
+    }
+  );
+
+  // --- Prompt: Hero Profile ---
+  server.registerPrompt(
+    "hero_profile",
+    {
+      title: "Hero profile",
+      description: "Write a profile of a superhero, placing their powerstats within the roster",
+      argsSchema: {
+        name: heroArgument("Name or id of the superhero"),
+      },
+    },
+    async ({ name }) => {
+      const superheroes = await loadSuperheroes();
+      const hero = requireSuperhero(superheroes, name);
+      const standings = (["total", ...POWERSTAT_NAMES] as const).map((stat) => {
+        const rank = rankSuperheroes(superheroes, stat).find((entry) => entry.id === hero.id)?.rank;
+        return `- ${stat}: ${statValue(hero, stat)} (rank ${rank} of ${superheroes.length})`;
+      });
+      return userMessage(
+        [
+          `Write a profile of ${hero.name}.`,
+          "",
+          "# Data",
+          "",
+          formatSuperheroMarkdown(hero),
+          "",
+          "# Standing in the roster",
+          "",
+          ...standings,
+          "",
+          "# Task",
+          "",
+          "Describe their fighting style, standout strengths and weaknesses, and the kind of",
+          "opponent they would struggle against, using the ranks above to put the numbers in context.",
+        ].join("\n")
+      );
+    }
+  );
+}
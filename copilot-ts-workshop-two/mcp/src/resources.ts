@@ -0,0 +1,100 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { loadSuperheroes, requireSuperhero, summarizeSuperheroes, watchSuperheroes } from "./superheroes.js";
+
+const ALL_URI = "superheroes://all";
+const SUMMARY_URI = "superheroes://stats/summary";
+const HERO_URI_PREFIX = "superheroes://hero/";
+
+// Completion responses are capped at 100 values by the protocol
+const MAX_COMPLETIONS = 100;
+
+function json(uri: string, data: unknown) {
+  return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+}
+
+/**
+ * Registers the roster resources and keeps subscribers up to date: when the data file
+ * changes, every subscribed resource gets a resources/updated notification and the
+ * client is told the resource list changed (heroes may have been added or removed).
+ */
+export function registerResources(server: McpServer): void {
+  // --- Resource: The Whole Roster ---
+  server.registerResource(
+    "superheroes",
+    ALL_URI,
+    { title: "All superheroes", description: "Every superhero with their powerstats", mimeType: "application/json" },
+    async (uri) => json(uri.href, await loadSuperheroes())
+  );
+
+  // --- Resource: Roster Statistics ---
+  server.registerResource(
+    "superheroes-summary",
+    SUMMARY_URI,
+    {
+      title: "Superhero statistics",
+      description: "Hero count, and min, max, mean, median and best hero for every powerstat and the total",
+      mimeType: "application/json",
+    },
+    async (uri) => json(uri.href, summarizeSuperheroes(await loadSuperheroes()))
+  );
+
+  // --- Resource Template: One Hero by ID (or Name) ---
+  server.registerResource(
+    "superhero",
+    new ResourceTemplate(`${HERO_URI_PREFIX}{id}`, {
+      list: async () => ({
+        resources: (await loadSuperheroes()).map((hero) => ({
+          uri: `${HERO_URI_PREFIX}${hero.id}`,
+          name: hero.name,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        // Ids starting with what was typed, then names starting with it
+        id: async (value) => {
+          const superheroes = await loadSuperheroes();
+          const valueLc = value.toLowerCase();
+          return [
+            ...superheroes.map((hero) => String(hero.id)).filter((id) => id.startsWith(value)),
+            ...superheroes.map((hero) => hero.name).filter((name) => name.toLowerCase().startsWith(valueLc)),
+          ].slice(0, MAX_COMPLETIONS);
+        },
+      },
+    }),
+    {
+      title: "Superhero",
+      description: "A single superhero, addressed by id (or name)",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      const hero = requireSuperhero(await loadSuperheroes(), decodeURIComponent(String(id)));
+      return json(uri.href, hero);
+    }
+  );
+
+  // --- Subscriptions ---
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unwatch = watchSuperheroes(() => {
+    if (!server.isConnected()) return;
+    for (const uri of subscriptions) {
+      server.server.sendResourceUpdated({ uri }).catch((err) => console.error("Error notifying subscribers:", err));
+    }
+    server.sendResourceListChanged();
+  });
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    unwatch();
+    onclose?.();
+  };
+}
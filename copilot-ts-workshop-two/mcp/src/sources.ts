@@ -0,0 +1,185 @@
+import path from "path";
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { parseSuperheroes, Superhero } from "@superheroes/shared";
+
+// ESM __dirname workaround
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_DATA_FILE = path.join(__dirname, "../data/superheroes.json");
+
+// Editors and atomic writes fire several events per save
+const WATCH_DEBOUNCE_MS = 100;
+// Watchers of an API roster never poll more often than this, even with caching off
+const MIN_POLL_INTERVAL_MS = 5000;
+
+export const SOURCE_KINDS = ["file", "api"] as const;
+export type SourceKind = (typeof SOURCE_KINDS)[number];
+
+/**
+ * Where the MCP server reads the roster from.
+ */
+export interface SuperheroSource {
+  /** Where the roster comes from, e.g. for the startup log. */
+  readonly location: string;
+  load(): Promise<Superhero[]>;
+  /**
+   * Calls `onChange` whenever the roster may have changed. Watching does not keep the
+   * process alive.
+   *
+   * @returns A function that stops calling `onChange`.
+   */
+  watch(onChange: () => void): () => void;
+}
+
+/**
+ * Shares one underlying watch between listeners: `start` runs when the first listener is
+ * added, and the function it returns once the last one is removed.
+ */
+function listenerSet(start: (notify: () => void) => () => void) {
+  const listeners = new Set<() => void>();
+  let stop: (() => void) | null = null;
+  return (onChange: () => void) => {
+    listeners.add(onChange);
+    stop ??= start(() => listeners.forEach((listener) => listener()));
+    return () => {
+      listeners.delete(onChange);
+      if (listeners.size === 0) {
+        stop?.();
+        stop = null;
+      }
+    };
+  };
+}
+
+/**
+ * A JSON file on disk, read afresh on every load.
+ */
+export class FileSuperheroSource implements SuperheroSource {
+  readonly watch: (onChange: () => void) => () => void;
+
+  constructor(readonly location: string = DEFAULT_DATA_FILE) {
+    // One watcher on the directory, as saves often replace the file rather than write to it
+    this.watch = listenerSet((notify) => {
+      const fileName = path.basename(location);
+      let timer: NodeJS.Timeout | undefined;
+      const watcher = fs.watch(path.dirname(location), (_event, changed) => {
+        if (changed !== fileName) return;
+        clearTimeout(timer);
+        timer = setTimeout(notify, WATCH_DEBOUNCE_MS);
+      });
+      watcher.on("error", (err) => console.error("Error watching superheroes data:", err));
+      watcher.unref();
+      return () => {
+        clearTimeout(timer);
+        watcher.close();
+      };
+    });
+  }
+
+  async load(): Promise<Superhero[]> {
+    return parseSuperheroes(JSON.parse(await fs.promises.readFile(this.location, "utf8")));
+  }
+}
+
+export interface ApiSourceOptions {
+  /** The backend's base URL, e.g. http://localhost:3000. */
+  baseUrl: string;
+  /** How long a fetched roster is used without asking the backend again; 0 to always ask. */
+  cacheTtlMs: number;
+  /** How long to wait for the backend before giving up on a request. */
+  timeoutMs: number;
+  /** Sent as X-API-Key, for backends that do not let anonymous callers read. */
+  apiKey?: string;
+}
+
+/**
+ * The backend's GET /api/v1/superheroes, so the MCP server sees the same roster as the web
+ * app. The roster is cached for `cacheTtlMs`, then revalidated with its ETag. When the
+ * backend cannot be reached, the last roster fetched is served (and the failure logged)
+ * rather than failing every tool call.
+ */
+export class ApiSuperheroSource implements SuperheroSource {
+  readonly location: string;
+  readonly watch: (onChange: () => void) => () => void;
+  private cached: { heroes: Superhero[]; body: string; etag: string | null; fetchedAt: number } | null = null;
+  private inFlight: Promise<boolean> | null = null;
+
+  constructor(private readonly options: ApiSourceOptions) {
+    this.location = new URL("api/v1/superheroes", options.baseUrl.replace(/\/?$/, "/")).href;
+    // The backend cannot push changes, so watchers poll it
+    this.watch = listenerSet((notify) => {
+      const timer = setInterval(() => {
+        this.refresh()
+          .then((changed) => changed && notify())
+          .catch((err) => console.error("Error polling superheroes API:", err instanceof Error ? err.message : err));
+      }, Math.max(options.cacheTtlMs, MIN_POLL_INTERVAL_MS));
+      timer.unref();
+      return () => clearInterval(timer);
+    });
+  }
+
+  async load(): Promise<Superhero[]> {
+    const cached = this.cached;
+    if (cached && Date.now() - cached.fetchedAt < this.options.cacheTtlMs) {
+      return cached.heroes;
+    }
+    try {
+      await this.refresh();
+    } catch (err) {
+      if (!this.cached) throw err;
+      console.error(
+        `Serving the roster fetched ${Math.round((Date.now() - this.cached.fetchedAt) / 1000)}s ago:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+    return this.cached!.heroes;
+  }
+
+  /**
+   * Fetches the roster unless it has not changed since the cached copy.
+   * Concurrent calls share one request.
+   *
+   * @returns Whether the roster changed.
+   */
+  private refresh(): Promise<boolean> {
+    this.inFlight ??= this.fetchRoster().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async fetchRoster(): Promise<boolean> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.cached?.etag) headers["If-None-Match"] = this.cached.etag;
+    if (this.options.apiKey) headers["X-API-Key"] = this.options.apiKey;
+    let response: Response;
+    let body: string;
+    try {
+      response = await fetch(this.location, { headers, signal: AbortSignal.timeout(this.options.timeoutMs) });
+      body = await response.text();
+    } catch (err) {
+      // fetch's errors may come from another realm (e.g. under a test runner), so no instanceof
+      const { name, cause } = (err ?? {}) as { name?: string; cause?: { message?: string } };
+      if (name === "TimeoutError") {
+        throw new Error(`GET ${this.location} timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw new Error(`GET ${this.location} failed${cause?.message ? `: ${cause.message}` : ""}`);
+    }
+    if (response.status === 304 && this.cached) {
+      this.cached.fetchedAt = Date.now();
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`GET ${this.location} returned ${response.status} ${response.statusText}`);
+    }
+    const changed = body !== this.cached?.body;
+    this.cached = {
+      heroes: changed ? parseSuperheroes(JSON.parse(body)) : this.cached!.heroes,
+      body,
+      etag: response.headers.get("etag"),
+      fetchedAt: Date.now(),
+    };
+    return changed;
+  }
+}
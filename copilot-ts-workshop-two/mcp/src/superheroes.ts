@@ -0,0 +1,220 @@
+import {
+  matchesStatFilters,
+  POWERSTAT_NAMES,
+  StatFilter,
+  Superhero,
+  TwoHeroComparison,
+  Winner,
+} from "@superheroes/shared";
+import { FileSuperheroSource, SuperheroSource } from "./sources.js";
+
+let source: SuperheroSource = new FileSuperheroSource();
+
+/**
+ * Chooses where loadSuperheroes and watchSuperheroes get the roster from. The default is
+ * the bundled data/superheroes.json.
+ */
+export function setSuperheroSource(next: SuperheroSource): void {
+  source = next;
+}
+
+/**
+ * Loads the superheroes data from the configured source.
+ * Throws a descriptive error if loading fails.
+ */
+export async function loadSuperheroes(): Promise<Superhero[]> {
+  try {
+    return await source.load();
+  } catch (err) {
+    throw new Error(`Failed to load superheroes data: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Calls `onChange` whenever the roster may have changed, without keeping the process alive.
+ *
+ * @returns A function that stops calling `onChange`.
+ */
+export function watchSuperheroes(onChange: () => void): () => void {
+  return source.watch(onChange);
+}
+
+/**
+ * Finds a hero by id (all digits) or by name, case-insensitively.
+ */
+export function findSuperhero(superheroes: Superhero[], nameOrId: string): Superhero | undefined {
+  const key = nameOrId.trim();
+  if (/^\d+$/.test(key)) {
+    const byId = superheroes.find((hero) => hero.id === Number(key));
+    if (byId) return byId;
+  }
+  const nameLc = key.toLowerCase();
+  return superheroes.find((hero) => hero.name.toLowerCase() === nameLc);
+}
+
+/**
+ * Like findSuperhero, but throws when there is no such hero.
+ */
+export function requireSuperhero(superheroes: Superhero[], nameOrId: string): Superhero {
+  const hero = findSuperhero(superheroes, nameOrId);
+  if (!hero) {
+    throw new Error(`Superhero not found: ${nameOrId}`);
+  }
+  return hero;
+}
+
+/**
+ * Heroes whose name contains `name` (case-insensitively) and that pass every stat filter,
+ * in roster order.
+ */
+export function searchSuperheroes(superheroes: Superhero[], name: string | undefined, filters: StatFilter[]) {
+  const nameLc = name?.trim().toLowerCase();
+  return superheroes.filter(
+    (hero) =>
+      (!nameLc || hero.name.toLowerCase().includes(nameLc)) && matchesStatFilters(hero, filters)
+  );
+}
+
+export const RANK_STATS = [...POWERSTAT_NAMES, "total"] as const;
+export type RankStat = (typeof RANK_STATS)[number];
+
+export interface Ranking {
+  /** Competition ranking: heroes with the same value share a rank (1, 2, 2, 4, ...). */
+  rank: number;
+  id: number;
+  name: string;
+  value: number;
+}
+
+export function statValue(hero: Superhero, stat: RankStat): number {
+  return stat === "total"
+    ? POWERSTAT_NAMES.reduce((sum, name) => sum + hero.powerstats[name], 0)
+    : hero.powerstats[stat];
+}
+
+/**
+ * Ranks every hero by a stat (or the total of all six), best first unless `ascending`.
+ * Heroes with equal values are listed by name.
+ */
+export function rankSuperheroes(superheroes: Superhero[], stat: RankStat, ascending = false): Ranking[] {
+  const sorted = superheroes
+    .map((hero) => ({ id: hero.id, name: hero.name, value: statValue(hero, stat) }))
+    .sort((a, b) => (ascending ? a.value - b.value : b.value - a.value) || a.name.localeCompare(b.name));
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || entry.value !== sorted[index - 1].value) rank = index + 1;
+    return { rank, ...entry };
+  });
+}
+
+export interface StatSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  /** The hero with the highest value (the first by name on a tie). */
+  best: { id: number; name: string } | null;
+}
+
+/**
+ * Roster-wide statistics for every powerstat and for the total of all six.
+ */
+export function summarizeSuperheroes(superheroes: Superhero[]): {
+  count: number;
+  stats: Record<RankStat, StatSummary>;
+} {
+  const stats = Object.fromEntries(
+    RANK_STATS.map((stat): [RankStat, StatSummary] => {
+      const values = superheroes.map((hero) => statValue(hero, stat)).sort((a, b) => a - b);
+      if (values.length === 0) return [stat, { min: 0, max: 0, mean: 0, median: 0, best: null }];
+      const middle = Math.floor(values.length / 2);
+      const [best] = rankSuperheroes(superheroes, stat);
+      return [
+        stat,
+        {
+          min: values[0],
+          max: values[values.length - 1],
+          mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+          median: values.length % 2 ? values[middle] : (values[middle - 1] + values[middle]) / 2,
+          best: { id: best.id, name: best.name },
+        },
+      ];
+    })
+  ) as Record<RankStat, StatSummary>;
+  return { count: superheroes.length, stats };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// --- Markdown formatting ---
+
+function statLabel(stat: string): string {
+  return stat.charAt(0).toUpperCase() + stat.slice(1);
+}
+
+/**
+ * Formats superhero data as a Markdown string.
+ */
+export function formatSuperheroMarkdown(hero: Superhero): string {
+  const stats = hero.powerstats;
+  return [
+    `Here is the data for ${hero.name} retrieved using the superheroes MCP:\n`,
+    `• Name: ${hero.name}`,
+    `• Image: <img src="${hero.image}" alt="${hero.name}"/>`,
+    `• Powerstats:`,
+    `  • Intelligence: ${stats.intelligence}`,
+    `  • Strength: ${stats.strength}`,
+    `  • Speed: ${stats.speed}`,
+    `  • Durability: ${stats.durability}`,
+    `  • Power: ${stats.power}`,
+    `  • Combat: ${stats.combat}`,
+  ].join("\n");
+}
+
+/**
+ * Formats heroes as a Markdown table with one column per powerstat.
+ */
+export function formatSuperheroTable(superheroes: Superhero[]): string {
+  if (superheroes.length === 0) return "_No superheroes._";
+  return [
+    `| ID | Name | ${POWERSTAT_NAMES.map(statLabel).join(" | ")} |`,
+    `|---:|------|${POWERSTAT_NAMES.map(() => "---:").join("|")}|`,
+    ...superheroes.map(
+      (hero) => `| ${hero.id} | ${hero.name} | ${POWERSTAT_NAMES.map((stat) => hero.powerstats[stat]).join(" | ")} |`
+    ),
+  ].join("\n");
+}
+
+export function formatComparisonMarkdown(hero1: Superhero, hero2: Superhero, comparison: TwoHeroComparison): string {
+  const name = (winner: Winner) => (winner === 1 ? hero1.name : winner === 2 ? hero2.name : "Tie");
+  const { strategy, scores } = comparison;
+  return [
+    `## ${hero1.name} vs ${hero2.name}\n`,
+    `| Category | ${hero1.name} | ${hero2.name} | Winner |`,
+    `|----------|---:|---:|--------|`,
+    ...comparison.categories.map(
+      (category) =>
+        `| ${statLabel(category.name)} | ${category.id1_value} | ${category.id2_value} | ${name(category.winner)} |`
+    ),
+    "",
+    comparison.overall_winner === "tie"
+      ? `**Overall: tie** (${strategy.name}, ${formatScore(scores.id1)} to ${formatScore(scores.id2)})`
+      : `**Overall winner: ${name(comparison.overall_winner)}** ` +
+        `(${strategy.name}, ${formatScore(scores.id1)} to ${formatScore(scores.id2)})`,
+  ].join("\n");
+}
+
+export function formatRankingMarkdown(stat: RankStat, rankings: Ranking[]): string {
+  if (rankings.length === 0) return "_No superheroes._";
+  return [
+    `| Rank | Name | ${statLabel(stat)} |`,
+    `|---:|------|---:|`,
+    ...rankings.map((entry) => `| ${entry.rank} | ${entry.name} | ${entry.value} |`),
+  ].join("\n");
+}
+
+function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(2);
+}
@@ -0,0 +1,209 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  compareTwo,
+  POWERSTAT_NAMES,
+  SCORING_STRATEGY_NAMES,
+  STAT_FILTER_OPS,
+  SuperheroSchema,
+} from "@superheroes/shared";
+import { z } from "zod";
+import {
+  formatComparisonMarkdown,
+  formatRankingMarkdown,
+  formatSuperheroMarkdown,
+  formatSuperheroTable,
+  loadSuperheroes,
+  RANK_STATS,
+  rankSuperheroes,
+  requireSuperhero,
+  searchSuperheroes,
+} from "./superheroes.js";
+
+const MAX_PAGE_SIZE = 100;
+
+const PowerstatValue = z.number().int().min(0).max(100);
+const WinnerSchema = z.union([z.literal(1), z.literal(2), z.literal("tie")]);
+
+/**
+ * A tool result: markdown for people reading the conversation, and the same data as
+ * structured JSON (matching the tool's outputSchema) for programs.
+ */
+function result<T extends Record<string, unknown>>(markdown: string, structured: T) {
+  return {
+    content: [{ type: "text" as const, text: markdown }],
+    structuredContent: structured,
+  };
+}
+
+/**
+ * Registers the superhero tools on the server.
+ */
+export function registerTools(server: McpServer): void {
+  // --- Tool: Get Superhero by Name or ID ---
+  server.registerTool(
+    "get_superhero",
+    {
+      description: "Get superhero details by name or id",
+      inputSchema: {
+        name: z.string().optional().describe("Name of the superhero (optional)"),
+        id: z.string().optional().describe("ID of the superhero (optional)"),
+      },
+      outputSchema: { superhero: SuperheroSchema },
+    },
+    async ({ name, id }) => {
+      const superheroes = await loadSuperheroes();
+      const nameLc = name?.toLowerCase();
+      const idStr = id?.toString();
+
+      // Find superhero by name (case-insensitive) or id
+      const superhero = superheroes.find((hero) => {
+        const heroNameLc = hero.name?.toLowerCase() ?? "";
+        const heroIdStr = hero.id?.toString() ?? "";
+        return (nameLc && heroNameLc === nameLc) || (idStr && heroIdStr === idStr);
+      });
+
+      if (!superhero) {
+        throw new Error("Superhero not found");
+      }
+
+      return result(formatSuperheroMarkdown(superhero), { superhero });
+    }
+  );
+
+  // --- Tool: Search Superheroes ---
+  server.registerTool(
+    "search_superheroes",
+    {
+      description:
+        "Search superheroes by name (substring, case-insensitive) and powerstat filters, " +
+        "e.g. strength gte 80. All filters must match.",
+      inputSchema: {
+        name: z.string().optional().describe("Part of the superhero's name"),
+        filters: z
+          .array(
+            z.object({
+              stat: z.enum(POWERSTAT_NAMES),
+              op: z.enum(STAT_FILTER_OPS).describe("eq, gt, gte, lt or lte"),
+              value: PowerstatValue,
+            })
+          )
+          .optional()
+          .describe("Powerstat conditions, e.g. [{ stat: 'speed', op: 'gte', value: 90 }]"),
+        limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(20).describe("Maximum number of results"),
+      },
+      outputSchema: { total: z.number().int(), superheroes: z.array(SuperheroSchema) },
+    },
+    async ({ name, filters = [], limit }) => {
+      const matches = searchSuperheroes(await loadSuperheroes(), name, filters);
+      const shown = matches.slice(0, limit);
+      const summary =
+        matches.length > shown.length
+          ? `Found ${matches.length} superheroes, showing the first ${shown.length}:`
+          : `Found ${matches.length} superhero${matches.length === 1 ? "" : "es"}:`;
+      return result(`${summary}\n\n${formatSuperheroTable(shown)}`, { total: matches.length, superheroes: shown });
+    }
+  );
+
+  // --- Tool: Compare Superheroes ---
+  server.registerTool(
+    "compare_superheroes",
+    {
+      description:
+        "Compare two superheroes category by category, like the backend compare route. " +
+        "By default the hero winning more categories wins overall.",
+      inputSchema: {
+        hero1: z.string().describe("Name or id of the first superhero"),
+        hero2: z.string().describe("Name or id of the second superhero"),
+        strategy: z
+          .enum(SCORING_STRATEGY_NAMES)
+          .optional()
+          .describe("How the overall winner is decided (default category-count)"),
+        weights: z
+          .record(z.enum(POWERSTAT_NAMES), z.number().min(0).max(100))
+          .optional()
+          .describe("Per-stat weights for the weighted strategies; every stat weighs 1 by default"),
+      },
+      outputSchema: {
+        id1: z.number().int(),
+        id2: z.number().int(),
+        categories: z.array(
+          z.object({
+            name: z.enum(POWERSTAT_NAMES),
+            winner: WinnerSchema,
+            id1_value: PowerstatValue,
+            id2_value: PowerstatValue,
+          })
+        ),
+        overall_winner: WinnerSchema,
+        strategy: z.object({ name: z.string(), weights: z.record(z.number()) }),
+        scores: z.object({ id1: z.number(), id2: z.number() }),
+      },
+    },
+    async ({ hero1: first, hero2: second, strategy, weights }) => {
+      const superheroes = await loadSuperheroes();
+      const hero1 = requireSuperhero(superheroes, first);
+      const hero2 = requireSuperhero(superheroes, second);
+      const comparison = compareTwo(hero1, hero2, { strategy, weights });
+      return result(formatComparisonMarkdown(hero1, hero2, comparison), { ...comparison });
+    }
+  );
+
+  // --- Tool: Rank Superheroes ---
+  server.registerTool(
+    "rank_superheroes",
+    {
+      description: "Rank superheroes by a powerstat, or by the total of all six, best first",
+      inputSchema: {
+        stat: z.enum(RANK_STATS).describe("Powerstat to rank by, or total"),
+        order: z.enum(["desc", "asc"]).default("desc").describe("desc (default) for best first, asc for worst first"),
+        limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(10).describe("Number of heroes to return"),
+      },
+      outputSchema: {
+        stat: z.enum(RANK_STATS),
+        order: z.enum(["desc", "asc"]),
+        rankings: z.array(
+          z.object({ rank: z.number().int(), id: z.number().int(), name: z.string(), value: z.number() })
+        ),
+      },
+    },
+    async ({ stat, order, limit }) => {
+      const rankings = rankSuperheroes(await loadSuperheroes(), stat, order === "asc").slice(0, limit);
+      return result(formatRankingMarkdown(stat, rankings), { stat, order, rankings });
+    }
+  );
+
+  // --- Tool: List Superheroes ---
+  server.registerTool(
+    "list_superheroes",
+    {
+      description: "List all superheroes in id order, one page at a time",
+      inputSchema: {
+        page: z.number().int().min(1).default(1).describe("Page number, starting at 1"),
+        page_size: z.number().int().min(1).max(MAX_PAGE_SIZE).default(20).describe("Superheroes per page"),
+      },
+      outputSchema: {
+        page: z.number().int(),
+        page_size: z.number().int(),
+        total: z.number().int(),
+        total_pages: z.number().int(),
+        superheroes: z.array(SuperheroSchema),
+      },
+    },
+    async ({ page, page_size }) => {
+      const superheroes = [...(await loadSuperheroes())].sort((a, b) => a.id - b.id);
+      const total_pages = Math.max(1, Math.ceil(superheroes.length / page_size));
+      const items = superheroes.slice((page - 1) * page_size, page * page_size);
+      const footer =
+        page < total_pages
+          ? `Page ${page} of ${total_pages} (${superheroes.length} superheroes). Ask for page ${page + 1} for more.`
+          : `Page ${page} of ${total_pages} (${superheroes.length} superheroes).`;
+      return result(`${formatSuperheroTable(items)}\n\n${footer}`, {
+        page,
+        page_size,
+        total: superheroes.length,
+        total_pages,
+        superheroes: items,
+      });
+    }
+  );
+}
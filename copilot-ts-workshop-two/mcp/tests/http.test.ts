@@ -0,0 +1,197 @@
+import http from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { startHttpServer } from "../src/http.js";
+import { registerTools } from "../src/tools.js";
+
+const TOKEN = "s3cret";
+const auth = { Authorization: `Bearer ${TOKEN}` };
+const INSPECTOR = "http://localhost:6274";
+
+let port: number;
+let baseUrl: string;
+let close: () => Promise<void>;
+
+function createServer() {
+  const server = new McpServer({ name: "superheroes-mcp", version: "1.0.0" });
+  registerTools(server);
+  return server;
+}
+
+beforeAll(async () => {
+  const started = await startHttpServer(createServer, {
+    host: "127.0.0.1",
+    port: 0,
+    token: TOKEN,
+    allowedOrigins: [INSPECTOR],
+  });
+  const address = started.server.address();
+  if (!address || typeof address === "string") throw new Error("Not listening on a port");
+  port = address.port;
+  baseUrl = `http://127.0.0.1:${port}`;
+  close = started.close;
+});
+
+afterAll(async () => {
+  await close();
+});
+
+function post(path: string, body: string, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { ...auth, "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body,
+  });
+}
+
+const initialize = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+});
+
+// fetch does not let callers choose the Host header, so these go through http.request
+function requestWith(method: string, path: string, headers: Record<string, string>) {
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, method, path, headers: { ...auth, "Content-Type": "application/json", ...headers } },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, body }));
+      }
+    );
+    req.on("error", reject);
+    req.end(method === "POST" ? initialize : undefined);
+  });
+}
+
+describe("DNS rebinding protection", () => {
+  it.each([
+    ["POST", "/mcp"],
+    ["GET", "/sse"],
+    ["POST", "/messages?sessionId=nope"],
+  ])("should refuse %s %s for a Host other than the server's own", async (method, path) => {
+    const response = await requestWith(method, path, { Host: `evil.example:${port}` });
+    expect(response.status).toBe(403);
+    expect(JSON.parse(response.body).error).toEqual({
+      code: -32000,
+      message: `Invalid Host header: evil.example:${port}`,
+    });
+  });
+
+  it("should accept the loopback names of the server", async () => {
+    for (const host of [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`]) {
+      const response = await requestWith("POST", "/mcp", { Host: host, Accept: "application/json, text/event-stream" });
+      expect(response.status).toBe(200);
+    }
+  });
+
+  it("should refuse browser pages from origins not allowed", async () => {
+    const refused = await post("/mcp", initialize, { Origin: "http://evil.example" });
+    expect(refused.status).toBe(403);
+    expect((await refused.json()).error.message).toBe("Invalid Origin header: http://evil.example");
+    expect((await post("/mcp", initialize, { Origin: INSPECTOR })).status).toBe(200);
+  });
+});
+
+describe("bearer token", () => {
+  it.each([
+    ["no", {}],
+    ["a wrong", { Authorization: "Bearer wrong" }],
+    ["a non-bearer", { Authorization: `Basic ${TOKEN}` }],
+  ])("should answer 401 with a challenge to %s token", async (_label, headers) => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: "POST", headers, body: initialize });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe('Bearer realm="superheroes-mcp"');
+    expect(await response.json()).toEqual({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Unauthorized" },
+      id: null,
+    });
+  });
+});
+
+describe("streamable HTTP", () => {
+  it("should serve tools to a client session and end it on DELETE", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers: auth } });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+
+    const result = await client.callTool({ name: "get_superhero", arguments: { id: "1" } });
+    expect(result.structuredContent).toMatchObject({ superhero: { name: "A-Bomb" } });
+
+    await transport.terminateSession();
+    await client.close();
+    const after = await post("/mcp", JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }), {
+      "Mcp-Session-Id": sessionId,
+    });
+    expect(after.status).toBe(404);
+  });
+
+  it("should answer 404 with -32001 for an unknown session", async () => {
+    const response = await post("/mcp", JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }), {
+      "Mcp-Session-Id": "no-such-session",
+    });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toEqual({ code: -32001, message: "Session not found" });
+  });
+
+  it("should answer 400 to requests other than initialize without a session", async () => {
+    const response = await post("/mcp", JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe("Bad Request: No valid session ID provided");
+  });
+
+  it("should answer -32700 to invalid JSON", async () => {
+    const response = await post("/mcp", "{oops");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toEqual({ code: -32700, message: "Parse error: Invalid JSON" });
+  });
+
+  it("should answer 413 to bodies over 1 MB", async () => {
+    const response = await post("/mcp", JSON.stringify({ padding: "x".repeat(1024 * 1024) }));
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toBe("Request body too large");
+  });
+
+  it("should answer 404 for other paths", async () => {
+    const response = await fetch(`${baseUrl}/nope`, { headers: auth });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("HTTP+SSE fallback", () => {
+  it("should route /messages posts to the SSE session they belong to", async () => {
+    const transport = new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+      requestInit: { headers: auth },
+      eventSourceInit: { fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...auth } }) },
+    });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(5);
+    const result = await client.callTool({ name: "get_superhero", arguments: { name: "Bane" } });
+    expect(result.structuredContent).toMatchObject({ superhero: { id: 3 } });
+    await client.close();
+  });
+
+  it("should answer 404 to posts for an unknown SSE session and 405 to other methods", async () => {
+    const response = await post("/messages?sessionId=nope", JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }));
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe(-32001);
+    expect((await fetch(`${baseUrl}/messages?sessionId=nope`, { headers: auth })).status).toBe(405);
+    expect((await post("/sse", "{}")).status).toBe(405);
+  });
+});
@@ -0,0 +1,112 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerPrompts } from "../src/prompts.js";
+
+let client: Client;
+
+beforeAll(async () => {
+  const server = new McpServer({ name: "superheroes-mcp", version: "1.0.0" });
+  registerPrompts(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: "test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+async function promptText(name: string, args: Record<string, string>) {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  expect(messages).toHaveLength(1);
+  expect(messages[0]).toMatchObject({ role: "user", content: { type: "text" } });
+  return (messages[0].content as { text: string }).text;
+}
+
+// Candidate rows of the team_builder table, as "id name cost"
+function candidates(text: string) {
+  return [...text.matchAll(/^\| (\d+) \| ([^|]+) \| (\d+) \|/gm)].map(([, id, name, cost]) => `${id} ${name} ${cost}`);
+}
+
+describe("superhero prompts", () => {
+  it("should list every prompt with its arguments", async () => {
+    const { prompts } = await client.listPrompts();
+    const args = Object.fromEntries(prompts.map((prompt) => [prompt.name, prompt.arguments?.map((arg) => arg.name)]));
+    expect(args).toEqual({
+      matchup_analysis: ["hero1", "hero2"],
+      team_builder: ["budget", "strategy"],
+      hero_profile: ["name"],
+    });
+  });
+
+  describe("matchup_analysis", () => {
+    it("should hand over both heroes and their category comparison, by name or id", async () => {
+      const text = await promptText("matchup_analysis", { hero1: "1", hero2: "ant-man" });
+      expect(text).toContain("Analyze a matchup between A-Bomb and Ant-Man.");
+      expect(text).toContain("# Category comparison");
+      expect(text).toContain("Explain who wins and why");
+    });
+
+    it("should reject unknown heroes", async () => {
+      await expect(promptText("matchup_analysis", { hero1: "A-Bomb", hero2: "Nobody" })).rejects.toThrow(
+        "Superhero not found: Nobody"
+      );
+      await expect(promptText("matchup_analysis", { hero1: "999", hero2: "Bane" })).rejects.toThrow(
+        "Superhero not found: 999"
+      );
+    });
+
+    it("should reject missing arguments", async () => {
+      await expect(promptText("matchup_analysis", { hero1: "A-Bomb" })).rejects.toThrow(
+        /Invalid arguments for prompt matchup_analysis/
+      );
+    });
+  });
+
+  describe("team_builder", () => {
+    it("should list only the heroes within the budget, best fits for the strategy first", async () => {
+      const text = await promptText("team_builder", { budget: "330", strategy: "brains" });
+      expect(text).toContain('Build a superhero team with the "brains" strategy and a budget of 330');
+      expect(text).toContain("The strategy favours intelligence.");
+      expect(candidates(text)).toEqual(["2 Ant-Man 233", "1 A-Bomb 323"]);
+
+      const offense = await promptText("team_builder", { budget: "330", strategy: "Offense" });
+      expect(candidates(offense)).toEqual(["1 A-Bomb 323", "2 Ant-Man 233"]);
+    });
+
+    it("should say so when no hero fits the budget", async () => {
+      const text = await promptText("team_builder", { budget: "100", strategy: "balanced" });
+      expect(candidates(text)).toEqual([]);
+      expect(text).toContain("_No superhero fits within this budget._");
+    });
+
+    it("should reject budgets that are not whole numbers", async () => {
+      for (const budget of ["-5", "12.5", "lots"]) {
+        await expect(promptText("team_builder", { budget, strategy: "balanced" })).rejects.toThrow(
+          "must be a whole number"
+        );
+      }
+    });
+
+    it("should reject unknown strategies", async () => {
+      await expect(promptText("team_builder", { budget: "500", strategy: "stealth" })).rejects.toThrow(
+        'Unknown strategy "stealth", expected one of balanced, offense, defense, brains'
+      );
+    });
+  });
+
+  describe("hero_profile", () => {
+    it("should place the hero's powerstats within the roster", async () => {
+      const text = await promptText("hero_profile", { name: "bane" });
+      expect(text).toContain("Write a profile of Bane.");
+      expect(text).toContain("- total: 351 (rank 1 of 3)");
+      expect(text).toContain("- intelligence: 88 (rank 2 of 3)");
+      expect(text).toContain("- combat: 95 (rank 1 of 3)");
+    });
+
+    it("should reject unknown heroes", async () => {
+      await expect(promptText("hero_profile", { name: "Nobody" })).rejects.toThrow("Superhero not found: Nobody");
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { registerResources } from "../src/resources.js";
+import { FileSuperheroSource } from "../src/sources.js";
+import { setSuperheroSource } from "../src/superheroes.js";
+
+// Watch a private copy of the roster, so the test can change it
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "superheroes-mcp-"));
+const dataFile = path.join(tmpDir, "superheroes.json");
+const original = fs.readFileSync(path.join(process.cwd(), "data/superheroes.json"), "utf8");
+const roster = JSON.parse(original);
+
+let client: Client;
+let stopped = 0;
+const updated: string[] = [];
+let listChanged = 0;
+
+beforeAll(async () => {
+  fs.writeFileSync(dataFile, original);
+  const file = new FileSuperheroSource(dataFile);
+  setSuperheroSource({
+    location: file.location,
+    load: () => file.load(),
+    watch: (onChange) => {
+      const unwatch = file.watch(onChange);
+      return () => {
+        stopped++;
+        unwatch();
+      };
+    },
+  });
+
+  const server = new McpServer({ name: "superheroes-mcp", version: "1.0.0" });
+  registerResources(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: "test", version: "1.0.0" });
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    listChanged++;
+  });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(() => {
+  setSuperheroSource(new FileSuperheroSource());
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  updated.length = 0;
+  listChanged = 0;
+});
+
+async function until(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for a notification");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+function save(heroes: unknown[]) {
+  fs.writeFileSync(dataFile, JSON.stringify(heroes));
+}
+
+describe("superhero resources", () => {
+  it("should read the roster, single heroes by id or name, and the summary", async () => {
+    const all = await client.readResource({ uri: "superheroes://all" });
+    expect(JSON.parse(all.contents[0].text as string)).toEqual(roster);
+
+    const byName = await client.readResource({ uri: "superheroes://hero/Ant-Man" });
+    expect(JSON.parse(byName.contents[0].text as string)).toMatchObject({ id: 2 });
+    const byId = await client.readResource({ uri: "superheroes://hero/3" });
+    expect(JSON.parse(byId.contents[0].text as string)).toMatchObject({ name: "Bane" });
+    await expect(client.readResource({ uri: "superheroes://hero/Nobody" })).rejects.toThrow(
+      "Superhero not found: Nobody"
+    );
+
+    const summary = await client.readResource({ uri: "superheroes://stats/summary" });
+    expect(JSON.parse(summary.contents[0].text as string)).toMatchObject({ count: roster.length });
+  });
+
+  it("should notify subscribers when the data file changes", async () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true, listChanged: true });
+    await client.subscribeResource({ uri: "superheroes://all" });
+
+    save(roster.slice(0, 2));
+    await until(() => updated.length > 0 && listChanged > 0);
+    expect(updated).toEqual(["superheroes://all"]);
+    const all = await client.readResource({ uri: "superheroes://all" });
+    expect(JSON.parse(all.contents[0].text as string)).toHaveLength(2);
+  });
+
+  it("should stop sending updates for a resource after unsubscribing", async () => {
+    await client.unsubscribeResource({ uri: "superheroes://all" });
+
+    save(roster);
+    await until(() => listChanged > 0);
+    expect(updated).toEqual([]);
+  });
+
+  it("should stop watching the data file when the connection closes", async () => {
+    expect(stopped).toBe(0);
+    await client.close();
+    expect(stopped).toBe(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { jest } from "@jest/globals";
+import http, { IncomingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+import { Superhero } from "@superheroes/shared";
+import { ApiSuperheroSource, ApiSourceOptions } from "../src/sources.js";
+
+const powerstats = { intelligence: 50, strength: 50, speed: 50, durability: 50, power: 50, combat: 50 };
+const heroes: Superhero[] = [
+  { id: 1, name: "One", image: "one.jpg", powerstats },
+  { id: 2, name: "Two", image: "two.jpg", powerstats },
+];
+
+// A stand-in for the backend's GET /api/v1/superheroes, with ETag revalidation
+const backend = {
+  roster: heroes as unknown[],
+  status: 200,
+  delayMs: 0,
+  hang: false,
+  apiKey: undefined as string | undefined,
+  requests: [] as IncomingHttpHeaders[],
+};
+const etag = () => `"${Buffer.from(JSON.stringify(backend.roster)).toString("base64url").slice(-16)}"`;
+
+const server = http.createServer((req, res) => {
+  backend.requests.push(req.headers);
+  if (backend.hang) return;
+  setTimeout(() => {
+    if (req.url !== "/api/v1/superheroes") {
+      res.writeHead(404).end();
+    } else if (backend.apiKey && req.headers["x-api-key"] !== backend.apiKey) {
+      res.writeHead(401).end();
+    } else if (backend.status !== 200) {
+      res.writeHead(backend.status).end();
+    } else if (req.headers["if-none-match"] === etag()) {
+      res.writeHead(304, { ETag: etag() }).end();
+    } else {
+      res.writeHead(200, { "Content-Type": "application/json", ETag: etag() }).end(JSON.stringify(backend.roster));
+    }
+  }, backend.delayMs);
+});
+let baseUrl: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  Object.assign(backend, { roster: heroes, status: 200, delayMs: 0, hang: false, apiKey: undefined, requests: [] });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function source(options: Partial<ApiSourceOptions> = {}) {
+  return new ApiSuperheroSource({ baseUrl, cacheTtlMs: 0, timeoutMs: 1000, ...options });
+}
+
+describe("ApiSuperheroSource", () => {
+  it("should read the roster from /api/v1/superheroes under the base URL", async () => {
+    const api = source({ baseUrl: `${baseUrl}/` });
+    expect(api.location).toBe(`${baseUrl}/api/v1/superheroes`);
+    expect(await api.load()).toEqual(heroes);
+    expect(backend.requests[0].accept).toBe("application/json");
+  });
+
+  it("should reuse the roster within the cache TTL", async () => {
+    const api = source({ cacheTtlMs: 60_000 });
+    const first = await api.load();
+    expect(await api.load()).toBe(first);
+    expect(backend.requests).toHaveLength(1);
+  });
+
+  it("should revalidate with the ETag once the TTL is over and keep the roster on 304", async () => {
+    const api = source();
+    const first = await api.load();
+    expect(await api.load()).toBe(first);
+    expect(backend.requests).toHaveLength(2);
+    expect(backend.requests[1]["if-none-match"]).toBe(etag());
+
+    backend.roster = heroes.slice(0, 1);
+    expect(await api.load()).toEqual(heroes.slice(0, 1));
+  });
+
+  it("should share one request between concurrent loads", async () => {
+    backend.delayMs = 50;
+    const api = source();
+    const loads = await Promise.all([api.load(), api.load(), api.load()]);
+    expect(loads.every((roster) => roster === loads[0])).toBe(true);
+    expect(backend.requests).toHaveLength(1);
+  });
+
+  it("should give up on a backend that does not answer in time", async () => {
+    backend.hang = true;
+    await expect(source({ timeoutMs: 100 }).load()).rejects.toThrow(
+      `GET ${baseUrl}/api/v1/superheroes timed out after 100ms`
+    );
+  });
+
+  it("should report error statuses and unreachable backends", async () => {
+    backend.status = 500;
+    await expect(source().load()).rejects.toThrow("returned 500 Internal Server Error");
+    // A port that was free a moment ago, so nothing listens on it
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+    await expect(source({ baseUrl: `http://127.0.0.1:${port}` }).load()).rejects.toThrow(
+      `GET http://127.0.0.1:${port}/api/v1/superheroes failed: connect ECONNREFUSED`
+    );
+  });
+
+  it("should serve the last roster fetched while the backend is failing", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const api = source();
+    const first = await api.load();
+
+    backend.status = 503;
+    expect(await api.load()).toBe(first);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringMatching(/^Serving the roster fetched \d+s ago:$/),
+      expect.any(String)
+    );
+    backend.hang = true;
+    expect(await source({ timeoutMs: 100 }).load().catch(() => "failed")).toBe("failed");
+  });
+
+  it("should send the API key to backends that require one", async () => {
+    backend.apiKey = "shk_test";
+    await expect(source().load()).rejects.toThrow("returned 401 Unauthorized");
+    expect(await source({ apiKey: "shk_test" }).load()).toEqual(heroes);
+    expect(backend.requests[1]["x-api-key"]).toBe("shk_test");
+  });
+
+  it("should tell watchers about changes found by polling, and stop polling when they leave", async () => {
+    let poll: (() => void) | undefined;
+    jest.spyOn(globalThis, "setInterval").mockImplementation(((callback: () => void) => {
+      poll = callback;
+      return { unref: () => undefined };
+    }) as unknown as typeof setInterval);
+    const clear = jest.spyOn(globalThis, "clearInterval").mockImplementation(() => undefined);
+
+    const api = source();
+    await api.load();
+    const onChange = jest.fn();
+    const unwatch = api.watch(onChange);
+    const settle = async (requests: number) => {
+      while (backend.requests.length < requests) await new Promise((resolve) => setTimeout(resolve, 10));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    };
+
+    poll!();
+    await settle(2);
+    expect(onChange).not.toHaveBeenCalled();
+
+    backend.roster = [...heroes, { ...heroes[0], id: 3, name: "Three" }];
+    poll!();
+    await settle(3);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    unwatch();
+    expect(clear).toHaveBeenCalledTimes(1);
+  });
+});
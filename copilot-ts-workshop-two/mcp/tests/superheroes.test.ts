@@ -0,0 +1,103 @@
+import { Superhero } from "@superheroes/shared";
+import {
+  findSuperhero,
+  loadSuperheroes,
+  rankSuperheroes,
+  searchSuperheroes,
+  summarizeSuperheroes,
+} from "../src/superheroes.js";
+
+const powerstats = { intelligence: 50, strength: 50, speed: 50, durability: 50, power: 50, combat: 50 };
+
+function hero(id: number, name: string, stats: Partial<Superhero["powerstats"]> = {}): Superhero {
+  return { id, name, image: `${id}.jpg`, powerstats: { ...powerstats, ...stats } };
+}
+
+let roster: Superhero[];
+
+beforeAll(async () => {
+  roster = await loadSuperheroes();
+});
+
+describe("findSuperhero", () => {
+  it("should find heroes by id or by name, ignoring case and surrounding spaces", () => {
+    expect(findSuperhero(roster, "2")?.name).toBe("Ant-Man");
+    expect(findSuperhero(roster, "  bane ")?.id).toBe(3);
+    expect(findSuperhero(roster, "99")).toBeUndefined();
+  });
+});
+
+describe("searchSuperheroes", () => {
+  it("should match name substrings case-insensitively", () => {
+    expect(searchSuperheroes(roster, "AN", []).map((match) => match.name)).toEqual(["Ant-Man", "Bane"]);
+  });
+
+  it("should require every stat filter to pass", () => {
+    const heroes = [hero(1, "Low", { speed: 10 }), hero(2, "Mid", { speed: 50 }), hero(3, "High", { speed: 90 })];
+    const names = (filters: Parameters<typeof searchSuperheroes>[2]) =>
+      searchSuperheroes(heroes, undefined, filters).map((match) => match.name);
+    expect(names([{ stat: "speed", op: "gte", value: 50 }])).toEqual(["Mid", "High"]);
+    expect(names([{ stat: "speed", op: "gt", value: 50 }])).toEqual(["High"]);
+    expect(names([{ stat: "speed", op: "lt", value: 50 }])).toEqual(["Low"]);
+    expect(names([{ stat: "speed", op: "lte", value: 50 }])).toEqual(["Low", "Mid"]);
+    expect(names([{ stat: "speed", op: "eq", value: 50 }])).toEqual(["Mid"]);
+    expect(
+      names([
+        { stat: "speed", op: "gte", value: 10 },
+        { stat: "speed", op: "lt", value: 90 },
+      ])
+    ).toEqual(["Low", "Mid"]);
+  });
+});
+
+describe("rankSuperheroes", () => {
+  const heroes = [
+    hero(1, "Cee", { power: 80 }),
+    hero(2, "Bee", { power: 90 }),
+    hero(3, "Ay", { power: 80 }),
+    hero(4, "Dee", { power: 10 }),
+  ];
+
+  it("should share ranks between equal values and skip the ranks they use", () => {
+    expect(rankSuperheroes(heroes, "power")).toEqual([
+      { rank: 1, id: 2, name: "Bee", value: 90 },
+      { rank: 2, id: 3, name: "Ay", value: 80 },
+      { rank: 2, id: 1, name: "Cee", value: 80 },
+      { rank: 4, id: 4, name: "Dee", value: 10 },
+    ]);
+  });
+
+  it("should rank worst first when ascending and by the total of all six stats", () => {
+    expect(rankSuperheroes(heroes, "power", true).map((entry) => entry.rank)).toEqual([1, 2, 2, 4]);
+    expect(rankSuperheroes(heroes, "total")[0]).toEqual({ rank: 1, id: 2, name: "Bee", value: 340 });
+  });
+});
+
+describe("summarizeSuperheroes", () => {
+  it("should report min, max, mean, median and the best hero of every stat", () => {
+    const summary = summarizeSuperheroes(roster);
+    expect(summary.count).toBe(3);
+    expect(summary.stats.intelligence).toEqual({
+      min: 38,
+      max: 100,
+      mean: 75.3,
+      median: 88,
+      best: { id: 2, name: "Ant-Man" },
+    });
+    expect(summary.stats.total).toMatchObject({ min: 233, max: 351, best: { id: 3, name: "Bane" } });
+  });
+
+  it("should average the middle pair of an even roster and break ties for best by name", () => {
+    const summary = summarizeSuperheroes([hero(1, "Zed", { speed: 10 }), hero(2, "Amy", { speed: 10 })]);
+    expect(summary.stats.speed).toEqual({ min: 10, max: 10, mean: 10, median: 10, best: { id: 2, name: "Amy" } });
+    expect(summarizeSuperheroes([hero(1, "A", { speed: 10 }), hero(2, "B", { speed: 15 })]).stats.speed.median).toBe(
+      12.5
+    );
+  });
+
+  it("should report zeros and no best hero for an empty roster", () => {
+    const summary = summarizeSuperheroes([]);
+    expect(summary.count).toBe(0);
+    expect(summary.stats.power).toEqual({ min: 0, max: 0, mean: 0, median: 0, best: null });
+  });
+});
@@ -0,0 +1,114 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTools } from "../src/tools.js";
+
+let client: Client;
+
+beforeAll(async () => {
+  const server = new McpServer({ name: "superheroes-mcp", version: "1.0.0" });
+  registerTools(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: "test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+describe("superhero tools", () => {
+  it("should list every tool with an output schema", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "compare_superheroes",
+      "get_superhero",
+      "list_superheroes",
+      "rank_superheroes",
+      "search_superheroes",
+    ]);
+    expect(tools.every((tool) => tool.outputSchema)).toBe(true);
+  });
+
+  it("should answer get_superhero in markdown and as structured content", async () => {
+    const result = await client.callTool({ name: "get_superhero", arguments: { name: "ant-man" } });
+    const intro = "Here is the data for Ant-Man retrieved using the superheroes MCP";
+    expect(result.content).toEqual([{ type: "text", text: expect.stringContaining(intro) }]);
+    expect(result.structuredContent).toMatchObject({ superhero: { id: 2, name: "Ant-Man" } });
+  });
+
+  // Recorded from the backend's GET /api/v1/superheroes/compare on the same roster
+  it("should answer compare_superheroes like the backend for the default strategy", async () => {
+    const result = await client.callTool({ name: "compare_superheroes", arguments: { hero1: "1", hero2: "Ant-Man" } });
+    expect(result.structuredContent).toEqual({
+      id1: 1,
+      id2: 2,
+      categories: [
+        { name: "intelligence", winner: 2, id1_value: 38, id2_value: 100 },
+        { name: "strength", winner: 1, id1_value: 100, id2_value: 18 },
+        { name: "speed", winner: 2, id1_value: 17, id2_value: 23 },
+        { name: "durability", winner: 1, id1_value: 80, id2_value: 28 },
+        { name: "power", winner: 2, id1_value: 24, id2_value: 32 },
+        { name: "combat", winner: 1, id1_value: 64, id2_value: 32 },
+      ],
+      overall_winner: "tie",
+      strategy: {
+        name: "category-count",
+        weights: { intelligence: 1, strength: 1, speed: 1, durability: 1, power: 1, combat: 1 },
+      },
+      scores: { id1: 3, id2: 3 },
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: expect.stringContaining("**Overall: tie** (category-count, 3 to 3)") },
+    ]);
+  });
+
+  it("should answer compare_superheroes like the backend for a weighted strategy", async () => {
+    const result = await client.callTool({
+      name: "compare_superheroes",
+      arguments: { hero1: "1", hero2: "3", strategy: "weighted-sum", weights: { power: 3 } },
+    });
+    const comparison = result.structuredContent as { categories: Array<{ winner: unknown }> };
+    expect(comparison.categories.map((category) => category.winner)).toEqual([2, 1, 2, 1, 2, 2]);
+    expect(comparison).toMatchObject({
+      overall_winner: 2,
+      strategy: {
+        name: "weighted-sum",
+        weights: { intelligence: 1, strength: 1, speed: 1, durability: 1, power: 3, combat: 1 },
+      },
+      scores: { id1: 371, id2: 453 },
+    });
+  });
+
+  it("should report unknown heroes as tool errors", async () => {
+    const result = await client.callTool({ name: "compare_superheroes", arguments: { hero1: "1", hero2: "Nobody" } });
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Superhero not found: Nobody" }]);
+  });
+
+  it("should page through list_superheroes in id order", async () => {
+    const page = async (page: number) =>
+      (await client.callTool({ name: "list_superheroes", arguments: { page, page_size: 2 } })).structuredContent as {
+        total: number;
+        total_pages: number;
+        superheroes: Array<{ id: number }>;
+      };
+
+    const first = await page(1);
+    expect(first).toMatchObject({ page: 1, page_size: 2, total: 3, total_pages: 2 });
+    expect(first.superheroes.map((hero) => hero.id)).toEqual([1, 2]);
+    expect((await page(2)).superheroes.map((hero) => hero.id)).toEqual([3]);
+    expect((await page(3)).superheroes).toEqual([]);
+
+    const text = await client.callTool({ name: "list_superheroes", arguments: { page: 1, page_size: 2 } });
+    expect(text.content).toEqual([
+      { type: "text", text: expect.stringContaining("Page 1 of 2 (3 superheroes). Ask for page 2 for more.") },
+    ]);
+  });
+
+  it("should reject page sizes beyond the maximum", async () => {
+    await expect(
+      client.callTool({ name: "list_superheroes", arguments: { page: 1, page_size: 500 } })
+    ).rejects.toThrow(/page_size/);
+  });
+});
@@ -0,0 +1,55 @@
+import { ScoringOptions, ScoringStrategyName, scoreMatchup, StatWeights } from "./scoring.js";
+import { POWERSTAT_NAMES, PowerstatName, Superhero } from "./superhero.js";
+
+/** The position of the winning hero (1 or 2, never its id), or "tie". */
+export type Winner = 1 | 2 | "tie";
+
+export interface CategoryResult {
+  name: PowerstatName;
+  winner: Winner;
+  id1_value: number;
+  id2_value: number;
+}
+
+/**
+ * Which scoring strategy decided the overall winner, and with which stat weights.
+ */
+export interface StrategyReport {
+  name: ScoringStrategyName;
+  weights: StatWeights;
+}
+
+/**
+ * A one-on-one comparison, as answered by the backend's GET /api/v1/superheroes/compare
+ * and the MCP server's compare_superheroes tool.
+ */
+export interface TwoHeroComparison {
+  id1: number;
+  id2: number;
+  categories: CategoryResult[];
+  overall_winner: Winner;
+  strategy: StrategyReport;
+  scores: { id1: number; id2: number };
+}
+
+/**
+ * Compares two heroes category by category. The overall winner is decided by the
+ * scoring strategy (by default: the hero winning more categories).
+ */
+export function compareTwo(hero1: Superhero, hero2: Superhero, scoring: ScoringOptions = {}): TwoHeroComparison {
+  const categories = POWERSTAT_NAMES.map((name): CategoryResult => {
+    const id1_value = hero1.powerstats[name];
+    const id2_value = hero2.powerstats[name];
+    const winner: Winner = id1_value > id2_value ? 1 : id2_value > id1_value ? 2 : "tie";
+    return { name, winner, id1_value, id2_value };
+  });
+  const matchup = scoreMatchup(hero1, hero2, scoring);
+  return {
+    id1: hero1.id,
+    id2: hero2.id,
+    categories,
+    overall_winner: matchup.winner,
+    strategy: { name: matchup.strategy, weights: matchup.weights },
+    scores: { id1: matchup.score1, id2: matchup.score2 },
+  };
+}
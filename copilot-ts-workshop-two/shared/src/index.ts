@@ -0,0 +1,4 @@
+export * from "./superhero.js";
+export * from "./scoring.js";
+export * from "./compare.js";
+export * from "./statFilter.js";
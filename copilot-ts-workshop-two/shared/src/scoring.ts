@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { POWERSTAT_NAMES, PowerstatName, Superhero } from "./superhero.js";
+
+/**
+ * Ways of deciding the overall winner of a one-on-one matchup.
+ *
+ * - category-count: one point per category won (the classic rule)
+ * - weighted-sum:   sum of stat * weight per hero
+ * - total-margin:   sum of the (weighted) margins by which each hero wins its categories
+ * - elo:            expected score from Elo ratings derived from the weighted average stat
+ */
+export const SCORING_STRATEGY_NAMES = ["category-count", "weighted-sum", "total-margin", "elo"] as const;
+
+export type ScoringStrategyName = (typeof SCORING_STRATEGY_NAMES)[number];
+
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategyName = "category-count";
+
+export type StatWeights = Record<PowerstatName, number>;
+
+export const StatWeightsSchema = z
+  .object(
+    Object.fromEntries(
+      POWERSTAT_NAMES.map((stat) => [
+        stat,
+        z.number({ invalid_type_error: "must be a number" }).min(0, "must not be negative").max(100, "must be at most 100"),
+      ])
+    ) as Record<PowerstatName, z.ZodNumber>
+  )
+  .partial()
+  .strict();
+
+export const ScoringOptionsSchema = z
+  .object({
+    strategy: z.enum(SCORING_STRATEGY_NAMES).default(DEFAULT_SCORING_STRATEGY),
+    weights: StatWeightsSchema.optional(),
+  })
+  .strict();
+
+export type ScoringOptions = z.input<typeof ScoringOptionsSchema>;
+
+export interface MatchupScore {
+  strategy: ScoringStrategyName;
+  /** The weights that were applied; every stat weighs 1 unless overridden. */
+  weights: StatWeights;
+  score1: number;
+  score2: number;
+  winner: 1 | 2 | "tie";
+}
+
+interface ScoringStrategy {
+  description: string;
+  score(hero1: Superhero, hero2: Superhero, weights: StatWeights): [number, number];
+}
+
+// Rating points per point of (weighted) average stat: a 20 point edge means 10:1 odds
+const ELO_SCALE = 20;
+// Scores closer than this count as a tie, so floating point noise never decides a matchup
+const EPSILON = 1e-9;
+
+const STRATEGIES: Record<ScoringStrategyName, ScoringStrategy> = {
+  "category-count": {
+    description: "One point per category won",
+    score(hero1, hero2) {
+      let score1 = 0;
+      let score2 = 0;
+      for (const stat of POWERSTAT_NAMES) {
+        if (hero1.powerstats[stat] > hero2.powerstats[stat]) score1++;
+        else if (hero2.powerstats[stat] > hero1.powerstats[stat]) score2++;
+      }
+      return [score1, score2];
+    },
+  },
+  "weighted-sum": {
+    description: "Sum of every stat multiplied by its weight",
+    score(hero1, hero2, weights) {
+      return [weightedTotal(hero1, weights), weightedTotal(hero2, weights)];
+    },
+  },
+  "total-margin": {
+    description: "Sum of the weighted margins by which each hero wins its categories",
+    score(hero1, hero2, weights) {
+      let score1 = 0;
+      let score2 = 0;
+      for (const stat of POWERSTAT_NAMES) {
+        const margin = (hero1.powerstats[stat] - hero2.powerstats[stat]) * weights[stat];
+        if (margin > 0) score1 += margin;
+        else score2 -= margin;
+      }
+      return [score1, score2];
+    },
+  },
+  elo: {
+    description: "Elo expected score, rating each hero by its weighted average stat",
+    score(hero1, hero2, weights) {
+      const rating1 = weightedAverage(hero1, weights) * ELO_SCALE;
+      const rating2 = weightedAverage(hero2, weights) * ELO_SCALE;
+      const expected1 = 1 / (1 + Math.pow(10, (rating2 - rating1) / 400));
+      return [expected1, 1 - expected1];
+    },
+  },
+};
+
+/**
+ * Human readable description of each strategy, e.g. for a strategy picker.
+ */
+export const SCORING_STRATEGY_DESCRIPTIONS: Record<ScoringStrategyName, string> = Object.fromEntries(
+  SCORING_STRATEGY_NAMES.map((name) => [name, STRATEGIES[name].description])
+) as Record<ScoringStrategyName, string>;
+
+/**
+ * Fills in a weight of 1 for every stat not given.
+ */
+export function resolveWeights(weights?: Partial<StatWeights>): StatWeights {
+  return Object.fromEntries(POWERSTAT_NAMES.map((stat) => [stat, weights?.[stat] ?? 1])) as StatWeights;
+}
+
+/**
+ * Scores a one-on-one matchup with the chosen strategy; the higher score wins.
+ */
+export function scoreMatchup(hero1: Superhero, hero2: Superhero, options: ScoringOptions = {}): MatchupScore {
+  const strategy = options.strategy ?? DEFAULT_SCORING_STRATEGY;
+  const weights = resolveWeights(options.weights);
+  const [score1, score2] = STRATEGIES[strategy].score(hero1, hero2, weights);
+  let winner: MatchupScore["winner"] = "tie";
+  if (score1 - score2 > EPSILON) winner = 1;
+  else if (score2 - score1 > EPSILON) winner = 2;
+  return { strategy, weights, score1, score2, winner };
+}
+
+function weightedTotal(hero: Superhero, weights: StatWeights): number {
+  return POWERSTAT_NAMES.reduce((sum, stat) => sum + hero.powerstats[stat] * weights[stat], 0);
+}
+
+function weightedAverage(hero: Superhero, weights: StatWeights): number {
+  const totalWeight = POWERSTAT_NAMES.reduce((sum, stat) => sum + weights[stat], 0);
+  return totalWeight === 0 ? 0 : weightedTotal(hero, weights) / totalWeight;
+}
@@ -0,0 +1,30 @@
+import { PowerstatName, Superhero } from "./superhero.js";
+
+/** Comparisons a stat filter can make: =, >, >=, < and <=. */
+export const STAT_FILTER_OPS = ["eq", "gt", "gte", "lt", "lte"] as const;
+
+export type StatFilterOp = (typeof STAT_FILTER_OPS)[number];
+
+/**
+ * A condition on one powerstat, e.g. { stat: "speed", op: "gte", value: 90 }.
+ */
+export interface StatFilter {
+  stat: PowerstatName;
+  op: StatFilterOp;
+  value: number;
+}
+
+const OPERATORS: Record<StatFilterOp, (actual: number, value: number) => boolean> = {
+  eq: (actual, value) => actual === value,
+  gt: (actual, value) => actual > value,
+  gte: (actual, value) => actual >= value,
+  lt: (actual, value) => actual < value,
+  lte: (actual, value) => actual <= value,
+};
+
+/**
+ * Whether the hero passes every filter (so also when there are none).
+ */
+export function matchesStatFilters(hero: Superhero, filters: readonly StatFilter[]): boolean {
+  return filters.every((filter) => OPERATORS[filter.op](hero.powerstats[filter.stat], filter.value));
+}
@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+/**
+ * The six power statistics every superhero carries, in display/compare order.
+ */
+export const POWERSTAT_NAMES = [
+  "intelligence",
+  "strength",
+  "speed",
+  "durability",
+  "power",
+  "combat",
+] as const;
+
+export type PowerstatName = (typeof POWERSTAT_NAMES)[number];
+
+/**
+ * A single power statistic: an integer from 0 to 100.
+ */
+export const PowerstatSchema = z
+  .number({ invalid_type_error: "must be a number" })
+  .int("must be an integer")
+  .min(0, "must be between 0 and 100")
+  .max(100, "must be between 0 and 100");
+
+export const PowerstatsSchema = z
+  .object({
+    intelligence: PowerstatSchema,
+    strength: PowerstatSchema,
+    speed: PowerstatSchema,
+    durability: PowerstatSchema,
+    power: PowerstatSchema,
+    combat: PowerstatSchema,
+  })
+  .strict();
+
+export const SuperheroIdSchema = z
+  .number({ invalid_type_error: "must be a number" })
+  .int("must be an integer")
+  .positive("must be a positive integer");
+
+const NameSchema = z.string({ invalid_type_error: "must be a string" }).trim().min(1, "must not be empty");
+const ImageSchema = z.string({ invalid_type_error: "must be a string" }).min(1, "must not be empty");
+
+export const SuperheroSchema = z
+  .object({
+    id: SuperheroIdSchema,
+    name: NameSchema,
+    image: ImageSchema,
+    powerstats: PowerstatsSchema,
+  })
+  .strict();
+
+/**
+ * Writable fields of a superhero (create / replace). The id is assigned by the server.
+ */
+export const SuperheroInputSchema = SuperheroSchema.omit({ id: true });
+
+/**
+ * Partial update of a superhero; powerstats may be patched one stat at a time.
+ */
+export const SuperheroPatchSchema = z
+  .object({
+    name: NameSchema,
+    image: ImageSchema,
+    powerstats: PowerstatsSchema.partial(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * A whole roster: valid superheroes with unique ids.
+ */
+export const SuperheroListSchema = z.array(SuperheroSchema).superRefine((heroes, ctx) => {
+  const seen = new Map<number, number>();
+  heroes.forEach((hero, index) => {
+    const first = seen.get(hero.id);
+    if (first !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, "id"],
+        message: `duplicate id ${hero.id} (already used at index ${first})`,
+      });
+    } else {
+      seen.set(hero.id, index);
+    }
+  });
+});
+
+export type Powerstats = z.infer<typeof PowerstatsSchema>;
+export type Superhero = z.infer<typeof SuperheroSchema>;
+export type SuperheroInput = z.infer<typeof SuperheroInputSchema>;
+export type SuperheroPatch = z.infer<typeof SuperheroPatchSchema>;
+
+/**
+ * A single validation problem, addressed by a dotted path such as "powerstats.speed"
+ * or "[3].name". An empty path refers to the value itself.
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Raised when superhero data does not match the domain model.
+ */
+export class SuperheroValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: ValidationIssue[]
+  ) {
+    super(`${message}: ${issues.map(formatIssue).join("; ")}`);
+    this.name = "SuperheroValidationError";
+  }
+}
+
+/**
+ * Flattens zod issues into path/message pairs. Unknown keys are reported one per key
+ * so every offending field gets its own path.
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.flatMap((issue) => {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map((key) => ({ path: formatPath([...issue.path, key]), message: "unknown field" }));
+    }
+    return [{ path: formatPath(issue.path), message: issue.message }];
+  });
+}
+
+/**
+ * Validates a value against a schema without throwing.
+ */
+export function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown): ValidationResult<T> {
+  const result = schema.safeParse(value);
+  return result.success ? { ok: true, value: result.data } : { ok: false, issues: toValidationIssues(result.error) };
+}
+
+/**
+ * Parses a full roster, e.g. the contents of superheroes.json.
+ *
+ * @throws {SuperheroValidationError} Naming every malformed hero field, e.g. "[12].powerstats.speed: must be a number".
+ */
+export function parseSuperheroes(data: unknown): Superhero[] {
+  const result = validate(SuperheroListSchema, data);
+  if (!result.ok) {
+    throw new SuperheroValidationError("Invalid superheroes data", result.issues);
+  }
+  return result.value;
+}
+
+/**
+ * Type guard for a single well-formed superhero.
+ */
+export function isSuperhero(value: unknown): value is Superhero {
+  return SuperheroSchema.safeParse(value).success;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, part) => {
+    if (typeof part === "number") return `${acc}[${part}]`;
+    return acc ? `${acc}.${part}` : part;
+  }, "");
+}
+
+/**
+ * Renders an issue as "path: message" (just the message for the root).
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}